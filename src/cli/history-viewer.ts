@@ -42,6 +42,10 @@ const clearTerminal = () => {
   process.stdout.write("\x1b[3J")
 }
 
+// Binary versions have no text to show, so summarize them
+const versionText = (version: string | Uint8Array) =>
+  typeof version === "string" ? version : `(binary, ${version.length} bytes)`
+
 interface HistoryEntry {
   hash: string
   actor: string
@@ -274,7 +278,7 @@ async function startTUI(
   async function getContent(hash: string): Promise<string> {
     const cached = contentCache.get(hash)
     if (cached !== undefined) return cached
-    const content = await fsInstance.getFileAt(filePath, [hash])
+    const content = versionText(await fsInstance.getFileAt(filePath, [hash]))
     contentCache.set(hash, content)
     return content
   }
@@ -378,8 +382,8 @@ const program = Effect.gen(function* () {
     // Newest first
     history.reverse()
 
-    const initialContent = yield* Effect.promise(() =>
-      fsInstance.getFileAt(filePath, [history[0]!.hash])
+    const initialContent = versionText(
+      yield* Effect.promise(() => fsInstance.getFileAt(filePath, [history[0]!.hash]))
     )
 
     // Launch TUI (non-Effect, takes over the terminal)
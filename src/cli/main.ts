@@ -6,10 +6,12 @@
  * over Unix socket. Designed to be called from Claude Code hooks.
  */
 
-import { Effect, Runtime, Option } from "effect";
+import { Effect, Runtime, Option, Schema } from "effect";
 import { Command, Args, Options } from "@effect/cli";
 import { NodeContext, NodeRuntime } from "@effect/platform-node";
+import { resolve } from "node:path";
 import { createPromiseClient, type AmfsClient } from "../rpc/client";
+import { describeError, errorCode } from "../errors";
 
 const SOCKET_PATH = Bun.env.AMFS_SOCKET ?? "/tmp/amfs.sock";
 
@@ -52,20 +54,52 @@ const withClient = <A, E>(
     }
   });
 
+// --at <head> (repeatable): read the filesystem as of these root heads
+const atOption = Options.text("at").pipe(
+  Options.repeated,
+  Options.withDescription("Root heads to read at (from snapshot)"),
+);
+
+const optionalHeads = (heads: ReadonlyArray<string>) =>
+  heads.length > 0 ? [...heads] : undefined;
+
 // =============================================================================
 // Command Definitions
 // =============================================================================
 
 const runtime = Runtime.defaultRuntime;
 
-// read <path>
+// read <path> [--offset <n>] [--limit <n>] [-n] [--at <head>...]
 const readCommand = Command.make("read", {
   args: Args.text({ name: "path" }),
+  options: {
+    at: atOption,
+    offset: Options.integer("offset").pipe(
+      Options.withSchema(Schema.Positive),
+      Options.optional,
+      Options.withDescription("1-based line number to start from"),
+    ),
+    limit: Options.integer("limit").pipe(
+      Options.withSchema(Schema.Positive),
+      Options.optional,
+      Options.withDescription("Maximum number of lines to read"),
+    ),
+    lineNumbers: Options.boolean("n").pipe(
+      Options.withAlias("line-numbers"),
+      Options.withDefault(false),
+    ),
+  },
 }).pipe(
   Command.withHandler((parsed) =>
     withClient((client) =>
       Effect.gen(function* () {
-        const result = yield* client.read(parsed.args);
+        const { at, offset, limit, lineNumbers } = parsed.options;
+        const result = yield* client.read(parsed.args, {
+          at: optionalHeads(at),
+          offset: Option.getOrUndefined(offset),
+          limit: Option.getOrUndefined(limit),
+          lineNumbers,
+        });
         if (result.encoding === "utf-8") {
           process.stdout.write(result.content);
         } else {
@@ -112,28 +146,36 @@ const appendCommand = Command.make("append", {
   ),
 );
 
-// stat <path>
+// stat <path> [--at <head>...]
 const statCommand = Command.make("stat", {
   args: Args.text({ name: "path" }),
+  options: atOption,
 }).pipe(
   Command.withHandler((parsed) =>
     withClient((client) =>
       Effect.gen(function* () {
-        const result = yield* client.stat(parsed.args);
+        const result = yield* client.stat(
+          parsed.args,
+          optionalHeads(parsed.options),
+        );
         output({ ok: true, ...result });
       }),
     ),
   ),
 );
 
-// ls [path]
+// ls [path] [--at <head>...]
 const lsCommand = Command.make("ls", {
   args: Args.text({ name: "path" }).pipe(Args.withDefault("/")),
+  options: atOption,
 }).pipe(
   Command.withHandler((parsed) =>
     withClient((client) =>
       Effect.gen(function* () {
-        const result = yield* client.readdir(parsed.args);
+        const result = yield* client.readdir(
+          parsed.args,
+          optionalHeads(parsed.options),
+        );
         output({ ok: true, entries: result });
       }),
     ),
@@ -202,20 +244,75 @@ const cpCommand = Command.make("cp", {
   ),
 );
 
-// exists <path>
+// exists <path> [--at <head>...]
 const existsCommand = Command.make("exists", {
   args: Args.text({ name: "path" }),
+  options: atOption,
 }).pipe(
   Command.withHandler((parsed) =>
     withClient((client) =>
       Effect.gen(function* () {
-        const exists = yield* client.exists(parsed.args);
+        const exists = yield* client.exists(
+          parsed.args,
+          optionalHeads(parsed.options),
+        );
         output({ ok: true, exists });
       }),
     ),
   ),
 );
 
+// glob <pattern> [--path <dir>]
+const globCommand = Command.make("glob", {
+  args: Args.text({ name: "pattern" }),
+  options: Options.text("path").pipe(Options.withDefault("/")),
+}).pipe(
+  Command.withHandler((parsed) =>
+    withClient((client) =>
+      Effect.gen(function* () {
+        const paths = yield* client.glob(parsed.args, parsed.options);
+        output({ ok: true, paths });
+      }),
+    ),
+  ),
+);
+
+// grep <pattern> [--path <dir>] [--include <glob>] [--mode <mode>] [-C <n>] [-i]
+const grepCommand = Command.make("grep", {
+  args: Args.text({ name: "pattern" }),
+  options: {
+    path: Options.text("path").pipe(Options.withDefault("/")),
+    include: Options.text("include").pipe(Options.optional),
+    mode: Options.choice("mode", ["files_with_matches", "count", "content"]).pipe(
+      Options.withDefault("files_with_matches" as const),
+    ),
+    context: Options.integer("C").pipe(
+      Options.withAlias("context"),
+      Options.withDefault(0),
+    ),
+    ignoreCase: Options.boolean("i").pipe(
+      Options.withAlias("ignore-case"),
+      Options.withDefault(false),
+    ),
+  },
+}).pipe(
+  Command.withHandler((parsed) =>
+    withClient((client) =>
+      Effect.gen(function* () {
+        const { path, include, mode, context, ignoreCase } = parsed.options;
+        const result = yield* client.grep(parsed.args, {
+          path,
+          include: Option.getOrUndefined(include),
+          outputMode: mode,
+          context,
+          ignoreCase,
+        });
+        output({ ok: true, ...result });
+      }),
+    ),
+  ),
+);
+
 // bash <command...>
 const bashCommand = Command.make("bash", {
   args: Args.text({ name: "command" }).pipe(Args.repeated),
@@ -224,9 +321,13 @@ const bashCommand = Command.make("bash", {
     withClient((client) =>
       Effect.gen(function* () {
         const cmd = parsed.args.join(" ");
-        const result = yield* client.bash(cmd);
-        if (result.stdout) process.stdout.write(result.stdout);
-        if (result.stderr) process.stderr.write(result.stderr);
+        // Output is printed as the daemon streams it, not from the result.
+        // Ctrl-C interrupts the call, which cancels the command in the daemon
+        const result = yield* client
+          .bash(cmd, {}, (chunk) => {
+            process[chunk.stream].write(chunk.data);
+          })
+          .pipe(Effect.onInterrupt(() => Effect.sync(() => process.exit(130))));
         process.exit(result.exitCode);
       }),
     ),
@@ -248,15 +349,231 @@ const snapshotCommand = Command.make("snapshot", {
   ),
 );
 
-// history [path]
+// snapshots
+const snapshotsCommand = Command.make("snapshots").pipe(
+  Command.withHandler(() =>
+    withClient((client) =>
+      Effect.gen(function* () {
+        const snapshots = yield* client.listSnapshots();
+        output({ ok: true, snapshots });
+      }),
+    ),
+  ),
+);
+
+// snapshot-info <name>
+const snapshotInfoCommand = Command.make("snapshot-info", {
+  args: Args.text({ name: "name" }),
+}).pipe(
+  Command.withHandler((parsed) =>
+    withClient((client) =>
+      Effect.gen(function* () {
+        const result = yield* client.getSnapshot(parsed.args);
+        output({ ok: true, ...result });
+      }),
+    ),
+  ),
+);
+
+// snapshot-rm <name>
+const snapshotRmCommand = Command.make("snapshot-rm", {
+  args: Args.text({ name: "name" }),
+}).pipe(
+  Command.withHandler((parsed) =>
+    withClient((client) =>
+      Effect.gen(function* () {
+        yield* client.deleteSnapshot(parsed.args);
+        output({ ok: true });
+      }),
+    ),
+  ),
+);
+
+// restore [--snapshot <name>] [heads...]
+const restoreCommand = Command.make("restore", {
+  args: Args.text({ name: "heads" }).pipe(Args.repeated),
+  options: Options.text("snapshot").pipe(Options.optional),
+}).pipe(
+  Command.withHandler((parsed) =>
+    withClient((client) =>
+      Effect.gen(function* () {
+        if (Option.isNone(parsed.options) && parsed.args.length === 0) {
+          return yield* Effect.fail(
+            new Error("restore requires heads or --snapshot <name>"),
+          );
+        }
+        const result = yield* client.restore(
+          Option.isSome(parsed.options)
+            ? { name: parsed.options.value }
+            : { heads: [...parsed.args] },
+        );
+        output({ ok: true, ...result });
+      }),
+    ),
+  ),
+);
+
+// gc [--dry-run] [--retain history|snapshots|current]
+const gcCommand = Command.make("gc", {
+  options: {
+    dryRun: Options.boolean("dry-run").pipe(
+      Options.withDescription("List unreferenced blobs without deleting them"),
+    ),
+    retain: Options.choice("retain", ["history", "snapshots", "current"]).pipe(
+      Options.withDescription("Which trees keep their blobs alive"),
+      Options.withDefault("history" as const),
+    ),
+  },
+}).pipe(
+  Command.withHandler((parsed) =>
+    withClient((client) =>
+      Effect.gen(function* () {
+        const result = yield* client.gc(parsed.options);
+        output({ ok: true, ...result });
+      }),
+    ),
+  ),
+);
+
+// fsck [--repair [--truncate-lost]]
+const fsckCommand = Command.make("fsck", {
+  options: {
+    repair: Options.boolean("repair").pipe(
+      Options.withDescription(
+        "Fix the tree: recreate a missing root, move orphans to /lost+found, recompute sizes. Files whose content is missing are only reported",
+      ),
+    ),
+    truncateLost: Options.boolean("truncate-lost").pipe(
+      Options.withDescription(
+        "With --repair, also empty files whose doc or blob is missing or corrupt, and delete corrupt blobs. Their content is lost for good",
+      ),
+    ),
+  },
+}).pipe(
+  Command.withHandler((parsed) =>
+    withClient((client) =>
+      Effect.gen(function* () {
+        const result = yield* client.fsck(parsed.options);
+        output({ ok: true, ...result });
+      }),
+    ),
+  ),
+);
+
+// dump <dir>
+const dumpCommand = Command.make("dump", {
+  args: Args.text({ name: "dir" }),
+}).pipe(
+  Command.withHandler((parsed) =>
+    withClient((client) =>
+      Effect.gen(function* () {
+        // The daemon resolves relative paths against its own cwd
+        const result = yield* client.dump(resolve(parsed.args));
+        output({ ok: true, ...result });
+      }),
+    ),
+  ),
+);
+
+// export --out <file>
+const exportCommand = Command.make("export", {
+  options: {
+    out: Options.text("out").pipe(
+      Options.withDescription("Bundle file to write"),
+    ),
+  },
+}).pipe(
+  Command.withHandler((parsed) =>
+    withClient((client) =>
+      Effect.gen(function* () {
+        const result = yield* client.exportBundle(resolve(parsed.options.out));
+        output({ ok: true, ...result });
+      }),
+    ),
+  ),
+);
+
+// import <file> [--force]
+const importCommand = Command.make("import", {
+  args: Args.text({ name: "file" }),
+  options: {
+    force: Options.boolean("force").pipe(
+      Options.withDescription("Replace a filesystem that is not empty"),
+    ),
+  },
+}).pipe(
+  Command.withHandler((parsed) =>
+    withClient((client) =>
+      Effect.gen(function* () {
+        const result = yield* client.importBundle(resolve(parsed.args), parsed.options);
+        output({ ok: true, ...result });
+      }),
+    ),
+  ),
+);
+
+// tar --out <file> [--format tar|tgz|zip] [--root <dir>]
+const tarCommand = Command.make("tar", {
+  options: {
+    out: Options.text("out").pipe(
+      Options.withDescription("Archive file to write"),
+    ),
+    format: Options.choice("format", ["tar", "tgz", "zip"]).pipe(
+      Options.optional,
+      Options.withDescription("Archive format (default: from the file extension)"),
+    ),
+    root: Options.text("root").pipe(
+      Options.withDescription("Directory to archive"),
+      Options.withDefault("/"),
+    ),
+  },
+}).pipe(
+  Command.withHandler((parsed) =>
+    withClient((client) =>
+      Effect.gen(function* () {
+        const { out, format, root } = parsed.options;
+        const result = yield* client.exportArchive(resolve(out), {
+          format: Option.getOrUndefined(format),
+          root,
+        });
+        output({ ok: true, ...result });
+      }),
+    ),
+  ),
+);
+
+// untar <file> [--dest <dir>]
+const untarCommand = Command.make("untar", {
+  args: Args.text({ name: "file" }),
+  options: {
+    dest: Options.text("dest").pipe(
+      Options.withDescription("Directory to extract into"),
+      Options.withDefault("/"),
+    ),
+  },
+}).pipe(
+  Command.withHandler((parsed) =>
+    withClient((client) =>
+      Effect.gen(function* () {
+        const result = yield* client.importArchive(resolve(parsed.args), parsed.options);
+        output({ ok: true, ...result });
+      }),
+    ),
+  ),
+);
+
+// history [path] [--follow]
 const historyCommand = Command.make("history", {
   args: Args.text({ name: "path" }).pipe(Args.optional),
+  options: Options.boolean("follow").pipe(
+    Options.withDescription("Follow the file across renames and copies"),
+  ),
 }).pipe(
   Command.withHandler((parsed) =>
     withClient((client) =>
       Effect.gen(function* () {
         const path = Option.getOrUndefined(parsed.args) as string | undefined;
-        const result = yield* client.history(path);
+        const result = yield* client.history(path, parsed.options);
         output(Object.assign({ ok: true }, result));
       }),
     ),
@@ -339,8 +656,21 @@ const cli = Command.make("amfs").pipe(
     mvCommand,
     cpCommand,
     existsCommand,
+    globCommand,
+    grepCommand,
     bashCommand,
     snapshotCommand,
+    snapshotsCommand,
+    snapshotInfoCommand,
+    snapshotRmCommand,
+    restoreCommand,
+    gcCommand,
+    fsckCommand,
+    dumpCommand,
+    exportCommand,
+    importCommand,
+    tarCommand,
+    untarCommand,
     historyCommand,
     diffCommand,
     headsCommand,
@@ -357,8 +687,7 @@ const program = Effect.suspend(() => {
   Effect.provide(NodeContext.layer),
   Effect.catchAll((error) =>
     Effect.sync(() => {
-      const message = error instanceof Error ? error.message : String(error);
-      output({ ok: false, error: message });
+      output({ ok: false, error: describeError(error), code: errorCode(error) });
       process.exit(1);
     }),
   ),
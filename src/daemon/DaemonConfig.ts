@@ -1,8 +1,21 @@
 import { Context } from "effect"
 
+// Where the base64 AES-256 key comes from
+export type EncryptionKeySource = { keyEnv: string } | { keyFile: string }
+
 export interface DaemonConfigShape {
   socketPath: string
   dataDir: string
+  // "fs" (default): a file per Automerge chunk and per blob under dataDir
+  // "sqlite": both in a single dataDir/amfs.sqlite database
+  // "memory": nothing on disk; dataDir is unused
+  storage?: "fs" | "sqlite" | "memory"
+  // Encrypt documents and blobs at rest; unset stores plaintext. The CLI
+  // rejects it with "memory" storage, which keeps nothing at rest
+  encryption?: EncryptionKeySource
+  // Stop bash commands that run longer than this many milliseconds, unless
+  // the request passes its own timeoutMs; unset is two minutes
+  bashTimeoutMs?: number
 }
 
 export class DaemonConfig extends Context.Tag("DaemonConfig")<
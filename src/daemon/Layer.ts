@@ -5,20 +5,89 @@
  * that can be provided to the daemon runtime.
  */
 
-import { Layer } from "effect"
-import { StorageAdapterLive } from "../services/StorageAdapter"
-import { BlobStoreLive } from "../services/BlobStore"
-import { AutomergeFsLive } from "../services/AutomergeFs"
+import { Effect, Layer } from "effect"
+import {
+  StorageAdapterLive,
+  SqliteStorageAdapterLive,
+  InMemoryStorageAdapterLive,
+  KeyValueStorageAdapterLive,
+} from "../services/StorageAdapter"
+import {
+  BlobStoreLive,
+  SqliteBlobStoreLive,
+  InMemoryBlobStoreLive,
+  KeyValueBlobStoreLive,
+} from "../services/BlobStore"
+import { RootDocPointerLive, KeyValueRootDocPointerLive } from "../services/RootDocPointer"
+import { EncryptionKeyLive } from "../services/Encryption"
+import { SqliteDatabaseLive } from "../services/SqliteDatabase"
+import { AutomergeFsLive, AutomergeFsMemoryLive } from "../services/AutomergeFs"
 import { BashExecutorLive } from "../services/BashExecutor"
+import { DaemonConfig, type DaemonConfigShape } from "./DaemonConfig"
 
 export { DaemonConfig, type DaemonConfigShape } from "./DaemonConfig"
 
+/**
+ * StorageLive — StorageAdapter + BlobStore for the configured backend,
+ * plus the root-doc-id file under dataDir.
+ * The sqlite backend shares one database between both. With `encryption`
+ * configured, the key is loaded once and both stores encrypt with it.
+ */
+export const StorageLive = Layer.unwrapEffect(
+  Effect.map(DaemonConfig, (config) => {
+    const storage =
+      config.storage === "sqlite"
+        ? Layer.mergeAll(SqliteStorageAdapterLive, SqliteBlobStoreLive, RootDocPointerLive).pipe(
+            Layer.provide(SqliteDatabaseLive),
+          )
+        : Layer.mergeAll(StorageAdapterLive, BlobStoreLive, RootDocPointerLive)
+    return config.encryption ? storage.pipe(Layer.provide(EncryptionKeyLive)) : storage
+  }),
+)
+
 /**
  * DaemonLive — composed layer combining all services.
  * Requires DaemonConfig to be provided externally.
  */
 export const DaemonLive = BashExecutorLive.pipe(
   Layer.provideMerge(AutomergeFsLive),
-  Layer.provideMerge(StorageAdapterLive),
-  Layer.provideMerge(BlobStoreLive),
+  Layer.provideMerge(StorageLive),
+)
+
+/**
+ * DaemonMemoryLive — the same services with nothing on disk.
+ * Needs no DaemonConfig, but uses its bash timeout if one is provided; the
+ * filesystem is gone when the layer is released unless it was dumped first.
+ */
+export const DaemonMemoryLive = BashExecutorLive.pipe(
+  Layer.provideMerge(AutomergeFsMemoryLive),
+  Layer.provideMerge(Layer.merge(InMemoryStorageAdapterLive, InMemoryBlobStoreLive)),
+)
+
+/**
+ * KeyValueStorageLive — StorageAdapter, BlobStore and root doc pointer
+ * all on one host-provided KeyValueStore.
+ */
+export const KeyValueStorageLive = Layer.mergeAll(
+  KeyValueStorageAdapterLive,
+  KeyValueBlobStoreLive,
+  KeyValueRootDocPointerLive,
+)
+
+/**
+ * DaemonKeyValueLive — all services with nothing but a KeyValueStore
+ * underneath, for hosts such as Durable Objects with no local disk.
+ * Requires KeyValueStoreTag to be provided externally.
+ */
+export const DaemonKeyValueLive = BashExecutorLive.pipe(
+  Layer.provideMerge(AutomergeFsLive),
+  Layer.provideMerge(KeyValueStorageLive),
 )
+
+/**
+ * Pick DaemonMemoryLive or DaemonLive for the configured storage backend.
+ */
+export const daemonLayerFor = (config: DaemonConfigShape) =>
+  (config.storage === "memory" ? DaemonMemoryLive : DaemonLive).pipe(
+    Layer.provide(Layer.succeed(DaemonConfig, config)),
+  )
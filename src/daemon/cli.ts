@@ -1,7 +1,8 @@
-import { Effect } from "effect"
+import { Effect, Option, Schema } from "effect"
 import { NodeContext, NodeRuntime } from "@effect/platform-node"
-import { Command, Options } from "@effect/cli"
+import { Command, HelpDoc, Options, ValidationError } from "@effect/cli"
 import { startDaemon } from "./server"
+import type { EncryptionKeySource } from "./DaemonConfig"
 
 // =============================================================================
 // Shared Options
@@ -17,18 +18,84 @@ const dataOption = Options.directory("data", { exists: "either" }).pipe(
   Options.withDescription("Data directory"),
 )
 
+const storageOption = Options.choice("storage", ["fs", "sqlite", "memory"]).pipe(
+  Options.withDefault("fs" as const),
+  Options.withDescription(
+    "Storage backend: files under the data directory, one SQLite database, or memory only",
+  ),
+)
+
+const keyFileOption = Options.file("key-file", { exists: "yes" }).pipe(
+  Options.optional,
+  Options.withDescription("Encrypt at rest with the base64 AES-256 key in this file"),
+)
+
+const keyEnvOption = Options.text("key-env").pipe(
+  Options.optional,
+  Options.withDescription("Encrypt at rest with the base64 AES-256 key in this environment variable"),
+)
+
+const bashTimeoutOption = Options.integer("bash-timeout").pipe(
+  Options.withSchema(Schema.Positive),
+  Options.optional,
+  Options.withDescription(
+    "Stop bash commands after this many milliseconds unless the request passes its own (default: 120000)",
+  ),
+)
+
+const encryptionFrom = (options: {
+  keyFile: Option.Option<string>
+  keyEnv: Option.Option<string>
+}): EncryptionKeySource | undefined =>
+  Option.match(options.keyFile, {
+    onSome: (keyFile) => ({ keyFile }),
+    onNone: () =>
+      Option.match(options.keyEnv, {
+        onSome: (keyEnv) => ({ keyEnv }),
+        onNone: () => undefined,
+      }),
+  })
+
+const invalid = (message: string) =>
+  Effect.fail(ValidationError.invalidValue(HelpDoc.p(message)))
+
+// Only one key can be used, and memory storage writes nothing at rest, so
+// a second key or any key there would silently go unused
+const storeOptions = Options.all({
+  storage: storageOption,
+  keyFile: keyFileOption,
+  keyEnv: keyEnvOption,
+}).pipe(
+  Options.mapEffect((options) => {
+    if (Option.isSome(options.keyFile) && Option.isSome(options.keyEnv)) {
+      return invalid("--key-file and --key-env cannot be used together")
+    }
+    const encryption = encryptionFrom(options)
+    return encryption && options.storage === "memory"
+      ? invalid("--key-file and --key-env cannot be used with --storage memory")
+      : Effect.succeed({ storage: options.storage, encryption })
+  }),
+)
+
 // =============================================================================
 // Commands
 // =============================================================================
 
 const startCommand = Command.make("start", {
-  options: { socket: socketOption, data: dataOption },
+  options: {
+    socket: socketOption,
+    data: dataOption,
+    store: storeOptions,
+    bashTimeout: bashTimeoutOption,
+  },
 }).pipe(
   Command.withHandler((parsed) =>
     Effect.sync(() => {
       startDaemon({
         socketPath: parsed.options.socket,
         dataDir: parsed.options.data,
+        ...parsed.options.store,
+        bashTimeoutMs: Option.getOrUndefined(parsed.options.bashTimeout),
       })
     }),
   ),
@@ -36,7 +103,11 @@ const startCommand = Command.make("start", {
 )
 
 const mcpCommand = Command.make("mcp", {
-  options: { data: dataOption },
+  options: {
+    data: dataOption,
+    store: storeOptions,
+    bashTimeout: bashTimeoutOption,
+  },
 }).pipe(
   Command.withHandler((parsed) =>
     Effect.gen(function* () {
@@ -46,7 +117,11 @@ const mcpCommand = Command.make("mcp", {
       const { startMcpServer } = yield* Effect.promise(() =>
         import("../mcp/server"),
       )
-      yield* Effect.sync(() => startMcpServer({ dataDir: parsed.options.data }))
+      yield* Effect.sync(() => startMcpServer({
+          dataDir: parsed.options.data,
+          ...parsed.options.store,
+          bashTimeoutMs: Option.getOrUndefined(parsed.options.bashTimeout),
+        }))
     }),
   ),
   Command.withDescription("Start as an MCP server (JSON-RPC over stdio)"),
@@ -6,7 +6,8 @@
  * over a Unix domain socket.
  *
  * Usage:
- *   bun run src/daemon/main.ts start [--socket /tmp/amfs.sock] [--data ~/.automerge-fs]
+ *   bun run src/daemon/main.ts start [--socket /tmp/amfs.sock] [--data ~/.automerge-fs] [--storage fs|sqlite|memory]
+ *     [--key-file <path> | --key-env <NAME>]
  */
 
 import { runCli } from "./cli"
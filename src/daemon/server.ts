@@ -3,7 +3,7 @@ import { existsSync, unlinkSync } from "fs"
 import { NodeRuntime } from "@effect/platform-node"
 import * as SocketServer from "@effect/platform/SocketServer"
 import * as NodeSocketServer from "@effect/platform-node/NodeSocketServer"
-import { DaemonConfig, DaemonLive } from "./Layer"
+import { daemonLayerFor, type DaemonConfigShape } from "./Layer"
 import { AutomergeFs } from "../services/AutomergeFs"
 import { BashExecutor } from "../services/BashExecutor"
 import { makeRouter } from "../rpc/router"
@@ -24,16 +24,13 @@ const cleanupSocket = (socketPath: string) =>
 // Daemon Server
 // =============================================================================
 
-export function startDaemon(config: { socketPath: string; dataDir: string }) {
-  const { socketPath, dataDir } = config
+export function startDaemon(config: DaemonConfigShape) {
+  const { socketPath } = config
+  const dataDir = config.storage === "memory" ? ":memory:" : config.dataDir
 
   // Build layers
-  const ConfigLayer = Layer.succeed(DaemonConfig, { socketPath, dataDir })
   const ServerLayer = NodeSocketServer.layer({ path: socketPath })
-  const fullLayer = Layer.merge(
-    DaemonLive.pipe(Layer.provide(ConfigLayer)),
-    ServerLayer,
-  )
+  const fullLayer = Layer.merge(daemonLayerFor(config), ServerLayer)
 
   const program = Effect.gen(function* () {
     yield* cleanupSocket(socketPath)
@@ -47,6 +44,7 @@ export function startDaemon(config: { socketPath: string; dataDir: string }) {
       fsService,
       bashService,
       dataDir,
+      encrypted: config.encryption !== undefined && config.storage !== "memory",
       startTime: Date.now(),
     })
 
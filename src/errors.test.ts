@@ -8,6 +8,10 @@ import {
   BashExecutionError,
   RpcError,
   InitializationError,
+  SnapshotNotFoundError,
+  MethodNotFoundError,
+  errorCode,
+  describeError,
   type FileSystemError,
   type NetworkError,
   type ExecutionError,
@@ -126,3 +130,43 @@ describe("Error Union Types", () => {
     expect(rpcError.method).toBe("read");
   });
 });
+
+describe("errorCode", () => {
+  test("not-found errors are ENOENT", () => {
+    expect(errorCode(new FileNotFoundError({ path: "/a" }))).toBe("ENOENT");
+    expect(errorCode(new SnapshotNotFoundError({ name: "v1" }))).toBe("ENOENT");
+  });
+
+  test("wrapped errors take the code of their cause", () => {
+    const coded = Object.assign(new Error("is a directory"), { code: "EISDIR" });
+    expect(errorCode(new FileReadError({ path: "/d", cause: coded }))).toBe("EISDIR");
+    const prefixed = new Error("ENOTDIR: not a directory, open '/f/x'");
+    expect(errorCode(new FileWriteError({ path: "/f/x", cause: prefixed }))).toBe("ENOTDIR");
+  });
+
+  test("errors without one have no code", () => {
+    expect(errorCode(new FileWriteError({ path: "/a", cause: "disk full" }))).toBeUndefined();
+    expect(errorCode("boom")).toBeUndefined();
+  });
+});
+
+describe("describeError", () => {
+  test("builds a line from the tag, subject and cause", () => {
+    expect(describeError(new FileNotFoundError({ path: "/a.txt" }))).toBe(
+      "FileNotFoundError: /a.txt",
+    );
+    expect(
+      describeError(new FileReadError({ path: "/d", cause: new Error("EISDIR: is a directory") })),
+    ).toBe("FileReadError: /d: EISDIR: is a directory");
+    expect(describeError(new BashExecutionError({ command: "ls", exitCode: 2, stderr: "" }))).toBe(
+      "BashExecutionError: ls: exit code 2",
+    );
+  });
+
+  test("keeps an existing message", () => {
+    expect(describeError(new Error("boom"))).toBe("boom");
+    expect(describeError(new MethodNotFoundError({ method: "format" }))).toBe(
+      "Unknown method: format",
+    );
+  });
+});
@@ -25,6 +25,16 @@ export class FileWriteError extends Data.TaggedError("FileWriteError")<{
   readonly cause: unknown
 }> {}
 
+export class FileEditError extends Data.TaggedError("FileEditError")<{
+  readonly path: string
+  readonly message: string
+}> {}
+
+export class SearchError extends Data.TaggedError("SearchError")<{
+  readonly pattern: string
+  readonly cause: unknown
+}> {}
+
 export class DirectoryNotFoundError extends Data.TaggedError("DirectoryNotFoundError")<{
   readonly path: string
 }> {}
@@ -49,6 +59,67 @@ export class FileStatError extends Data.TaggedError("FileStatError")<{
   readonly cause: unknown
 }> {}
 
+export class IsDirectoryError extends Data.TaggedError("IsDirectoryError")<{
+  readonly path: string
+}> {}
+
+export class NotDirectoryError extends Data.TaggedError("NotDirectoryError")<{
+  readonly path: string
+}> {}
+
+export class AlreadyExistsError extends Data.TaggedError("AlreadyExistsError")<{
+  readonly path: string
+}> {}
+
+export class DirectoryNotEmptyError extends Data.TaggedError("DirectoryNotEmptyError")<{
+  readonly path: string
+}> {}
+
+export class PermissionDeniedError extends Data.TaggedError("PermissionDeniedError")<{
+  readonly path: string
+}> {}
+
+// =============================================================================
+// Version Control Errors
+// =============================================================================
+
+export class RestoreError extends Data.TaggedError("RestoreError")<{
+  readonly heads: string[]
+  readonly cause: unknown
+}> {}
+
+export class SnapshotNotFoundError extends Data.TaggedError("SnapshotNotFoundError")<{
+  readonly name: string
+}> {}
+
+export class SnapshotError extends Data.TaggedError("SnapshotError")<{
+  readonly name: string
+  readonly cause: unknown
+}> {}
+
+export class GarbageCollectionError extends Data.TaggedError("GarbageCollectionError")<{
+  readonly cause: unknown
+}> {}
+
+export class FsckError extends Data.TaggedError("FsckError")<{
+  readonly cause: unknown
+}> {}
+
+export class DumpError extends Data.TaggedError("DumpError")<{
+  readonly dataDir: string
+  readonly cause: unknown
+}> {}
+
+export class BundleError extends Data.TaggedError("BundleError")<{
+  readonly path: string
+  readonly cause: unknown
+}> {}
+
+export class ArchiveError extends Data.TaggedError("ArchiveError")<{
+  readonly path: string
+  readonly cause: unknown
+}> {}
+
 // =============================================================================
 // Connection Errors
 // =============================================================================
@@ -96,6 +167,20 @@ export class RpcTimeoutError extends Data.TaggedError("RpcTimeoutError")<{
   readonly timeout: number
 }> {}
 
+export class RequestCancelledError extends Data.TaggedError("RequestCancelledError")<{
+  readonly method: string
+}> {}
+
+export class MethodNotFoundError extends Data.TaggedError("MethodNotFoundError")<{
+  readonly method: string
+}> {}
+
+export class InvalidParamsError extends Data.TaggedError("InvalidParamsError")<{
+  readonly method: string
+  readonly message: string
+  readonly issues: ReadonlyArray<{ readonly path: string; readonly message: string }>
+}> {}
+
 // =============================================================================
 // Initialization Errors
 // =============================================================================
@@ -109,16 +194,37 @@ export class InitializationError extends Data.TaggedError("InitializationError")
 // Union Types for Error Handling
 // =============================================================================
 
-export type FileSystemError =
+/** Errno failures of filesystem operations, one class per code */
+export type ErrnoError =
   | FileNotFoundError
+  | IsDirectoryError
+  | NotDirectoryError
+  | AlreadyExistsError
+  | DirectoryNotEmptyError
+  | PermissionDeniedError
+
+export type FileSystemError =
+  | ErrnoError
   | FileReadError
   | FileWriteError
+  | FileEditError
+  | SearchError
   | DirectoryNotFoundError
   | DirectoryReadError
   | DirectoryCreateError
   | FileDeleteError
   | FileStatError
 
+export type VersionControlError =
+  | RestoreError
+  | SnapshotNotFoundError
+  | SnapshotError
+  | GarbageCollectionError
+  | FsckError
+  | DumpError
+  | BundleError
+  | ArchiveError
+
 export type NetworkError =
   | ConnectionClosedError
   | ConnectionError
@@ -130,8 +236,72 @@ export type ExecutionError =
 
 export type AmfsError =
   | FileSystemError
+  | VersionControlError
   | NetworkError
   | ExecutionError
   | RpcError
   | RpcTimeoutError
+  | RequestCancelledError
+  | MethodNotFoundError
+  | InvalidParamsError
   | InitializationError
+
+// =============================================================================
+// Codes and Descriptions
+// =============================================================================
+
+/**
+ * The errno-style code for an error (ENOENT, EISDIR, ...), from the error
+ * type itself, a `code` property, or an "EXXX:" prefix on the message of
+ * the error or its cause.
+ */
+export function errorCode(error: unknown): string | undefined {
+  if (
+    error instanceof FileNotFoundError ||
+    error instanceof DirectoryNotFoundError ||
+    error instanceof SnapshotNotFoundError
+  ) {
+    return "ENOENT"
+  }
+  if (error instanceof IsDirectoryError) return "EISDIR"
+  if (error instanceof NotDirectoryError) return "ENOTDIR"
+  if (error instanceof AlreadyExistsError) return "EEXIST"
+  if (error instanceof DirectoryNotEmptyError) return "ENOTEMPTY"
+  if (error instanceof PermissionDeniedError) return "EACCES"
+  if (error instanceof InvalidParamsError) return "EINVAL"
+  if (error instanceof MethodNotFoundError) return "ENOSYS"
+  if (error instanceof BashTimeoutError || error instanceof RpcTimeoutError) return "ETIMEDOUT"
+  if (error instanceof RequestCancelledError) return "ECANCELED"
+  if (!(error instanceof Error)) return undefined
+  if ("code" in error && typeof error.code === "string") return error.code
+  return /^(E[A-Z]+):/.exec(error.message)?.[1] ?? errorCode(error.cause)
+}
+
+// Fields that name what an error is about, in order of preference
+const SUBJECT_FIELDS = ["path", "name", "pattern", "command", "method", "dataDir", "socketPath", "component"]
+
+/**
+ * A one-line description of an error. Tagged errors mostly have an empty
+ * `message`, so this is built from the tag, the subject field and the cause,
+ * e.g. "FileReadError: /a.txt: EISDIR: illegal operation on a directory".
+ */
+export function describeError(error: unknown): string {
+  if (!(error instanceof Error)) return String(error)
+  if (error.message) return error.message
+  if (error instanceof MethodNotFoundError) return `Unknown method: ${error.method}`
+
+  const fields = error as unknown as Record<string, unknown>
+  const tag = typeof fields._tag === "string" ? fields._tag : error.name
+  const subject = SUBJECT_FIELDS.filter((key) => Object.hasOwn(error, key))
+    .map((key) => fields[key])
+    .find((value) => typeof value === "string")
+  const detail =
+    error.cause !== undefined
+      ? describeError(error.cause)
+      : error instanceof BashExecutionError
+        ? error.stderr.trim() || `exit code ${error.exitCode}`
+        : error instanceof BashTimeoutError
+          ? `timed out after ${error.timeout}ms`
+          : undefined
+  return [tag, subject, detail].filter(Boolean).join(": ")
+}
@@ -116,9 +116,13 @@ export const ExampleLayer = (dataDir: string) => {
   // Create the handlers layer
   const HandlersLayer = AutomergeToolkit.toLayer(
     Effect.gen(function* () {
-      const fs = yield* AutomergeFs;
-      const bash = yield* BashExecutor;
-      return createHandlers(fs, bash);
+      return createHandlers({
+        fsService: yield* AutomergeFs,
+        bashService: yield* BashExecutor,
+        dataDir,
+        encrypted: false,
+        startTime: Date.now(),
+      });
     }),
   );
 
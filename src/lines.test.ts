@@ -0,0 +1,32 @@
+import { test, expect, describe } from "bun:test";
+import { selectLines } from "./lines";
+
+describe("selectLines", () => {
+  const text = "one\ntwo\nthree\nfour\n";
+
+  test("returns text unchanged without options", () => {
+    expect(selectLines(text, {})).toBe(text);
+  });
+
+  test("offset starts at a 1-based line", () => {
+    expect(selectLines(text, { offset: 3 })).toBe("three\nfour\n");
+  });
+
+  test("limit caps the number of lines", () => {
+    expect(selectLines(text, { offset: 2, limit: 2 })).toBe("two\nthree\n");
+  });
+
+  test("lineNumbers formats like cat -n", () => {
+    expect(selectLines(text, { offset: 2, limit: 1, lineNumbers: true })).toBe(
+      "     2\ttwo\n"
+    );
+  });
+
+  test("preserves a missing final newline", () => {
+    expect(selectLines("a\nb", { offset: 2 })).toBe("b");
+  });
+
+  test("offset past the end returns empty string", () => {
+    expect(selectLines(text, { offset: 10 })).toBe("");
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Line-based views over text content
+ *
+ * Shared by the `read` RPC method, the MCP read_file tool and `amfs read`
+ * so large files can be paged through instead of returned whole.
+ */
+
+export interface LineSelection {
+  /** 1-based line number to start from (default: 1) */
+  readonly offset?: number | undefined
+  /** Maximum number of lines to return (default: all) */
+  readonly limit?: number | undefined
+  /** Prefix each line with its number, `cat -n` style */
+  readonly lineNumbers?: boolean | undefined
+}
+
+/**
+ * Select a range of lines from text, optionally numbering them.
+ * Returns the text unchanged when no selection options are given.
+ */
+export function selectLines(text: string, selection: LineSelection): string {
+  const { offset, limit, lineNumbers } = selection
+  if (offset === undefined && limit === undefined && !lineNumbers) {
+    return text
+  }
+
+  const lines = text.split("\n")
+  const endsWithNewline = lines.at(-1) === ""
+  if (endsWithNewline) {
+    lines.pop()
+  }
+
+  const start = Math.max((offset ?? 1) - 1, 0)
+  const end = limit === undefined ? lines.length : Math.min(start + Math.max(limit, 0), lines.length)
+  const selected = lines.slice(start, end)
+  if (selected.length === 0) {
+    return ""
+  }
+
+  const body = selected
+    .map((line, i) =>
+      lineNumbers ? `${String(start + i + 1).padStart(6)}\t${line}` : line
+    )
+    .join("\n")
+
+  // Keep the file's final newline; lines cut off mid-file always end in one
+  return end < lines.length || endsWithNewline ? body + "\n" : body
+}
@@ -1,14 +1,20 @@
 import { test, expect, describe } from "bun:test"
 import { Effect, Exit, Layer } from "effect"
-import { createHandlers } from "./server"
+import { createHandlers, type Progress } from "./server"
 import { AutomergeToolkit } from "./tools"
+import { RpcMethods } from "../rpc/methods"
 import type { AutomergeFsService } from "../services/AutomergeFs"
 import type { BashExecutorService } from "../services/BashExecutor"
 import {
   FileNotFoundError,
   FileWriteError,
+  FileEditError,
+  SearchError,
   DirectoryCreateError,
   BashExecutionError,
+  BashTimeoutError,
+  RestoreError,
+  SnapshotNotFoundError,
 } from "../errors"
 
 // =============================================================================
@@ -21,6 +27,8 @@ function mockFsService(overrides: Partial<AutomergeFsService> = {}): AutomergeFs
       Effect.succeed(new TextEncoder().encode(`contents of ${path}`)),
     writeFile: () => Effect.void,
     appendFile: () => Effect.void,
+    editFile: () => Effect.succeed(1),
+    multiEditFile: (_path, edits) => Effect.succeed(edits.length),
     stat: () =>
       Effect.succeed({
         size: 42,
@@ -39,6 +47,9 @@ function mockFsService(overrides: Partial<AutomergeFsService> = {}): AutomergeFs
     mkdir: () => Effect.void,
     unlink: () => Effect.void,
     exists: () => Effect.succeed(true),
+    glob: () => Effect.succeed(["/src/b.ts", "/src/a.ts"]),
+    grep: () =>
+      Effect.succeed({ mode: "files_with_matches" as const, files: ["/src/a.ts"] }),
     rename: () => Effect.void,
     copy: () => Effect.void,
     getRootHeads: () => Effect.succeed(["abc123", "def456"]),
@@ -47,11 +58,43 @@ function mockFsService(overrides: Partial<AutomergeFsService> = {}): AutomergeFs
       Effect.succeed([
         { hash: "h1", actor: "a1", seq: 1, timestamp: 1000, message: null },
       ]),
+    getFileLineage: () =>
+      Effect.succeed({
+        id: "id-1",
+        lineage: [
+          { event: "created" as const, path: "/old.txt", from: null, hash: "r1", timestamp: 1000 },
+          { event: "renamed" as const, path: "/file.txt", from: "/old.txt", hash: "r2", timestamp: 2000 },
+        ],
+        history: [
+          { hash: "h1", actor: "a1", seq: 1, timestamp: 1000, message: null },
+        ],
+      }),
     getFileAt: () => Effect.succeed("file content at version"),
     diff: () => Effect.succeed([{ action: "put", path: ["content"], value: "new" }]),
     getRootDoc: () => Effect.succeed({ operationLog: [{ seq: 1 }] }),
+    restoreTo: () => Effect.succeed(["restored1"]),
+    createSnapshot: (name) =>
+      Effect.succeed({ name, timestamp: 1000, heads: ["abc123", "def456"], fileHeads: {} }),
+    listSnapshots: () =>
+      Effect.succeed([
+        { name: "v1", timestamp: 1000, heads: ["abc123"], fileHeads: {} },
+      ]),
+    getSnapshot: (name) =>
+      Effect.succeed({ name, timestamp: 1000, heads: ["abc123"], fileHeads: { doc1: ["aaa111"] } }),
+    deleteSnapshot: () => Effect.void,
     getAllDocumentIds: () => Effect.succeed(["doc1"]),
     getAllBlobHashes: () => Effect.succeed(["blob1"]),
+    gc: () =>
+      Effect.succeed({ dryRun: false, retain: "history" as const, referenced: 1, removed: [] }),
+    fsck: (options) => Effect.succeed({ repair: options?.repair ?? false, checked: 1, issues: [] }),
+    dump: (dataDir) =>
+      Effect.succeed({ dataDir, rootDocUrl: "automerge:root", documents: 1, blobs: 0 }),
+    exportBundle: (path) =>
+      Effect.succeed({ path, rootDocUrl: "automerge:root", documents: 1, blobs: 0, snapshots: [] }),
+    importBundle: (path) =>
+      Effect.succeed({ path, rootDocUrl: "automerge:root", documents: 1, blobs: 0, snapshots: [] }),
+    exportArchive: (path) => Effect.succeed({ path, format: "tar" as const, entries: 1 }),
+    importArchive: (path) => Effect.succeed({ path, format: "tar" as const, entries: 1 }),
     ...overrides,
   }
 }
@@ -68,6 +111,16 @@ function mockBashService(overrides: Partial<BashExecutorService> = {}): BashExec
   }
 }
 
+function handlersFor(fs: AutomergeFsService, bash: BashExecutorService) {
+  return createHandlers({
+    fsService: fs,
+    bashService: bash,
+    dataDir: "/tmp/amfs-test",
+    encrypted: false,
+    startTime: 0,
+  })
+}
+
 // =============================================================================
 // Tests
 // =============================================================================
@@ -76,13 +129,45 @@ describe("MCP server tools", () => {
   // ----- read_file ----------------------------------------------------------
 
   test("read_file returns file content", async () => {
-    const handlers = createHandlers(mockFsService(), mockBashService())
+    const handlers = handlersFor(mockFsService(), mockBashService())
     const result = await Effect.runPromise(handlers.read_file({ path: "/hello.txt" }))
     expect(result).toBe("contents of /hello.txt")
   })
 
+  test("read_file passes heads through for historical reads", async () => {
+    let capturedAt: string[] | undefined
+    const handlers = handlersFor(
+      mockFsService({
+        readFile: (_path, at) => {
+          capturedAt = at
+          return Effect.succeed(new TextEncoder().encode("old"))
+        },
+      }),
+      mockBashService(),
+    )
+    const result = await Effect.runPromise(
+      handlers.read_file({ path: "/hello.txt", at: ["abc123"] }),
+    )
+    expect(result).toBe("old")
+    expect(capturedAt).toEqual(["abc123"])
+  })
+
+  test("read_file pages by line with line numbers", async () => {
+    const handlers = handlersFor(
+      mockFsService({
+        readFile: () =>
+          Effect.succeed(new TextEncoder().encode("a\nb\nc\nd\n")),
+      }),
+      mockBashService(),
+    )
+    const result = await Effect.runPromise(
+      handlers.read_file({ path: "/f", offset: 2, limit: 2, line_numbers: true }),
+    )
+    expect(result).toBe("     2\tb\n     3\tc\n")
+  })
+
   test("read_file returns error for missing file", async () => {
-    const handlers = createHandlers(
+    const handlers = handlersFor(
       mockFsService({
         readFile: (path) => Effect.fail(new FileNotFoundError({ path })),
       }),
@@ -92,12 +177,22 @@ describe("MCP server tools", () => {
     expect(Exit.isFailure(exit)).toBe(true)
   })
 
+  test("read_file params are checked by the read method's schema", async () => {
+    const handlers = handlersFor(mockFsService(), mockBashService())
+    const exit = await Effect.runPromiseExit(handlers.read_file({ path: "/f", offset: 0 }))
+    expect(exit).toEqual(
+      Exit.fail(
+        "Invalid params for read: offset: Expected 1-based line number to start reading from, actual 0",
+      ),
+    )
+  })
+
   // ----- write_file ---------------------------------------------------------
 
   test("write_file succeeds", async () => {
     let capturedPath = ""
     let capturedContent: string | Uint8Array = ""
-    const handlers = createHandlers(
+    const handlers = handlersFor(
       mockFsService({
         writeFile: (path, content) => {
           capturedPath = path
@@ -117,7 +212,7 @@ describe("MCP server tools", () => {
 
   test("write_file decodes base64 encoding", async () => {
     let capturedContent: string | Uint8Array = ""
-    const handlers = createHandlers(
+    const handlers = handlersFor(
       mockFsService({
         writeFile: (_path, content) => {
           capturedContent = content
@@ -136,7 +231,7 @@ describe("MCP server tools", () => {
   })
 
   test("write_file returns error on failure", async () => {
-    const handlers = createHandlers(
+    const handlers = handlersFor(
       mockFsService({
         writeFile: (path) =>
           Effect.fail(new FileWriteError({ path, cause: "disk full" })),
@@ -149,10 +244,80 @@ describe("MCP server tools", () => {
     expect(Exit.isFailure(exit)).toBe(true)
   })
 
+  // ----- edit_file ----------------------------------------------------------
+
+  test("edit_file passes replacement through as a single edit", async () => {
+    const captured: unknown[] = []
+    const handlers = handlersFor(
+      mockFsService({
+        multiEditFile: (path, edits) => {
+          captured.push(path, edits)
+          return Effect.succeed(2)
+        },
+      }),
+      mockBashService(),
+    )
+    const result = await Effect.runPromise(
+      handlers.edit_file({
+        path: "/f.ts",
+        old_string: "foo",
+        new_string: "bar",
+        replace_all: true,
+      }),
+    )
+    expect(captured).toEqual(["/f.ts", [{ oldString: "foo", newString: "bar", replaceAll: true }]])
+    expect(JSON.parse(result).replacements).toBe(2)
+  })
+
+  test("edit_file surfaces ambiguous match message", async () => {
+    const handlers = handlersFor(
+      mockFsService({
+        multiEditFile: (path) =>
+          Effect.fail(
+            new FileEditError({ path, message: "old_string matches 3 times" }),
+          ),
+      }),
+      mockBashService(),
+    )
+    const exit = await Effect.runPromiseExit(
+      handlers.edit_file({ path: "/f.ts", old_string: "x", new_string: "y" }),
+    )
+    expect(exit).toEqual(Exit.fail("old_string matches 3 times"))
+  })
+
+  // ----- multi_edit ---------------------------------------------------------
+
+  test("multi_edit maps edits to the service shape", async () => {
+    let capturedEdits: unknown
+    const handlers = handlersFor(
+      mockFsService({
+        multiEditFile: (_path, edits) => {
+          capturedEdits = edits
+          return Effect.succeed(edits.length)
+        },
+      }),
+      mockBashService(),
+    )
+    const result = await Effect.runPromise(
+      handlers.multi_edit({
+        path: "/f.ts",
+        edits: [
+          { old_string: "a", new_string: "b" },
+          { old_string: "c", new_string: "d", replace_all: true },
+        ],
+      }),
+    )
+    expect(capturedEdits).toEqual([
+      { oldString: "a", newString: "b", replaceAll: false },
+      { oldString: "c", newString: "d", replaceAll: true },
+    ])
+    expect(JSON.parse(result).replacements).toBe(2)
+  })
+
   // ----- list_directory -----------------------------------------------------
 
   test("list_directory returns entries", async () => {
-    const handlers = createHandlers(mockFsService(), mockBashService())
+    const handlers = handlersFor(mockFsService(), mockBashService())
     const result = await Effect.runPromise(
       handlers.list_directory({ path: "/" }),
     )
@@ -167,7 +332,7 @@ describe("MCP server tools", () => {
   test("create_directory succeeds with recursive", async () => {
     let capturedPath = ""
     let capturedRecursive = false
-    const handlers = createHandlers(
+    const handlers = handlersFor(
       mockFsService({
         mkdir: (path, opts) => {
           capturedPath = path
@@ -188,7 +353,7 @@ describe("MCP server tools", () => {
 
   test("remove succeeds", async () => {
     let capturedPath = ""
-    const handlers = createHandlers(
+    const handlers = handlersFor(
       mockFsService({
         unlink: (path) => {
           capturedPath = path
@@ -204,7 +369,7 @@ describe("MCP server tools", () => {
   // ----- stat ---------------------------------------------------------------
 
   test("stat returns metadata", async () => {
-    const handlers = createHandlers(mockFsService(), mockBashService())
+    const handlers = handlersFor(mockFsService(), mockBashService())
     const result = await Effect.runPromise(handlers.stat({ path: "/f" }))
     const data = JSON.parse(result)
     expect(data.size).toBe(42)
@@ -214,7 +379,7 @@ describe("MCP server tools", () => {
   // ----- exists -------------------------------------------------------------
 
   test("exists returns boolean", async () => {
-    const handlers = createHandlers(mockFsService(), mockBashService())
+    const handlers = handlersFor(mockFsService(), mockBashService())
     const result = await Effect.runPromise(handlers.exists({ path: "/yes" }))
     expect(JSON.parse(result)).toBe(true)
   })
@@ -223,7 +388,7 @@ describe("MCP server tools", () => {
 
   test("move calls rename", async () => {
     const paths: string[] = []
-    const handlers = createHandlers(
+    const handlers = handlersFor(
       mockFsService({
         rename: (a, b) => {
           paths.push(a, b)
@@ -242,7 +407,7 @@ describe("MCP server tools", () => {
 
   test("copy calls copy service", async () => {
     const paths: string[] = []
-    const handlers = createHandlers(
+    const handlers = handlersFor(
       mockFsService({
         copy: (s, d) => {
           paths.push(s, d)
@@ -257,10 +422,54 @@ describe("MCP server tools", () => {
     expect(paths).toEqual(["/a", "/b"])
   })
 
+  // ----- glob / grep --------------------------------------------------------
+
+  test("glob returns one path per line", async () => {
+    const handlers = handlersFor(mockFsService(), mockBashService())
+    const result = await Effect.runPromise(handlers.glob({ pattern: "**/*.ts" }))
+    expect(result).toBe("/src/b.ts\n/src/a.ts")
+  })
+
+  test("grep maps options and formats content like ripgrep", async () => {
+    let capturedOptions: unknown
+    const handlers = handlersFor(
+      mockFsService({
+        grep: (_pattern, options) => {
+          capturedOptions = options
+          return Effect.succeed({
+            mode: "content" as const,
+            lines: [
+              { path: "/a.ts", lineNumber: 1, text: "before", match: false },
+              { path: "/a.ts", lineNumber: 2, text: "hit", match: true },
+            ],
+          })
+        },
+      }),
+      mockBashService(),
+    )
+    const result = await Effect.runPromise(
+      handlers.grep({ pattern: "hit", output_mode: "content", context: 1 }),
+    )
+    expect(capturedOptions).toMatchObject({ outputMode: "content", context: 1 })
+    expect(result).toBe("/a.ts-1-before\n/a.ts:2:hit")
+  })
+
+  test("grep returns error for invalid regex", async () => {
+    const handlers = handlersFor(
+      mockFsService({
+        grep: (pattern) =>
+          Effect.fail(new SearchError({ pattern, cause: new Error("Invalid regular expression") })),
+      }),
+      mockBashService(),
+    )
+    const exit = await Effect.runPromiseExit(handlers.grep({ pattern: "(" }))
+    expect(Exit.isFailure(exit)).toBe(true)
+  })
+
   // ----- bash ---------------------------------------------------------------
 
   test("bash executes command and returns result", async () => {
-    const handlers = createHandlers(mockFsService(), mockBashService())
+    const handlers = handlersFor(mockFsService(), mockBashService())
     const result = await Effect.runPromise(
       handlers.bash({ command: "echo hello" }),
     )
@@ -270,7 +479,7 @@ describe("MCP server tools", () => {
   })
 
   test("bash returns error on failure", async () => {
-    const handlers = createHandlers(
+    const handlers = handlersFor(
       mockFsService(),
       mockBashService({
         exec: (command) =>
@@ -285,10 +494,50 @@ describe("MCP server tools", () => {
     expect(Exit.isFailure(exit)).toBe(true)
   })
 
+  test("bash passes its timeout to the executor", async () => {
+    const handlers = handlersFor(
+      mockFsService(),
+      mockBashService({
+        exec: (command, options) =>
+          Effect.fail(new BashTimeoutError({ command, timeout: options?.timeoutMs ?? 0 })),
+      }),
+    )
+    const exit = await Effect.runPromiseExit(
+      handlers.bash({ command: "sleep 9", timeout_ms: 50 }),
+    )
+    expect(exit).toEqual(Exit.fail("BashTimeoutError: sleep 9: timed out after 50ms"))
+  })
+
+  test("bash reports output as progress", async () => {
+    const updates: Array<Progress> = []
+    const handlers = createHandlers(
+      {
+        fsService: mockFsService(),
+        bashService: mockBashService({
+          exec: (_command, options) =>
+            Effect.gen(function* () {
+              yield* options?.onOutput?.({ stream: "stdout", data: "abc" }) ?? Effect.void
+              yield* options?.onOutput?.({ stream: "stderr", data: "de" }) ?? Effect.void
+              return { stdout: "abc", stderr: "de", exitCode: 0 }
+            }),
+        }),
+        dataDir: "/tmp/amfs-test",
+        encrypted: false,
+        startTime: 0,
+      },
+      Effect.succeed((update) => Effect.sync(() => void updates.push(update))),
+    )
+    await Effect.runPromise(handlers.bash({ command: "run" }))
+    expect(updates).toEqual([
+      { progress: 3, message: "abc" },
+      { progress: 5, message: "de" },
+    ])
+  })
+
   // ----- snapshot -----------------------------------------------------------
 
   test("snapshot returns heads", async () => {
-    const handlers = createHandlers(mockFsService(), mockBashService())
+    const handlers = handlersFor(mockFsService(), mockBashService())
     const result = await Effect.runPromise(
       handlers.snapshot({ name: "v1" }),
     )
@@ -298,10 +547,129 @@ describe("MCP server tools", () => {
     expect(data.timestamp).toBeGreaterThan(0)
   })
 
+  test("named snapshot is saved", async () => {
+    let capturedName = ""
+    const handlers = handlersFor(
+      mockFsService({
+        createSnapshot: (name) => {
+          capturedName = name
+          return Effect.succeed({ name, timestamp: 1000, heads: ["saved1"], fileHeads: {} })
+        },
+      }),
+      mockBashService(),
+    )
+    const result = await Effect.runPromise(
+      handlers.snapshot({ name: "checkpoint-1" }),
+    )
+    const data = JSON.parse(result)
+    expect(capturedName).toBe("checkpoint-1")
+    expect(data.heads).toEqual(["saved1"])
+  })
+
+  test("list_snapshots returns saved snapshots", async () => {
+    const handlers = handlersFor(mockFsService(), mockBashService())
+    const result = await Effect.runPromise(handlers.list_snapshots())
+    const data = JSON.parse(result)
+    expect(data).toHaveLength(1)
+    expect(data[0].name).toBe("v1")
+  })
+
+  test("get_snapshot returns error for unknown name", async () => {
+    const handlers = handlersFor(
+      mockFsService({
+        getSnapshot: (name) => Effect.fail(new SnapshotNotFoundError({ name })),
+      }),
+      mockBashService(),
+    )
+    const exit = await Effect.runPromiseExit(
+      handlers.get_snapshot({ name: "missing" }),
+    )
+    expect(Exit.isFailure(exit)).toBe(true)
+  })
+
+  test("delete_snapshot succeeds", async () => {
+    let capturedName = ""
+    const handlers = handlersFor(
+      mockFsService({
+        deleteSnapshot: (name) => {
+          capturedName = name
+          return Effect.void
+        },
+      }),
+      mockBashService(),
+    )
+    const result = await Effect.runPromise(
+      handlers.delete_snapshot({ name: "v1" }),
+    )
+    expect(result).toBe("OK")
+    expect(capturedName).toBe("v1")
+  })
+
+  // ----- restore ------------------------------------------------------------
+
+  test("restore returns new heads", async () => {
+    let capturedHeads: string[] = []
+    const handlers = handlersFor(
+      mockFsService({
+        restoreTo: (heads) => {
+          capturedHeads = heads
+          return Effect.succeed(["restored1"])
+        },
+      }),
+      mockBashService(),
+    )
+    const result = await Effect.runPromise(
+      handlers.restore({ heads: ["abc123"] }),
+    )
+    const data = JSON.parse(result)
+    expect(capturedHeads).toEqual(["abc123"])
+    expect(data.heads).toEqual(["restored1"])
+    expect(data.restoredFrom).toEqual(["abc123"])
+  })
+
+  test("restore by snapshot name uses saved heads", async () => {
+    let capturedFileHeads: unknown
+    const handlers = handlersFor(
+      mockFsService({
+        restoreTo: (_heads, fileHeads) => {
+          capturedFileHeads = fileHeads
+          return Effect.succeed(["restored1"])
+        },
+      }),
+      mockBashService(),
+    )
+    const result = await Effect.runPromise(
+      handlers.restore({ name: "v1" }),
+    )
+    const data = JSON.parse(result)
+    expect(data.restoredFrom).toEqual(["abc123"])
+    expect(capturedFileHeads).toEqual({ doc1: ["aaa111"] })
+  })
+
+  test("restore without heads or name fails", async () => {
+    const handlers = handlersFor(mockFsService(), mockBashService())
+    const exit = await Effect.runPromiseExit(handlers.restore({}))
+    expect(Exit.isFailure(exit)).toBe(true)
+  })
+
+  test("restore returns error on failure", async () => {
+    const handlers = handlersFor(
+      mockFsService({
+        restoreTo: (heads) =>
+          Effect.fail(new RestoreError({ heads, cause: "unknown heads" })),
+      }),
+      mockBashService(),
+    )
+    const exit = await Effect.runPromiseExit(
+      handlers.restore({ heads: ["nope"] }),
+    )
+    expect(Exit.isFailure(exit)).toBe(true)
+  })
+
   // ----- history ------------------------------------------------------------
 
   test("history returns file history when path provided", async () => {
-    const handlers = createHandlers(mockFsService(), mockBashService())
+    const handlers = handlersFor(mockFsService(), mockBashService())
     const result = await Effect.runPromise(
       handlers.history({ path: "/file.txt" }),
     )
@@ -311,8 +679,22 @@ describe("MCP server tools", () => {
     expect(data.history).toHaveLength(1)
   })
 
+  test("history follows renames when follow is set", async () => {
+    const handlers = handlersFor(mockFsService(), mockBashService())
+    const result = await Effect.runPromise(
+      handlers.history({ path: "/file.txt", follow: true }),
+    )
+    const data = JSON.parse(result)
+    expect(data.type).toBe("follow")
+    expect(data.id).toBe("id-1")
+    expect(data.lineage.map((e: { path: string }) => e.path)).toEqual([
+      "/old.txt",
+      "/file.txt",
+    ])
+  })
+
   test("history returns root history when no path", async () => {
-    const handlers = createHandlers(mockFsService(), mockBashService())
+    const handlers = handlersFor(mockFsService(), mockBashService())
     const result = await Effect.runPromise(handlers.history({}))
     const data = JSON.parse(result)
     expect(data.type).toBe("root")
@@ -322,7 +704,7 @@ describe("MCP server tools", () => {
   // ----- diff ---------------------------------------------------------------
 
   test("diff returns patches", async () => {
-    const handlers = createHandlers(mockFsService(), mockBashService())
+    const handlers = handlersFor(mockFsService(), mockBashService())
     const result = await Effect.runPromise(
       handlers.diff({ path: "/f", fromHeads: ["a"], toHeads: ["b"] }),
     )
@@ -332,19 +714,27 @@ describe("MCP server tools", () => {
 
   // ----- toolkit tools list -------------------------------------------------
 
-  test("toolkit has all 13 tools", () => {
+  test("toolkit has all 21 tools", () => {
     const names = Object.keys(AutomergeToolkit.tools).sort()
     expect(names).toEqual([
       "bash",
       "copy",
       "create_directory",
+      "delete_snapshot",
       "diff",
+      "edit_file",
       "exists",
+      "get_snapshot",
+      "glob",
+      "grep",
       "history",
       "list_directory",
+      "list_snapshots",
       "move",
+      "multi_edit",
       "read_file",
       "remove",
+      "restore",
       "snapshot",
       "stat",
       "write_file",
@@ -363,7 +753,7 @@ describe("Toolkit resolution flow", () => {
   ) =>
     AutomergeToolkit.toLayer(
       Effect.gen(function* () {
-        return createHandlers(
+        return handlersFor(
           mockFsService(fsOverrides),
           mockBashService(bashOverrides),
         )
@@ -424,3 +814,28 @@ describe("Toolkit resolution flow", () => {
     expect(capturedRecursive).toBe(false)
   })
 })
+
+describe("Tool parameters", () => {
+  test("come from the RPC method registry", () => {
+    expect(AutomergeToolkit.tools.bash.parametersSchema.fields.timeout_ms).toBe(
+      RpcMethods.bash.params.fields.timeoutMs,
+    )
+    expect(AutomergeToolkit.tools.move.parametersSchema.fields).toEqual(RpcMethods.rename.params.fields)
+  })
+
+  test("keep their snake_case names", () => {
+    expect(Object.keys(AutomergeToolkit.tools.read_file.parametersSchema.fields)).toEqual([
+      "path",
+      "at",
+      "offset",
+      "limit",
+      "line_numbers",
+    ])
+    expect(Object.keys(AutomergeToolkit.tools.grep.parametersSchema.fields)).toContain("ignore_case")
+    expect(Object.keys(AutomergeToolkit.tools.bash.parametersSchema.fields)).toEqual([
+      "command",
+      "cwd",
+      "timeout_ms",
+    ])
+  })
+})
@@ -3,18 +3,27 @@
  *
  * Uses @effect/ai's native McpServer with Layer composition.
  *
- * `createHandlers` builds handlers directly from services — call it in tests.
+ * `createHandlers` builds the tool handlers on the RPC method handlers — call it in tests.
  * `startMcpServer` is the production entry point using stdio transport.
  */
 
-import { McpServer } from "@effect/ai"
+import { McpSchema, McpServer } from "@effect/ai"
 import { NodeRuntime, NodeSink, NodeStream } from "@effect/platform-node"
-import { Effect, Layer, Logger } from "effect"
-import { DaemonConfig, DaemonLive } from "../daemon/Layer"
+import { RpcSerialization, RpcServer } from "@effect/rpc"
+import { Context, Effect, Layer, Logger, Option } from "effect"
+import { daemonLayerFor, type DaemonConfigShape } from "../daemon/Layer"
+import { describeError } from "../errors"
 import { AutomergeFs } from "../services/AutomergeFs"
-import type { AutomergeFsService } from "../services/AutomergeFs"
+import type { GrepResult } from "../rpc/schema"
+import type { RpcMethodName, RpcParams } from "../rpc/methods"
+import {
+  dispatch,
+  makeHandlers,
+  type Notify,
+  type RequestContext,
+  type RouterContext,
+} from "../rpc/router"
 import { BashExecutor } from "../services/BashExecutor"
-import type { BashExecutorService } from "../services/BashExecutor"
 import { AutomergeToolkit } from "./tools"
 
 // =============================================================================
@@ -27,139 +36,187 @@ function formatResult(result: unknown): string {
   return JSON.stringify(result, null, 2)
 }
 
-function toFailure(error: unknown): Effect.Effect<never, string> {
-  if (error instanceof Error) {
-    // Data.TaggedError instances have empty .message — use String() for a
-    // richer representation that includes the tag name and structured fields.
-    const message = error.message || String(error)
-    return Effect.fail(message)
+function formatGrepResult(result: GrepResult): string {
+  switch (result.mode) {
+    case "files_with_matches":
+      return result.files.length > 0 ? result.files.join("\n") : "No matches found"
+    case "count":
+      return result.counts.length > 0
+        ? result.counts.map(({ path, count }) => `${path}:${count}`).join("\n")
+        : "No matches found"
+    case "content":
+      // ripgrep style: ":" after the line number for matches, "-" for context
+      return result.lines.length > 0
+        ? result.lines
+            .map(({ path, lineNumber, text, match }) =>
+              `${path}${match ? ":" : "-"}${lineNumber}${match ? ":" : "-"}${text}`,
+            )
+            .join("\n")
+        : "No matches found"
   }
-  return Effect.fail(String(error))
 }
 
+// =============================================================================
+// Progress
+// =============================================================================
+
+/** A progress update for the tool call being handled */
+export interface Progress {
+  readonly progress: number
+  readonly message: string
+}
+
+export type ReportProgress = (update: Progress) => Effect.Effect<void>
+
+const noProgress: ReportProgress = () => Effect.void
+
+/** The progress token the client sent with the tools/call being handled */
+class ProgressToken extends Context.Tag("McpProgressToken")<
+  ProgressToken,
+  typeof McpSchema.ProgressToken.Type
+>() {}
+
+/**
+ * RpcServer.Protocol that runs each tools/call with the client's progress
+ * token in context. McpServer hands tools only their arguments, but a
+ * request's handler runs with the context its message was received in.
+ */
+const ProgressTokenProtocol = Layer.effect(
+  RpcServer.Protocol,
+  Effect.map(RpcServer.Protocol, (protocol) =>
+    RpcServer.Protocol.of({
+      ...protocol,
+      run: (f) =>
+        protocol.run((clientId, message) => {
+          const token =
+            message._tag === "Request" && message.tag === "tools/call"
+              ? (message.payload as typeof McpSchema.CallTool.payloadSchema.Encoded)._meta
+                  ?.progressToken
+              : undefined
+          return token === undefined
+            ? f(clientId, message)
+            : Effect.provideService(f(clientId, message), ProgressToken, token)
+        }),
+    }),
+  ),
+)
+
+/**
+ * Reports progress for the tool call being handled through the server's
+ * notifications, if its client asked for progress.
+ */
+const currentProgress = (server: Context.Tag.Service<McpServer.McpServer>) =>
+  Effect.map(
+    Effect.serviceOption(ProgressToken),
+    Option.match({
+      onNone: () => noProgress,
+      onSome: (progressToken): ReportProgress => (update) =>
+        Effect.ignore(server.notifications["notifications/progress"]({ progressToken, ...update })),
+    }),
+  )
+
 // =============================================================================
 // Handlers
 // =============================================================================
 
 /**
- * Create handler record from services directly.
- * Used in tests with mock implementations.
+ * Create the tool handlers on top of the router's method handlers, so every
+ * tool call is decoded, run and encoded exactly as the RPC method would be.
+ * `progress` gives the reporter for the call being handled; bash output goes
+ * to it as the command runs. Used in tests with mock services.
  */
 export function createHandlers(
-  fs: AutomergeFsService,
-  bash: BashExecutorService,
+  ctx: RouterContext,
+  progress: Effect.Effect<ReportProgress> = Effect.succeed(noProgress),
 ) {
+  const handlers = makeHandlers(ctx)
+  const call = <M extends RpcMethodName>(
+    method: M,
+    params: RpcParams<M>,
+    request?: RequestContext,
+  ) => dispatch(handlers, method, params, request).pipe(Effect.mapError(describeError))
+
   return AutomergeToolkit.of({
-    read_file: ({ path }) =>
-      fs.readFile(path).pipe(
-        Effect.map((content) => {
-          try {
-            return new TextDecoder("utf-8", { fatal: true }).decode(content)
-          } catch {
-            return `[base64] ${Buffer.from(content).toString("base64")}`
-          }
-        }),
-        Effect.catchAll(toFailure),
+    read_file: ({ line_numbers, ...params }) =>
+      call("read", { ...params, lineNumbers: line_numbers }).pipe(
+        Effect.map(({ content, encoding }) =>
+          encoding === "base64" ? `[base64] ${content}` : content,
+        ),
       ),
 
-    write_file: ({ path, content, encoding }) => {
-      const data =
-        encoding === "base64" ? Buffer.from(content, "base64") : content
-      return fs.writeFile(path, data).pipe(
-        Effect.map(() => "OK"),
-        Effect.catchAll(toFailure),
-      )
-    },
+    write_file: (params) => call("write", params).pipe(Effect.as("OK")),
 
-    list_directory: ({ path }) =>
-      fs.readdir(path).pipe(
-        Effect.map((entries) => formatResult(entries)),
-        Effect.catchAll(toFailure),
-      ),
+    edit_file: ({ path, old_string, new_string, replace_all }) =>
+      call("multiEdit", {
+        path,
+        edits: [
+          { oldString: old_string, newString: new_string, replaceAll: replace_all ?? false },
+        ],
+      }).pipe(Effect.map(({ replacements }) => formatResult({ path, replacements }))),
 
-    create_directory: ({ path, recursive }) =>
-      fs.mkdir(path, { recursive: recursive ?? false }).pipe(
-        Effect.map(() => "OK"),
-        Effect.catchAll(toFailure),
-      ),
+    multi_edit: ({ path, edits }) =>
+      call("multiEdit", {
+        path,
+        edits: edits.map((edit) => ({
+          oldString: edit.old_string,
+          newString: edit.new_string,
+          replaceAll: edit.replace_all ?? false,
+        })),
+      }).pipe(Effect.map(({ replacements }) => formatResult({ path, replacements }))),
 
-    remove: ({ path }) =>
-      fs.unlink(path).pipe(
-        Effect.map(() => "OK"),
-        Effect.catchAll(toFailure),
-      ),
+    list_directory: (params) => call("readdir", params).pipe(Effect.map(formatResult)),
 
-    stat: ({ path }) =>
-      fs.stat(path).pipe(
-        Effect.map((s) => formatResult(s)),
-        Effect.catchAll(toFailure),
-      ),
+    create_directory: (params) => call("mkdir", params).pipe(Effect.as("OK")),
 
-    exists: ({ path }) =>
-      fs.exists(path).pipe(
-        Effect.map((e) => formatResult(e)),
-        Effect.catchAll(toFailure),
-      ),
+    remove: (params) => call("rm", params).pipe(Effect.as("OK")),
 
-    move: ({ oldPath, newPath }) =>
-      fs.rename(oldPath, newPath).pipe(
-        Effect.map(() => "OK"),
-        Effect.catchAll(toFailure),
-      ),
+    stat: (params) => call("stat", params).pipe(Effect.map(formatResult)),
 
-    copy: ({ src, dest }) =>
-      fs.copy(src, dest).pipe(
-        Effect.map(() => "OK"),
-        Effect.catchAll(toFailure),
-      ),
+    exists: (params) => call("exists", params).pipe(Effect.map(formatResult)),
 
-    bash: ({ command, cwd }) =>
-      bash.exec(command, { cwd }).pipe(
-        Effect.map((r) => formatResult(r)),
-        Effect.catchAll(toFailure),
-      ),
+    move: (params) => call("rename", params).pipe(Effect.as("OK")),
 
-    snapshot: ({ name }) =>
-      fs.getRootHeads().pipe(
-        Effect.map((heads) =>
-          formatResult({
-            heads,
-            name: name ?? null,
-            timestamp: Date.now(),
-          }),
-        ),
-        Effect.catchAll(toFailure),
-      ),
+    copy: (params) => call("copy", params).pipe(Effect.as("OK")),
 
-    history: ({ path }) => {
-      if (path) {
-        return fs.getFileHistory(path).pipe(
-          Effect.map((history) =>
-            formatResult({
-              type: "file" as const,
-              path,
-              history,
-            }),
-          ),
-          Effect.catchAll(toFailure),
-        )
-      }
-      return fs.getRootDoc().pipe(
-        Effect.map((rootDoc) =>
-          formatResult({
-            type: "root" as const,
-            operationLog: rootDoc?.operationLog ?? [],
-          }),
+    glob: (params) =>
+      call("glob", params).pipe(
+        Effect.map((paths) =>
+          paths.length > 0 ? paths.join("\n") : "No files found",
         ),
-        Effect.catchAll(toFailure),
-      )
-    },
+      ),
 
-    diff: ({ path, fromHeads, toHeads }) =>
-      fs.diff(path, [...fromHeads], [...toHeads]).pipe(
-        Effect.map((patches) => formatResult(patches)),
-        Effect.catchAll(toFailure),
+    grep: ({ output_mode, ignore_case, ...params }) =>
+      call("grep", { ...params, outputMode: output_mode, ignoreCase: ignore_case }).pipe(
+        Effect.map(formatGrepResult),
       ),
+
+    bash: ({ timeout_ms, ...params }) =>
+      Effect.flatMap(progress, (report) => {
+        // Progress counts the characters of output so far; each update
+        // carries the new output as its message
+        let received = 0
+        const notify: Notify = ({ data }) =>
+          report({ progress: (received += data.length), message: data })
+        return call(
+          "bash",
+          { ...params, timeoutMs: timeout_ms, stream: true },
+          { notify, cancelled: Effect.never, cancel: () => Effect.succeed(false) },
+        ).pipe(Effect.map(formatResult))
+      }),
+
+    snapshot: (params) => call("snapshot", params).pipe(Effect.map(formatResult)),
+
+    restore: (params) => call("restore", params).pipe(Effect.map(formatResult)),
+
+    list_snapshots: () => call("listSnapshots", {}).pipe(Effect.map(formatResult)),
+
+    get_snapshot: (params) => call("getSnapshot", params).pipe(Effect.map(formatResult)),
+
+    delete_snapshot: (params) => call("deleteSnapshot", params).pipe(Effect.as("OK")),
+
+    history: (params) => call("history", params).pipe(Effect.map(formatResult)),
+
+    diff: (params) => call("diff", params).pipe(Effect.map(formatResult)),
   })
 }
 
@@ -167,13 +224,35 @@ export function createHandlers(
 // Layers
 // =============================================================================
 
-const HandlersLayer = AutomergeToolkit.toLayer(
-  Effect.gen(function* () {
-    const fs = yield* AutomergeFs
-    const bash = yield* BashExecutor
-    return createHandlers(fs, bash)
-  }),
-)
+const handlersLayer = (config: Omit<DaemonConfigShape, "socketPath">) =>
+  AutomergeToolkit.toLayer(
+    Effect.gen(function* () {
+      const server = yield* McpServer.McpServer
+      return createHandlers(
+        {
+          fsService: yield* AutomergeFs,
+          bashService: yield* BashExecutor,
+          dataDir: config.storage === "memory" ? ":memory:" : config.dataDir,
+          encrypted: config.encryption !== undefined && config.storage !== "memory",
+          startTime: Date.now(),
+        },
+        currentProgress(server),
+      )
+    }),
+  )
+
+/** McpServer.layerStdio, with progress tokens passed on to the tools */
+const layerStdio = (options: { readonly name: string; readonly version: string }) =>
+  McpServer.layer(options).pipe(
+    Layer.provide(ProgressTokenProtocol),
+    Layer.provide(
+      RpcServer.layerProtocolStdio({ stdin: NodeStream.stdin, stdout: NodeSink.stdout }),
+    ),
+    Layer.provide(RpcSerialization.layerNdJsonRpc()),
+    // remove stdout loggers
+    Layer.provideMerge(Logger.remove(Logger.defaultLogger)),
+    Layer.provideMerge(Logger.remove(Logger.prettyLoggerDefault)),
+  )
 
 // =============================================================================
 // Production Entry Point
@@ -183,24 +262,13 @@ const HandlersLayer = AutomergeToolkit.toLayer(
  * Start the MCP server with stdio transport.
  * NodeRuntime.runMain handles SIGINT/SIGTERM lifecycle.
  */
-export function startMcpServer(config: { dataDir: string }) {
-  const ConfigLayer = Layer.succeed(DaemonConfig, {
-    socketPath: "",
-    dataDir: config.dataDir,
-  })
-
+export function startMcpServer(config: Omit<DaemonConfigShape, "socketPath">) {
   const McpLive = Layer.mergeAll(
     McpServer.toolkit(AutomergeToolkit),
   ).pipe(
-    Layer.provide(HandlersLayer),
-    Layer.provide(McpServer.layerStdio({
-      name: "automerge-fs",
-      version: "0.3.0",
-      stdin: NodeStream.stdin,
-      stdout: NodeSink.stdout,
-    })),
-    Layer.provide(DaemonLive),
-    Layer.provide(ConfigLayer),
+    Layer.provide(handlersLayer(config)),
+    Layer.provide(layerStdio({ name: "automerge-fs", version: "0.3.0" })),
+    Layer.provide(daemonLayerFor({ socketPath: "", ...config })),
     // Route Effect.log to stderr so it doesn't pollute the MCP JSON-RPC stream
     Layer.provide(Logger.add(Logger.prettyLogger({ stderr: true }))),
   )
@@ -2,11 +2,51 @@
  * MCP tool definitions for automerge-fs
  *
  * Defines tools using @effect/ai Tool.make() and groups them into an
- * AutomergeToolkit via Toolkit.make().
+ * AutomergeToolkit via Toolkit.make(). Tools that front an RPC method take
+ * their parameters from the method registry; only the edit fields, which
+ * keep their snake_case shape and have no edit_file RPC, are declared here.
  */
 
 import { Tool, Toolkit } from "@effect/ai"
-import { Schema } from "effect"
+import { Schema, Struct } from "effect"
+import { RpcMethods } from "../rpc/methods"
+
+// =============================================================================
+// Shared Parameters
+// =============================================================================
+
+type SnakeCase<S extends string> = S extends `${infer Head}${infer Rest}`
+  ? `${Head extends Lowercase<Head> ? Head : `_${Lowercase<Head>}`}${SnakeCase<Rest>}`
+  : S
+
+/**
+ * Rename camelCase RPC params to the snake_case the MCP tools have always
+ * used (line_numbers, output_mode, ...).
+ */
+function snakeCaseFields<F extends Schema.Struct.Fields>(
+  fields: F,
+): { readonly [K in keyof F as K extends string ? SnakeCase<K> : K]: F[K] } {
+  return Object.fromEntries(
+    Object.entries(fields).map(([key, schema]) => [
+      key.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`),
+      schema,
+    ]),
+  ) as never
+}
+
+const EditFields = {
+  old_string: Schema.String.annotations({
+    description: "Exact text to replace",
+  }),
+  new_string: Schema.String.annotations({
+    description: "Replacement text",
+  }),
+  replace_all: Schema.optional(
+    Schema.Boolean.annotations({
+      description: "Replace every occurrence (default: false)",
+    }),
+  ),
+}
 
 // =============================================================================
 // Tool Definitions
@@ -14,12 +54,8 @@ import { Schema } from "effect"
 
 export const ReadFileTool = Tool.make("read_file", {
   description:
-    "Read file content from the Automerge filesystem (returns UTF-8 text or base64 for binary)",
-  parameters: {
-    path: Schema.String.annotations({
-      description: "Absolute path to the file",
-    }),
-  },
+    "Read file content from the Automerge filesystem (returns UTF-8 text or base64 for binary). Use offset/limit to page through large files",
+  parameters: snakeCaseFields(RpcMethods.read.params.fields),
   success: Schema.String,
   failure: Schema.String,
   failureMode: "return",
@@ -27,27 +63,31 @@ export const ReadFileTool = Tool.make("read_file", {
 
 export const WriteFileTool = Tool.make("write_file", {
   description: "Write content to a file in the Automerge filesystem",
+  parameters: RpcMethods.write.params.fields,
+  success: Schema.String,
+  failure: Schema.String,
+  failureMode: "return",
+})
+
+export const EditFileTool = Tool.make("edit_file", {
+  description:
+    "Replace an exact string in a text file. Fails if old_string is missing, or matches more than once unless replace_all is set",
   parameters: {
-    path: Schema.String.annotations({
-      description: "Absolute path to the file",
-    }),
-    content: Schema.String.annotations({ description: "Content to write" }),
-    encoding: Schema.optional(
-      Schema.Literal("utf-8", "base64").annotations({
-        description: "Content encoding (default: utf-8)",
-      }),
-    ),
+    path: RpcMethods.multiEdit.params.fields.path,
+    ...EditFields,
   },
   success: Schema.String,
   failure: Schema.String,
   failureMode: "return",
 })
 
-export const ListDirectoryTool = Tool.make("list_directory", {
-  description: "List entries in a directory",
+export const MultiEditTool = Tool.make("multi_edit", {
+  description:
+    "Apply several edit_file-style replacements to one file as a single change. Edits run in order; if any fails to match, none are applied",
   parameters: {
-    path: Schema.String.annotations({
-      description: "Absolute path to the directory",
+    path: RpcMethods.multiEdit.params.fields.path,
+    edits: Schema.Array(Schema.Struct(EditFields)).annotations({
+      description: "Replacements to apply in order",
     }),
   },
   success: Schema.String,
@@ -55,18 +95,17 @@ export const ListDirectoryTool = Tool.make("list_directory", {
   failureMode: "return",
 })
 
+export const ListDirectoryTool = Tool.make("list_directory", {
+  description: "List entries in a directory",
+  parameters: RpcMethods.readdir.params.fields,
+  success: Schema.String,
+  failure: Schema.String,
+  failureMode: "return",
+})
+
 export const CreateDirectoryTool = Tool.make("create_directory", {
   description: "Create a directory (optionally recursive)",
-  parameters: {
-    path: Schema.String.annotations({
-      description: "Absolute path for the new directory",
-    }),
-    recursive: Schema.optional(
-      Schema.Boolean.annotations({
-        description: "Create parent directories if needed",
-      }),
-    ),
-  },
+  parameters: RpcMethods.mkdir.params.fields,
   success: Schema.String,
   failure: Schema.String,
   failureMode: "return",
@@ -74,11 +113,7 @@ export const CreateDirectoryTool = Tool.make("create_directory", {
 
 export const RemoveTool = Tool.make("remove", {
   description: "Remove a file from the filesystem",
-  parameters: {
-    path: Schema.String.annotations({
-      description: "Absolute path to the file to remove",
-    }),
-  },
+  parameters: RpcMethods.rm.params.fields,
   success: Schema.String,
   failure: Schema.String,
   failureMode: "return",
@@ -86,9 +121,7 @@ export const RemoveTool = Tool.make("remove", {
 
 export const StatTool = Tool.make("stat", {
   description: "Get file or directory metadata (size, type, timestamps)",
-  parameters: {
-    path: Schema.String.annotations({ description: "Absolute path to stat" }),
-  },
+  parameters: RpcMethods.stat.params.fields,
   success: Schema.String,
   failure: Schema.String,
   failureMode: "return",
@@ -96,22 +129,15 @@ export const StatTool = Tool.make("stat", {
 
 export const ExistsTool = Tool.make("exists", {
   description: "Check whether a path exists in the filesystem",
-  parameters: {
-    path: Schema.String.annotations({
-      description: "Absolute path to check",
-    }),
-  },
+  parameters: RpcMethods.exists.params.fields,
   success: Schema.String,
   failure: Schema.String,
   failureMode: "return",
 })
 
 export const MoveTool = Tool.make("move", {
-  description: "Rename or move a file",
-  parameters: {
-    oldPath: Schema.String.annotations({ description: "Current path" }),
-    newPath: Schema.String.annotations({ description: "Destination path" }),
-  },
+  description: "Rename or move a file or directory",
+  parameters: RpcMethods.rename.params.fields,
   success: Schema.String,
   failure: Schema.String,
   failureMode: "return",
@@ -119,10 +145,25 @@ export const MoveTool = Tool.make("move", {
 
 export const CopyTool = Tool.make("copy", {
   description: "Copy a file",
-  parameters: {
-    src: Schema.String.annotations({ description: "Source path" }),
-    dest: Schema.String.annotations({ description: "Destination path" }),
-  },
+  parameters: RpcMethods.copy.params.fields,
+  success: Schema.String,
+  failure: Schema.String,
+  failureMode: "return",
+})
+
+export const GlobTool = Tool.make("glob", {
+  description:
+    "Find files by glob pattern (e.g. \"**/*.ts\"), newest first",
+  parameters: RpcMethods.glob.params.fields,
+  success: Schema.String,
+  failure: Schema.String,
+  failureMode: "return",
+})
+
+export const GrepTool = Tool.make("grep", {
+  description:
+    "Search text file contents with a regular expression",
+  parameters: snakeCaseFields(RpcMethods.grep.params.fields),
   success: Schema.String,
   failure: Schema.String,
   failureMode: "return",
@@ -131,16 +172,8 @@ export const CopyTool = Tool.make("copy", {
 export const BashTool = Tool.make("bash", {
   description:
     "Execute a bash command inside the virtual Automerge filesystem",
-  parameters: {
-    command: Schema.String.annotations({
-      description: "Bash command to execute",
-    }),
-    cwd: Schema.optional(
-      Schema.String.annotations({
-        description: "Working directory (default: /)",
-      }),
-    ),
-  },
+  // Output is sent as progress notifications when the client asks for them
+  parameters: snakeCaseFields(Struct.omit(RpcMethods.bash.params.fields, "stream")),
   success: Schema.String,
   failure: Schema.String,
   failureMode: "return",
@@ -148,12 +181,41 @@ export const BashTool = Tool.make("bash", {
 
 export const SnapshotTool = Tool.make("snapshot", {
   description:
-    "Capture current filesystem state (returns Automerge head hashes)",
-  parameters: {
-    name: Schema.optional(
-      Schema.String.annotations({ description: "Optional snapshot label" }),
-    ),
-  },
+    "Capture current filesystem state (returns Automerge head hashes). Named snapshots are saved and can be restored by name later",
+  parameters: RpcMethods.snapshot.params.fields,
+  success: Schema.String,
+  failure: Schema.String,
+  failureMode: "return",
+})
+
+export const RestoreTool = Tool.make("restore", {
+  description:
+    "Roll the whole filesystem back to a snapshot (recorded as a new change, so it can itself be undone)",
+  parameters: RpcMethods.restore.params.fields,
+  success: Schema.String,
+  failure: Schema.String,
+  failureMode: "return",
+})
+
+export const ListSnapshotsTool = Tool.make("list_snapshots", {
+  description: "List saved named snapshots, oldest first",
+  parameters: RpcMethods.listSnapshots.params.fields,
+  success: Schema.String,
+  failure: Schema.String,
+  failureMode: "return",
+})
+
+export const GetSnapshotTool = Tool.make("get_snapshot", {
+  description: "Get a saved snapshot's root and file document heads",
+  parameters: RpcMethods.getSnapshot.params.fields,
+  success: Schema.String,
+  failure: Schema.String,
+  failureMode: "return",
+})
+
+export const DeleteSnapshotTool = Tool.make("delete_snapshot", {
+  description: "Delete a saved snapshot (file history is not affected)",
+  parameters: RpcMethods.deleteSnapshot.params.fields,
   success: Schema.String,
   failure: Schema.String,
   failureMode: "return",
@@ -161,13 +223,7 @@ export const SnapshotTool = Tool.make("snapshot", {
 
 export const HistoryTool = Tool.make("history", {
   description: "View change history for a file or the root document",
-  parameters: {
-    path: Schema.optional(
-      Schema.String.annotations({
-        description: "File path (omit for root history)",
-      }),
-    ),
-  },
+  parameters: RpcMethods.history.params.fields,
   success: Schema.String,
   failure: Schema.String,
   failureMode: "return",
@@ -175,15 +231,7 @@ export const HistoryTool = Tool.make("history", {
 
 export const DiffTool = Tool.make("diff", {
   description: "Diff a file between two versions (Automerge head hashes)",
-  parameters: {
-    path: Schema.String.annotations({ description: "File path to diff" }),
-    fromHeads: Schema.Array(Schema.String).annotations({
-      description: "Starting version heads",
-    }),
-    toHeads: Schema.Array(Schema.String).annotations({
-      description: "Ending version heads",
-    }),
-  },
+  parameters: RpcMethods.diff.params.fields,
   success: Schema.String,
   failure: Schema.String,
   failureMode: "return",
@@ -196,6 +244,8 @@ export const DiffTool = Tool.make("diff", {
 export const AutomergeToolkit = Toolkit.make(
   ReadFileTool,
   WriteFileTool,
+  EditFileTool,
+  MultiEditTool,
   ListDirectoryTool,
   CreateDirectoryTool,
   RemoveTool,
@@ -203,8 +253,14 @@ export const AutomergeToolkit = Toolkit.make(
   ExistsTool,
   MoveTool,
   CopyTool,
+  GlobTool,
+  GrepTool,
   BashTool,
   SnapshotTool,
+  RestoreTool,
+  ListSnapshotsTool,
+  GetSnapshotTool,
+  DeleteSnapshotTool,
   HistoryTool,
   DiffTool,
 )
@@ -1,70 +1,155 @@
 /**
  * Effect RPC Client for automerge-fs
  *
- * Provides a typed client for making RPC calls to the daemon.
+ * Provides a typed client for making RPC calls to the daemon. Params and
+ * results are typed from the method registry, results are decoded with the
+ * method's success schema, and error responses are rebuilt into the tagged
+ * errors the method declares, so callers can `Effect.catchTag` them.
  */
 
-import { Effect, pipe } from "effect"
-import { connectClient, type ClientConnection } from "./transport"
+import { Effect, Schema, pipe } from "effect"
+import { connectClient, fromRpcError, type ClientConnection } from "./transport"
 import { TransportError } from "../errors"
+import { RpcErrorSchema } from "./schema"
 import type * as schema from "./schema"
+import {
+  CommonErrors,
+  RpcMethods,
+  type AnyRpcMethod,
+  type RpcFailure,
+  type RpcMethodName,
+  type RpcParams,
+  type RpcSuccess,
+} from "./methods"
 
 // =============================================================================
 // Client Interface
 // =============================================================================
 
+/** A call's result, failing with the method's errors or a TransportError */
+export type RpcCall<M extends RpcMethodName> = Effect.Effect<
+  RpcSuccess<M>,
+  RpcFailure<M> | TransportError
+>
+
 export interface AmfsClient {
   // File Operations
-  read: (path: string) => Effect.Effect<schema.ReadResult, TransportError>
+  read: (
+    path: string,
+    options?: Omit<schema.ReadParamsType, "path">
+  ) => RpcCall<"read">
   write: (
     path: string,
     content: string,
     encoding?: "utf-8" | "base64"
-  ) => Effect.Effect<void, TransportError>
-  append: (path: string, content: string) => Effect.Effect<void, TransportError>
-  stat: (path: string) => Effect.Effect<schema.FileStat, TransportError>
-  readdir: (path: string) => Effect.Effect<schema.DirEntry[], TransportError>
+  ) => RpcCall<"write">
+  append: (
+    path: string,
+    content: string
+  ) => RpcCall<"append">
+  multiEdit: (
+    path: string,
+    edits: schema.FileEdit[]
+  ) => RpcCall<"multiEdit">
+  stat: (
+    path: string,
+    at?: string[]
+  ) => RpcCall<"stat">
+  readdir: (
+    path: string,
+    at?: string[]
+  ) => RpcCall<"readdir">
   mkdir: (
     path: string,
     recursive?: boolean
-  ) => Effect.Effect<void, TransportError>
-  rm: (path: string) => Effect.Effect<void, TransportError>
-  exists: (path: string) => Effect.Effect<boolean, TransportError>
+  ) => RpcCall<"mkdir">
+  rm: (path: string) => RpcCall<"rm">
+  exists: (
+    path: string,
+    at?: string[]
+  ) => RpcCall<"exists">
   rename: (
     oldPath: string,
     newPath: string
-  ) => Effect.Effect<void, TransportError>
-  copy: (src: string, dest: string) => Effect.Effect<void, TransportError>
+  ) => RpcCall<"rename">
+  copy: (src: string, dest: string) => RpcCall<"copy">
+
+  // Search
+  glob: (
+    pattern: string,
+    path?: string
+  ) => RpcCall<"glob">
+  grep: (
+    pattern: string,
+    options?: schema.GrepOptions
+  ) => RpcCall<"grep">
 
   // Bash Execution
+  /** With `onOutput`, stdout/stderr are passed to it as the command runs */
   bash: (
     command: string,
-    cwd?: string
-  ) => Effect.Effect<schema.BashResult, TransportError>
+    options?: Omit<schema.BashParamsType, "command" | "stream">,
+    onOutput?: (chunk: schema.BashChunk) => void
+  ) => RpcCall<"bash">
 
   // Version Control
   snapshot: (
     name?: string
-  ) => Effect.Effect<schema.SnapshotResult, TransportError>
+  ) => RpcCall<"snapshot">
+  restore: (
+    target: { heads: string[] } | { name: string }
+  ) => RpcCall<"restore">
+  listSnapshots: () => RpcCall<"listSnapshots">
+  getSnapshot: (
+    name: string
+  ) => RpcCall<"getSnapshot">
+  deleteSnapshot: (
+    name: string
+  ) => RpcCall<"deleteSnapshot">
   history: (
-    path?: string
-  ) => Effect.Effect<schema.HistoryResult, TransportError>
+    path?: string,
+    follow?: boolean
+  ) => RpcCall<"history">
   getFileAt: (
     path: string,
     heads: string[]
-  ) => Effect.Effect<string, TransportError>
+  ) => RpcCall<"getFileAt">
   diff: (
     path: string,
     fromHeads: string[],
     toHeads: string[]
-  ) => Effect.Effect<unknown[], TransportError>
+  ) => RpcCall<"diff">
   getFileHeads: (
     path: string
-  ) => Effect.Effect<string[], TransportError>
+  ) => RpcCall<"getFileHeads">
+  gc: (
+    options?: schema.GcParamsType
+  ) => RpcCall<"gc">
+  fsck: (
+    options?: schema.FsckParamsType
+  ) => RpcCall<"fsck">
+  dump: (
+    dataDir: string
+  ) => RpcCall<"dump">
+  exportBundle: (
+    path: string
+  ) => RpcCall<"exportBundle">
+  importBundle: (
+    path: string,
+    options?: { force?: boolean }
+  ) => RpcCall<"importBundle">
+  exportArchive: (
+    path: string,
+    options?: Omit<schema.ExportArchiveParamsType, "path">
+  ) => RpcCall<"exportArchive">
+  importArchive: (
+    path: string,
+    options?: Omit<schema.ImportArchiveParamsType, "path">
+  ) => RpcCall<"importArchive">
 
   // Service Control
-  status: () => Effect.Effect<schema.ServiceStatus, TransportError>
-  shutdown: () => Effect.Effect<{ ok: true }, TransportError>
+  status: () => RpcCall<"status">
+  shutdown: () => RpcCall<"shutdown">
 
   // Connection
   close: () => Effect.Effect<void>
@@ -74,74 +159,151 @@ export interface AmfsClient {
 // RPC Call Helper
 // =============================================================================
 
-const makeRpcCall = <T>(
+const makeRpcCall = <M extends RpcMethodName>(
   conn: ClientConnection,
-  method: string,
-  params: unknown
-): Effect.Effect<T, TransportError> =>
-  conn.call<{ _tag: string; [key: string]: unknown }, T>({
-    _tag: method,
-    ...params as object,
-  })
+  method: M,
+  params: RpcParams<M>,
+  onChunk?: (chunk: schema.BashChunk) => void
+): RpcCall<M> => {
+  const { success, errors }: AnyRpcMethod = RpcMethods[method]
+  const classes = { ...CommonErrors, ...errors }
+  return pipe(
+    conn.call<{ _tag: string; [key: string]: unknown }, unknown>(
+      {
+        _tag: method,
+        ...params,
+      },
+      onChunk
+    ),
+    Effect.mapError((error) =>
+      Schema.is(RpcErrorSchema)(error.cause)
+        ? (fromRpcError(error.cause, classes) as RpcFailure<M> | undefined) ?? error
+        : error
+    ),
+    Effect.flatMap((result) =>
+      pipe(
+        Schema.decodeUnknown(success)(result),
+        Effect.mapError(
+          (cause) =>
+            new TransportError({
+              message: `Malformed ${method} result: ${cause.message}`,
+              cause,
+            })
+        )
+      )
+    )
+  )
+}
 
 // =============================================================================
 // Client Implementation
 // =============================================================================
 
 const makeClient = (conn: ClientConnection): AmfsClient => ({
-  read: (path) =>
-    makeRpcCall<schema.ReadResult>(conn, "read", { path }),
+  read: (path, options) =>
+    makeRpcCall(conn, "read", { path, ...options }),
 
   write: (path, content, encoding) =>
-    makeRpcCall<void>(conn, "write", { path, content, encoding }),
+    makeRpcCall(conn, "write", { path, content, encoding }),
 
   append: (path, content) =>
-    makeRpcCall<void>(conn, "append", { path, content }),
+    makeRpcCall(conn, "append", { path, content }),
 
-  stat: (path) =>
-    makeRpcCall<schema.FileStat>(conn, "stat", { path }),
+  multiEdit: (path, edits) =>
+    makeRpcCall(conn, "multiEdit", { path, edits }),
 
-  readdir: (path) =>
-    makeRpcCall<schema.DirEntry[]>(conn, "readdir", { path }),
+  stat: (path, at) =>
+    makeRpcCall(conn, "stat", { path, at }),
+
+  readdir: (path, at) =>
+    makeRpcCall(conn, "readdir", { path, at }),
 
   mkdir: (path, recursive) =>
-    makeRpcCall<void>(conn, "mkdir", { path, recursive }),
+    makeRpcCall(conn, "mkdir", { path, recursive }),
 
   rm: (path) =>
-    makeRpcCall<void>(conn, "rm", { path }),
+    makeRpcCall(conn, "rm", { path }),
 
-  exists: (path) =>
-    makeRpcCall<boolean>(conn, "exists", { path }),
+  exists: (path, at) =>
+    makeRpcCall(conn, "exists", { path, at }),
 
   rename: (oldPath, newPath) =>
-    makeRpcCall<void>(conn, "rename", { oldPath, newPath }),
+    makeRpcCall(conn, "rename", { oldPath, newPath }),
 
   copy: (src, dest) =>
-    makeRpcCall<void>(conn, "copy", { src, dest }),
+    makeRpcCall(conn, "copy", { src, dest }),
+
+  glob: (pattern, path) =>
+    makeRpcCall(conn, "glob", { pattern, path }),
 
-  bash: (command, cwd) =>
-    makeRpcCall<schema.BashResult>(conn, "bash", { command, cwd }),
+  grep: (pattern, options) =>
+    makeRpcCall(conn, "grep", { pattern, ...options }),
+
+  bash: (command, options, onOutput) =>
+    makeRpcCall(
+      conn,
+      "bash",
+      { command, ...options, stream: onOutput ? true : undefined },
+      onOutput
+    ),
 
   snapshot: (name) =>
-    makeRpcCall<schema.SnapshotResult>(conn, "snapshot", { name }),
+    makeRpcCall(conn, "snapshot", { name }),
+
+  restore: (target) =>
+    makeRpcCall(conn, "restore", target),
+
+  listSnapshots: () =>
+    makeRpcCall(conn, "listSnapshots", {}),
+
+  getSnapshot: (name) =>
+    makeRpcCall(conn, "getSnapshot", { name }),
+
+  deleteSnapshot: (name) =>
+    makeRpcCall(conn, "deleteSnapshot", { name }),
 
-  history: (path) =>
-    makeRpcCall<schema.HistoryResult>(conn, "history", { path }),
+  history: (path, follow) =>
+    makeRpcCall(conn, "history", { path, follow }),
 
   getFileAt: (path, heads) =>
-    makeRpcCall<string>(conn, "getFileAt", { path, heads }),
+    makeRpcCall(conn, "getFileAt", { path, heads }),
 
   diff: (path, fromHeads, toHeads) =>
-    makeRpcCall<unknown[]>(conn, "diff", { path, fromHeads, toHeads }),
+    makeRpcCall(conn, "diff", {
+      path,
+      fromHeads,
+      toHeads,
+    }),
 
   getFileHeads: (path) =>
-    makeRpcCall<string[]>(conn, "getFileHeads", { path }),
+    makeRpcCall(conn, "getFileHeads", { path }),
+
+  gc: (options) =>
+    makeRpcCall(conn, "gc", { ...options }),
+
+  fsck: (options) =>
+    makeRpcCall(conn, "fsck", { ...options }),
+
+  dump: (dataDir) =>
+    makeRpcCall(conn, "dump", { dataDir }),
+
+  exportBundle: (path) =>
+    makeRpcCall(conn, "exportBundle", { path }),
+
+  importBundle: (path, options) =>
+    makeRpcCall(conn, "importBundle", { path, ...options }),
+
+  exportArchive: (path, options) =>
+    makeRpcCall(conn, "exportArchive", { path, ...options }),
+
+  importArchive: (path, options) =>
+    makeRpcCall(conn, "importArchive", { path, ...options }),
 
   status: () =>
-    makeRpcCall<schema.ServiceStatus>(conn, "status", {}),
+    makeRpcCall(conn, "status", {}),
 
   shutdown: () =>
-    makeRpcCall<{ ok: true }>(conn, "shutdown", {}),
+    makeRpcCall(conn, "shutdown", {}),
 
   close: () => conn.close(),
 })
@@ -3,6 +3,7 @@
  */
 
 export * from "./schema"
+export * from "./methods"
 export * from "./router"
 export * from "./transport"
 export * from "./client"
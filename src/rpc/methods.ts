@@ -0,0 +1,167 @@
+/**
+ * RPC method registry for automerge-fs
+ *
+ * Every daemon method with its params, success and error schemas, and the
+ * tagged errors it can fail with. The router decodes params and encodes
+ * results with these, the client decodes results and rebuilds errors with
+ * them, and the MCP tools take their parameters from them, so the three
+ * cannot drift apart.
+ */
+
+import { Schema } from "effect"
+import {
+  AlreadyExistsError,
+  ArchiveError,
+  BashExecutionError,
+  BashTimeoutError,
+  BundleError,
+  DirectoryCreateError,
+  DirectoryNotEmptyError,
+  DirectoryReadError,
+  DumpError,
+  FileDeleteError,
+  FileEditError,
+  FileNotFoundError,
+  FileReadError,
+  FileStatError,
+  FileWriteError,
+  FsckError,
+  GarbageCollectionError,
+  InvalidParamsError,
+  IsDirectoryError,
+  NotDirectoryError,
+  PermissionDeniedError,
+  RequestCancelledError,
+  RestoreError,
+  RpcError,
+  SearchError,
+  SnapshotError,
+  SnapshotNotFoundError,
+  type AmfsError,
+} from "../errors"
+import * as s from "./schema"
+
+/** A tagged error class, keyed by its tag in `RpcMethod.errors` */
+export type RpcErrorClass = new (args: never) => AmfsError
+
+export type RpcErrorClasses = Readonly<Record<string, RpcErrorClass>>
+
+export interface RpcMethod<
+  P extends Schema.Schema.AnyNoContext,
+  S extends Schema.Schema.AnyNoContext,
+  E extends RpcErrorClasses = RpcErrorClasses,
+> {
+  readonly params: P
+  readonly success: S
+  readonly error: typeof s.RpcErrorSchema
+  readonly errors: E
+}
+
+/** Any registry entry, for code that handles methods generically */
+export type AnyRpcMethod = RpcMethod<Schema.Schema.AnyNoContext, Schema.Schema.AnyNoContext>
+
+/**
+ * Failures every method can have: bad params, a result that will not encode,
+ * or a cancel that arrived while the request was still queued
+ */
+export const CommonErrors = { InvalidParamsError, RpcError, RequestCancelledError }
+
+/** Errno failures of filesystem operations (ENOENT, EISDIR, ...) */
+export const ErrnoErrors = {
+  FileNotFoundError,
+  IsDirectoryError,
+  NotDirectoryError,
+  AlreadyExistsError,
+  DirectoryNotEmptyError,
+  PermissionDeniedError,
+}
+
+const method = <
+  P extends Schema.Schema.AnyNoContext,
+  S extends Schema.Schema.AnyNoContext,
+  E extends RpcErrorClasses = {},
+>(
+  params: P,
+  success: S,
+  errors: E = {} as E
+): RpcMethod<P, S, E> => ({ params, success, error: s.RpcErrorSchema, errors })
+
+const Strings = Schema.Array(Schema.String)
+
+export const RpcMethods = {
+  // File Operations
+  read: method(s.ReadParams, s.ReadResultSchema, { FileReadError, ...ErrnoErrors }),
+  write: method(s.WriteParams, Schema.Void, { FileWriteError, ...ErrnoErrors }),
+  append: method(s.AppendParams, Schema.Void, { FileWriteError, ...ErrnoErrors }),
+  multiEdit: method(s.MultiEditParams, s.MultiEditResultSchema, { FileEditError, ...ErrnoErrors }),
+  stat: method(s.StatParams, s.FileStatSchema, { FileStatError, ...ErrnoErrors }),
+  readdir: method(s.ReaddirParams, Schema.Array(s.DirEntrySchema), { DirectoryReadError, ...ErrnoErrors }),
+  mkdir: method(s.MkdirParams, Schema.Void, { DirectoryCreateError, ...ErrnoErrors }),
+  rm: method(s.RmParams, Schema.Void, { FileDeleteError, ...ErrnoErrors }),
+  exists: method(s.ExistsParams, Schema.Boolean),
+  rename: method(s.RenameParams, Schema.Void, {
+    FileReadError,
+    FileWriteError,
+    FileDeleteError,
+    ...ErrnoErrors,
+  }),
+  copy: method(s.CopyParams, Schema.Void, {
+    FileReadError,
+    FileWriteError,
+    ...ErrnoErrors,
+  }),
+
+  // Search
+  glob: method(s.GlobParams, Strings, { SearchError }),
+  grep: method(s.GrepParams, s.GrepResultSchema, { SearchError }),
+
+  // Bash Execution
+  bash: method(s.BashParams, s.BashResultSchema, { BashExecutionError, BashTimeoutError }),
+
+  // Version Control
+  snapshot: method(s.SnapshotParams, s.SnapshotResultSchema, { SnapshotError }),
+  restore: method(s.RestoreParams, s.RestoreResultSchema, {
+    RestoreError,
+    SnapshotNotFoundError,
+  }),
+  listSnapshots: method(s.ListSnapshotsParams, Schema.Array(s.SnapshotInfoSchema)),
+  getSnapshot: method(s.GetSnapshotParams, s.SnapshotInfoSchema, { SnapshotNotFoundError }),
+  deleteSnapshot: method(s.DeleteSnapshotParams, Schema.Void, { SnapshotNotFoundError }),
+  history: method(s.HistoryParams, s.HistoryResultSchema, { FileReadError, ...ErrnoErrors }),
+  getFileAt: method(s.GetFileAtParams, s.ReadResultSchema),
+  diff: method(s.DiffParams, Schema.Union(Schema.Array(Schema.Unknown), s.BinaryDiffSchema)),
+  getFileHeads: method(s.GetFileHeadsParams, Strings),
+  gc: method(s.GcParams, s.GcResultSchema, { GarbageCollectionError }),
+  fsck: method(s.FsckParams, s.FsckResultSchema, { FsckError }),
+  dump: method(s.DumpParams, s.DumpResultSchema, { DumpError }),
+  exportBundle: method(s.ExportBundleParams, s.BundleInfoSchema, { BundleError }),
+  importBundle: method(s.ImportBundleParams, s.BundleInfoSchema, { BundleError }),
+  exportArchive: method(s.ExportArchiveParams, s.ArchiveResultSchema, { ArchiveError }),
+  importArchive: method(s.ImportArchiveParams, s.ArchiveResultSchema, { ArchiveError }),
+
+  // Service Control
+  status: method(s.StatusParams, s.ServiceStatusSchema),
+  shutdown: method(s.ShutdownParams, Schema.Struct({ ok: Schema.Literal(true) })),
+  cancel: method(s.CancelParams, s.CancelResultSchema),
+}
+
+export type RpcMethodName = keyof typeof RpcMethods
+export type RpcParams<M extends RpcMethodName> = (typeof RpcMethods)[M]["params"]["Type"]
+export type RpcSuccess<M extends RpcMethodName> = (typeof RpcMethods)[M]["success"]["Type"]
+/** A method's result as `dispatch` returns it, encoded for the wire */
+export type RpcEncodedSuccess<M extends RpcMethodName> =
+  (typeof RpcMethods)[M]["success"]["Encoded"]
+
+/** The tagged errors a method can fail with, including the common ones */
+export type RpcFailure<M extends RpcMethodName> =
+  | ErrorOf<(typeof RpcMethods)[M]["errors"]>
+  | InvalidParamsError
+  | RpcError
+  | RequestCancelledError
+
+type ErrorOf<E> = InstanceOf<E[keyof E]>
+type InstanceOf<C> = C extends new (args: never) => infer I ? I : never
+
+export function isRpcMethod(name: string): name is RpcMethodName {
+  return Object.hasOwn(RpcMethods, name)
+}
@@ -0,0 +1,224 @@
+import { test, expect, describe } from "bun:test";
+import { Effect, Exit } from "effect";
+import type { AutomergeFsService } from "../services/AutomergeFs";
+import type { BashExecutorService } from "../services/BashExecutor";
+import {
+  BashTimeoutError,
+  FileNotFoundError,
+  FileWriteError,
+  InvalidParamsError,
+  MethodNotFoundError,
+  SnapshotNotFoundError,
+} from "../errors";
+import { CommonErrors, RpcMethods } from "./methods";
+import { makeRouter, type RequestContext } from "./router";
+import { fromRpcError, toRpcError } from "./transport";
+
+const stat = {
+  size: 3,
+  isFile: true,
+  isDirectory: false,
+  isSymbolicLink: false,
+  mode: 0o644,
+  mtime: "2024-01-01T00:00:00.000Z",
+  ctime: "2024-01-01T00:00:00.000Z",
+};
+
+const calls: unknown[][] = [];
+
+const router = makeRouter({
+  fsService: {
+    stat: (path: string, at?: string[]) => {
+      calls.push([path, at]);
+      return Effect.succeed({ ...stat, internal: "not on the wire" });
+    },
+    mkdir: (path: string, options?: { recursive?: boolean }) => {
+      calls.push([path, options]);
+      return Effect.void;
+    },
+  } as unknown as AutomergeFsService,
+  bashService: {
+    exec: (command: string, options) =>
+      command === "hang" ? Effect.never : Effect.gen(function* () {
+        yield* options?.onOutput?.({ stream: "stdout", data: command }) ?? Effect.void;
+        return { stdout: command, stderr: "", exitCode: 0 };
+      }),
+  } as BashExecutorService,
+  dataDir: "/tmp/amfs",
+  encrypted: false,
+  startTime: Date.now(),
+});
+
+describe("RPC Router", () => {
+  test("passes decoded params to the service and encodes the result", async () => {
+    const result = await Effect.runPromise(
+      router.handle("stat", { _tag: "stat", path: "/a.txt", at: ["h1"] }),
+    );
+    expect(result).toEqual(stat);
+    expect(calls.at(-1)).toEqual(["/a.txt", ["h1"]]);
+  });
+
+  test("rejects params that do not match the method's schema", async () => {
+    const exit = await Effect.runPromiseExit(
+      router.handle("mkdir", { path: 42, recursive: "yes" }),
+    );
+    expect(exit._tag).toBe("Failure");
+    if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+      const error = exit.cause.error as InvalidParamsError;
+      expect(error).toBeInstanceOf(InvalidParamsError);
+      expect(error.method).toBe("mkdir");
+      expect(error.issues.map((issue) => issue.path)).toEqual(["path", "recursive"]);
+      expect(error.message).toStartWith("Invalid params for mkdir: path:");
+    }
+  });
+
+  test("rejects missing params", async () => {
+    const exit = await Effect.runPromiseExit(router.handle("stat", undefined));
+    expect(Exit.isFailure(exit)).toBe(true);
+  });
+
+  test("reports unknown methods", async () => {
+    const exit = await Effect.runPromiseExit(router.handle("format", {}));
+    expect(exit).toEqual(Exit.fail(new MethodNotFoundError({ method: "format" })));
+  });
+
+  const request = (overrides: Partial<RequestContext> = {}): RequestContext => ({
+    notify: () => Effect.void,
+    cancelled: Effect.never,
+    cancel: () => Effect.succeed(false),
+    ...overrides,
+  });
+
+  test("bash sends output through notify only when streaming", async () => {
+    const chunks: unknown[] = [];
+    const notify = (chunk: unknown) => Effect.sync(() => void chunks.push(chunk));
+    await Effect.runPromise(router.handle("bash", { command: "quiet" }, request({ notify })));
+    await Effect.runPromise(
+      router.handle("bash", { command: "loud", stream: true }, request({ notify })),
+    );
+    expect(chunks).toEqual([{ stream: "stdout", data: "loud" }]);
+  });
+
+  test("a cancelled bash request fails with BashTimeoutError", async () => {
+    const exit = await Effect.runPromiseExit(
+      router.handle("bash", { command: "hang" }, request({ cancelled: Effect.sleep(10) })),
+    );
+    expect(Exit.isFailure(exit) && exit.cause._tag === "Fail" && exit.cause.error).toBeInstanceOf(
+      BashTimeoutError,
+    );
+  });
+
+  test("cancel reports whether the request was running", async () => {
+    const cancelled: number[] = [];
+    const result = await Effect.runPromise(
+      router.handle(
+        "cancel",
+        { id: 7 },
+        request({ cancel: (id) => Effect.sync(() => cancelled.push(id) > 0) }),
+      ),
+    );
+    expect(result).toEqual({ cancelled: true });
+    expect(cancelled).toEqual([7]);
+  });
+
+  test("rejects timeouts that are not positive", async () => {
+    const exit = await Effect.runPromiseExit(router.handle("bash", { command: "x", timeoutMs: 0 }));
+    expect(Exit.isFailure(exit) && exit.cause._tag === "Fail" && exit.cause.error).toBeInstanceOf(
+      InvalidParamsError,
+    );
+  });
+
+  test("restore without heads or name is invalid params", async () => {
+    const exit = await Effect.runPromiseExit(router.handle("restore", {}));
+    expect(Exit.isFailure(exit) && exit.cause._tag === "Fail" && exit.cause.error).toBeInstanceOf(
+      InvalidParamsError,
+    );
+  });
+});
+
+describe("toRpcError", () => {
+  test("invalid params carry a code and the issues", () => {
+    const error = new InvalidParamsError({
+      method: "read",
+      message: "Invalid params for read: path: Expected string",
+      issues: [{ path: "path", message: "Expected string" }],
+    });
+    expect(toRpcError(error)).toMatchObject({
+      message: "Invalid params for read: path: Expected string",
+      code: "EINVAL",
+      _tag: "InvalidParamsError",
+      issues: [{ path: "path", message: "Expected string" }],
+    });
+  });
+
+  test("unknown methods are ENOSYS", () => {
+    expect(toRpcError(new MethodNotFoundError({ method: "format" }))).toEqual({
+      message: "Unknown method: format",
+      code: "ENOSYS",
+      _tag: "MethodNotFoundError",
+      data: { method: "format" },
+    });
+  });
+
+  test("tagged errors keep their tag, code and fields", () => {
+    const cause = Object.assign(new Error("EISDIR: illegal operation on a directory"), {
+      stack: "not on the wire",
+    });
+    expect(JSON.parse(JSON.stringify(toRpcError(new FileWriteError({ path: "/d", cause }))))).toEqual({
+      message: "FileWriteError: /d: EISDIR: illegal operation on a directory",
+      code: "EISDIR",
+      _tag: "FileWriteError",
+      data: {
+        path: "/d",
+        cause: { message: "EISDIR: illegal operation on a directory", code: "EISDIR" },
+      },
+    });
+  });
+
+  test("other failures keep their message", () => {
+    expect(toRpcError(new Error("boom"))).toEqual({ message: "boom" });
+  });
+});
+
+describe("fromRpcError", () => {
+  const roundTrip = (error: unknown, method: keyof typeof RpcMethods) =>
+    fromRpcError(JSON.parse(JSON.stringify(toRpcError(error))), {
+      ...CommonErrors,
+      ...RpcMethods[method].errors,
+    });
+
+  test("rebuilds the same tagged error", () => {
+    const error = new FileNotFoundError({ path: "/missing" });
+    const rebuilt = roundTrip(error, "read");
+    expect(rebuilt).toBeInstanceOf(FileNotFoundError);
+    expect(rebuilt).toEqual(error);
+  });
+
+  test("rebuilds causes as Errors with their code", () => {
+    const rebuilt = roundTrip(
+      new FileWriteError({ path: "/d", cause: new Error("EISDIR: illegal operation") }),
+      "write",
+    );
+    expect(rebuilt).toBeInstanceOf(FileWriteError);
+    const cause = (rebuilt as FileWriteError).cause;
+    expect(cause).toBeInstanceOf(Error);
+    expect(cause).toMatchObject({ message: "EISDIR: illegal operation", code: "EISDIR" });
+  });
+
+  test("keeps messages and issues of invalid params", () => {
+    const error = new InvalidParamsError({
+      method: "read",
+      message: "Invalid params for read: path: Expected string",
+      issues: [{ path: "path", message: "Expected string" }],
+    });
+    const rebuilt = roundTrip(error, "read") as InvalidParamsError;
+    expect(rebuilt).toBeInstanceOf(InvalidParamsError);
+    expect(rebuilt.message).toBe(error.message);
+    expect(rebuilt.issues).toEqual(error.issues);
+  });
+
+  test("ignores errors the method does not declare", () => {
+    expect(roundTrip(new SnapshotNotFoundError({ name: "v1" }), "read")).toBeUndefined();
+    expect(roundTrip(new Error("boom"), "read")).toBeUndefined();
+  });
+});
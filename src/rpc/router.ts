@@ -5,27 +5,27 @@
  * Uses a simple method-dispatch pattern over JSON-RPC.
  */
 
-import { Effect, pipe } from "effect"
+import { Effect, ParseResult, Schema, pipe } from "effect"
 import type { AutomergeFsService } from "../services/AutomergeFs"
 import type { BashExecutorService } from "../services/BashExecutor"
-import type {
-  ReadParamsType,
-  WriteParamsType,
-  AppendParamsType,
-  StatParamsType,
-  ReaddirParamsType,
-  MkdirParamsType,
-  RmParamsType,
-  ExistsParamsType,
-  RenameParamsType,
-  CopyParamsType,
-  BashParamsType,
-  SnapshotParamsType,
-  HistoryParamsType,
-  GetFileAtParamsType,
-  DiffParamsType,
-  GetFileHeadsParamsType,
-} from "./schema"
+import {
+  BashTimeoutError,
+  InvalidParamsError,
+  MethodNotFoundError,
+  RpcError,
+} from "../errors"
+import { selectLines } from "../lines"
+import {
+  RpcMethods,
+  isRpcMethod,
+  type AnyRpcMethod,
+  type RpcMethodName,
+  type RpcFailure,
+  type RpcEncodedSuccess,
+  type RpcParams,
+  type RpcSuccess,
+} from "./methods"
+import type { BashChunk } from "./schema"
 
 // =============================================================================
 // Router Context
@@ -35,6 +35,7 @@ export interface RouterContext {
   fsService: AutomergeFsService
   bashService: BashExecutorService
   dataDir: string
+  encrypted: boolean
   startTime: number
 }
 
@@ -42,180 +43,397 @@ export interface RouterContext {
 // Router Type
 // =============================================================================
 
-export type RpcHandler = (params: unknown) => Effect.Effect<unknown, unknown>
+/** Sends a notification for the request being handled, ahead of its result */
+export type Notify = (chunk: BashChunk) => Effect.Effect<void>
+
+/** The request being handled and the connection it came in on */
+export interface RequestContext {
+  readonly notify: Notify
+  /** Completes if the client cancels this request */
+  readonly cancelled: Effect.Effect<void>
+  /** Cancel another request on the same connection; false if it is not running */
+  readonly cancel: (id: number) => Effect.Effect<boolean>
+}
+
+const noRequestContext: RequestContext = {
+  notify: () => Effect.void,
+  cancelled: Effect.never,
+  cancel: () => Effect.succeed(false),
+}
+
+export type RpcHandlers = {
+  readonly [M in RpcMethodName]: (
+    params: RpcParams<M>,
+    request: RequestContext
+  ) => Effect.Effect<RpcSuccess<M>, RpcFailure<M>>
+}
 
 export interface AmfsRouter {
-  handle: (method: string, params: unknown) => Effect.Effect<unknown, unknown>
+  handle: (
+    method: string,
+    params: unknown,
+    request?: RequestContext
+  ) => Effect.Effect<unknown, unknown>
 }
 
 // =============================================================================
 // Router Implementation
 // =============================================================================
 
-export const makeRouter = (ctx: RouterContext): AmfsRouter => {
-  const handlers: Record<string, RpcHandler> = {
-    // File Operations
-    read: (params) => {
-      const { path } = params as ReadParamsType
-      return pipe(
-        ctx.fsService.readFile(path),
-        Effect.map((content) => {
-          try {
-            const text = new TextDecoder("utf-8", { fatal: true }).decode(content)
-            return { content: text, encoding: "utf-8" as const }
-          } catch {
-            return {
-              content: Buffer.from(content).toString("base64"),
-              encoding: "base64" as const,
-            }
+/**
+ * The typed handler for every method, on the given services. Run them
+ * through `dispatch` so params and results go through the registry schemas.
+ */
+export const makeHandlers = (ctx: RouterContext): RpcHandlers => ({
+  // File Operations
+  read: (params) => {
+    const { path, at, offset, limit, lineNumbers } = params
+    return pipe(
+      ctx.fsService.readFile(path, at && [...at]),
+      Effect.map((content) => {
+        try {
+          const text = new TextDecoder("utf-8", { fatal: true }).decode(content)
+          return {
+            content: selectLines(text, { offset, limit, lineNumbers }),
+            encoding: "utf-8" as const,
           }
+        } catch {
+          return {
+            content: Buffer.from(content).toString("base64"),
+            encoding: "base64" as const,
+          }
+        }
+      })
+    )
+  },
+
+  write: (params) => {
+    const { path, content, encoding } = params
+    const bytes =
+      encoding === "base64" ? Buffer.from(content, "base64") : content
+    return ctx.fsService.writeFile(path, bytes)
+  },
+
+  append: (params) => {
+    const { path, content } = params
+    return ctx.fsService.appendFile(path, content)
+  },
+
+  multiEdit: (params) => {
+    const { path, edits } = params
+    return pipe(
+      ctx.fsService.multiEditFile(path, edits),
+      Effect.map((replacements) => ({ replacements }))
+    )
+  },
+
+  stat: (params) => {
+    const { path, at } = params
+    return ctx.fsService.stat(path, at && [...at])
+  },
+
+  readdir: (params) => {
+    const { path, at } = params
+    return ctx.fsService.readdir(path, at && [...at])
+  },
+
+  mkdir: (params) => {
+    const { path, recursive } = params
+    return ctx.fsService.mkdir(path, { recursive: recursive ?? false })
+  },
+
+  rm: (params) => {
+    const { path } = params
+    return ctx.fsService.unlink(path)
+  },
+
+  exists: (params) => {
+    const { path, at } = params
+    return ctx.fsService.exists(path, at && [...at])
+  },
+
+  rename: (params) => {
+    const { oldPath, newPath } = params
+    return ctx.fsService.rename(oldPath, newPath)
+  },
+
+  copy: (params) => {
+    const { src, dest } = params
+    return ctx.fsService.copy(src, dest)
+  },
+
+  // Search
+  glob: (params) => {
+    const { pattern, path } = params
+    return ctx.fsService.glob(pattern, path)
+  },
+
+  grep: (params) => {
+    const { pattern, ...options } = params
+    return ctx.fsService.grep(pattern, options)
+  },
+
+  // Bash Execution
+  // A cancelled command fails as if it had timed out when it was cancelled
+  bash: (params, { notify, cancelled }) => {
+    const { command, cwd, stream, timeoutMs } = params
+    const start = Date.now()
+    return Effect.raceFirst(
+      ctx.bashService.exec(command, { cwd, timeoutMs, onOutput: stream ? notify : undefined }),
+      Effect.flatMap(cancelled, () =>
+        Effect.fail(new BashTimeoutError({ command, timeout: Date.now() - start }))
+      )
+    )
+  },
+
+  // Version Control
+  snapshot: (params) => {
+    const { name } = params
+    if (name) {
+      return pipe(
+        ctx.fsService.createSnapshot(name),
+        Effect.map(({ heads, timestamp }) => ({ heads, name, timestamp }))
+      )
+    }
+    return pipe(
+      ctx.fsService.getRootHeads(),
+      Effect.map((heads) => ({
+        heads,
+        name: name ?? null,
+        timestamp: Date.now(),
+      }))
+    )
+  },
+
+  restore: (params) => {
+    const { heads, name } = params
+    if (name) {
+      return pipe(
+        ctx.fsService.getSnapshot(name),
+        Effect.flatMap((snapshot) =>
+          pipe(
+            ctx.fsService.restoreTo([...snapshot.heads], snapshot.fileHeads),
+            Effect.map((newHeads) => ({
+              heads: newHeads,
+              restoredFrom: snapshot.heads,
+            }))
+          )
+        )
+      )
+    }
+    if (!heads || heads.length === 0) {
+      return Effect.fail(
+        new InvalidParamsError({
+          method: "restore",
+          message: "restore requires heads or a snapshot name",
+          issues: [],
         })
       )
-    },
-
-    write: (params) => {
-      const { path, content, encoding } = params as WriteParamsType
-      const bytes =
-        encoding === "base64" ? Buffer.from(content, "base64") : content
-      return ctx.fsService.writeFile(path, bytes)
-    },
-
-    append: (params) => {
-      const { path, content } = params as AppendParamsType
-      return ctx.fsService.appendFile(path, content)
-    },
-
-    stat: (params) => {
-      const { path } = params as StatParamsType
-      return ctx.fsService.stat(path)
-    },
-
-    readdir: (params) => {
-      const { path } = params as ReaddirParamsType
-      return ctx.fsService.readdir(path)
-    },
-
-    mkdir: (params) => {
-      const { path, recursive } = params as MkdirParamsType
-      return ctx.fsService.mkdir(path, { recursive: recursive ?? false })
-    },
-
-    rm: (params) => {
-      const { path } = params as RmParamsType
-      return ctx.fsService.unlink(path)
-    },
-
-    exists: (params) => {
-      const { path } = params as ExistsParamsType
-      return ctx.fsService.exists(path)
-    },
-
-    rename: (params) => {
-      const { oldPath, newPath } = params as RenameParamsType
-      return ctx.fsService.rename(oldPath, newPath)
-    },
-
-    copy: (params) => {
-      const { src, dest } = params as CopyParamsType
-      return ctx.fsService.copy(src, dest)
-    },
-
-    // Bash Execution
-    bash: (params) => {
-      const { command, cwd } = params as BashParamsType
-      return ctx.bashService.exec(command, { cwd })
-    },
-
-    // Version Control
-    snapshot: (params) => {
-      const { name } = params as SnapshotParamsType
+    }
+    return pipe(
+      ctx.fsService.restoreTo([...heads]),
+      Effect.map((newHeads) => ({
+        heads: newHeads,
+        restoredFrom: heads,
+      }))
+    )
+  },
+
+  listSnapshots: () => ctx.fsService.listSnapshots(),
+
+  getSnapshot: (params) => {
+    const { name } = params
+    return ctx.fsService.getSnapshot(name)
+  },
+
+  deleteSnapshot: (params) => {
+    const { name } = params
+    return ctx.fsService.deleteSnapshot(name)
+  },
+
+  history: (params) => {
+    const { path, follow } = params
+    if (path && follow) {
       return pipe(
-        ctx.fsService.getRootHeads(),
-        Effect.map((heads) => ({
-          heads,
-          name: name ?? null,
-          timestamp: Date.now(),
+        ctx.fsService.getFileLineage(path),
+        Effect.map((lineage) => ({
+          type: "follow" as const,
+          path,
+          ...lineage,
         }))
       )
-    },
-
-    history: (params) => {
-      const { path } = params as HistoryParamsType
-      if (path) {
-        return pipe(
-          ctx.fsService.getFileHistory(path),
-          Effect.map((history) => ({
-            type: "file" as const,
-            path,
-            history,
-          }))
-        )
-      }
+    }
+    if (path) {
       return pipe(
-        ctx.fsService.getRootDoc(),
-        Effect.map((rootDoc) => ({
-          type: "root" as const,
-          operationLog: rootDoc?.operationLog ?? [],
+        ctx.fsService.getFileHistory(path),
+        Effect.map((history) => ({
+          type: "file" as const,
+          path,
+          history,
         }))
       )
-    },
+    }
+    return pipe(
+      ctx.fsService.getRootDoc(),
+      Effect.map((rootDoc) => ({
+        type: "root" as const,
+        operationLog: rootDoc?.operationLog ?? [],
+      }))
+    )
+  },
 
-    getFileAt: (params) => {
-      const { path, heads } = params as GetFileAtParamsType
-      return ctx.fsService.getFileAt(path, [...heads])
-    },
+  getFileAt: (params) => {
+    const { path, heads } = params
+    return pipe(
+      ctx.fsService.getFileAt(path, [...heads]),
+      Effect.map((content) =>
+        typeof content === "string"
+          ? { content, encoding: "utf-8" as const }
+          : {
+              content: Buffer.from(content).toString("base64"),
+              encoding: "base64" as const,
+            }
+      )
+    )
+  },
 
-    diff: (params) => {
-      const { path, fromHeads, toHeads } = params as DiffParamsType
-      return ctx.fsService.diff(path, [...fromHeads], [...toHeads])
-    },
+  diff: (params) => {
+    const { path, fromHeads, toHeads } = params
+    return ctx.fsService.diff(path, [...fromHeads], [...toHeads])
+  },
 
-    getFileHeads: (params) => {
-      const { path } = params as GetFileHeadsParamsType
-      return ctx.fsService.getFileHeads(path)
-    },
+  getFileHeads: (params) => {
+    const { path } = params
+    return ctx.fsService.getFileHeads(path)
+  },
 
-    // Service Control
-    status: () =>
-      pipe(
-        Effect.all({
-          docs: ctx.fsService.getAllDocumentIds(),
-          blobs: ctx.fsService.getAllBlobHashes(),
-        }),
-        Effect.map(({ docs, blobs }) => {
-          const mem = process.memoryUsage()
-          return {
-            pid: process.pid,
-            runtime: "bun",
-            version: Bun.version,
-            uptime: Math.floor((Date.now() - ctx.startTime) / 1000),
-            dataDir: ctx.dataDir,
-            documents: docs.length,
-            blobs: blobs.length,
-            memory: {
-              heapUsed: Math.round(mem.heapUsed / 1024 / 1024),
-              heapTotal: Math.round(mem.heapTotal / 1024 / 1024),
-              rss: Math.round(mem.rss / 1024 / 1024),
-            },
-          }
-        })
-      ),
+  gc: (params) => {
+    const { dryRun, retain } = params
+    return ctx.fsService.gc({ dryRun, retain })
+  },
+
+  fsck: (params) => {
+    const { repair, truncateLost } = params
+    return ctx.fsService.fsck({ repair, truncateLost })
+  },
+
+  dump: (params) => {
+    const { dataDir } = params
+    return ctx.fsService.dump(dataDir)
+  },
 
-    shutdown: () =>
-      Effect.sync(() => {
-        console.log("Shutdown requested via RPC")
-        setTimeout(() => process.exit(0), 100)
-        return { ok: true as const }
+  exportBundle: (params) => {
+    const { path } = params
+    return ctx.fsService.exportBundle(path)
+  },
+
+  importBundle: (params) => {
+    const { path, force } = params
+    return ctx.fsService.importBundle(path, { force })
+  },
+
+  exportArchive: (params) => {
+    const { path, format, root } = params
+    return ctx.fsService.exportArchive(path, { format, root })
+  },
+
+  importArchive: (params) => {
+    const { path, dest } = params
+    return ctx.fsService.importArchive(path, { dest })
+  },
+
+  // Service Control
+  status: () =>
+    pipe(
+      Effect.all({
+        docs: ctx.fsService.getAllDocumentIds(),
+        blobs: ctx.fsService.getAllBlobHashes(),
       }),
-  }
+      Effect.map(({ docs, blobs }) => {
+        const mem = process.memoryUsage()
+        return {
+          pid: process.pid,
+          runtime: "bun",
+          version: Bun.version,
+          uptime: Math.floor((Date.now() - ctx.startTime) / 1000),
+          dataDir: ctx.dataDir,
+          encrypted: ctx.encrypted,
+          documents: docs.length,
+          blobs: blobs.length,
+          memory: {
+            heapUsed: Math.round(mem.heapUsed / 1024 / 1024),
+            heapTotal: Math.round(mem.heapTotal / 1024 / 1024),
+            rss: Math.round(mem.rss / 1024 / 1024),
+          },
+        }
+      })
+    ),
 
+  cancel: ({ id }, { cancel }) =>
+    Effect.map(cancel(id), (cancelled) => ({ cancelled })),
+
+  shutdown: () =>
+    Effect.sync(() => {
+      console.log("Shutdown requested via RPC")
+      setTimeout(() => process.exit(0), 100)
+      return { ok: true as const }
+    }),
+})
+
+export const makeRouter = (ctx: RouterContext): AmfsRouter => {
+  const handlers = makeHandlers(ctx)
   return {
-    handle: (method, params) => {
-      const handler = handlers[method]
-      if (!handler) {
-        return Effect.fail(new Error(`Unknown method: ${method}`))
-      }
-      return handler(params)
-    },
+    handle: (method, params, request = noRequestContext) =>
+      isRpcMethod(method)
+        ? dispatch(handlers, method, params as RpcParams<typeof method>, request)
+        : Effect.fail(new MethodNotFoundError({ method })),
+  }
+}
+
+/**
+ * Decode params with the method's schema, run its handler and encode the
+ * result, so only what the registry declares goes over the wire. Params are
+ * decoded even when typed, so the router can pass what came off the socket.
+ */
+export const dispatch = <M extends RpcMethodName>(
+  handlers: RpcHandlers,
+  method: M,
+  params: RpcParams<M>,
+  request: RequestContext = noRequestContext
+): Effect.Effect<RpcEncodedSuccess<M>, RpcFailure<M>> => {
+  const { params: paramsSchema, success }: AnyRpcMethod = RpcMethods[method]
+  const handler = handlers[method] as (
+    params: unknown,
+    request: RequestContext
+  ) => Effect.Effect<unknown, unknown>
+  return pipe(
+    Schema.decodeUnknown(paramsSchema)(params, { errors: "all" }),
+    Effect.mapError((error) => invalidParams(method, error)),
+    Effect.flatMap((decoded) => handler(decoded, request)),
+    Effect.flatMap((result) =>
+      pipe(
+        Schema.encodeUnknown(success)(result),
+        Effect.mapError((cause) => new RpcError({ method, cause }))
+      )
+    )
+  ) as Effect.Effect<RpcEncodedSuccess<M>, RpcFailure<M>>
+}
+
+const invalidParams = (method: string, error: ParseResult.ParseError): InvalidParamsError => {
+  // An optional field reports one issue per union member ("Expected boolean",
+  // "Expected undefined"); the first says what was wrong
+  const byPath = new Map<string, string>()
+  for (const issue of ParseResult.ArrayFormatter.formatErrorSync(error)) {
+    const path = issue.path.map(String).join(".")
+    if (!byPath.has(path)) byPath.set(path, issue.message)
   }
+  const issues = [...byPath].map(([path, message]) => ({ path, message }))
+  const summary = issues
+    .map(({ path, message }) => (path ? `${path}: ${message}` : message))
+    .join("; ")
+  return new InvalidParamsError({
+    method,
+    message: `Invalid params for ${method}: ${summary}`,
+    issues,
+  })
 }
@@ -22,6 +22,22 @@ describe("RPC Schema Validation", () => {
       expect(result.path).toBe("/test.txt");
     });
 
+    test("ReadParams accepts optional at heads", () => {
+      const valid = { path: "/test.txt", at: ["abc123"] };
+      const result = Schema.decodeUnknownSync(ReadParams)(valid);
+      expect(result.at).toEqual(["abc123"]);
+    });
+
+    test("ReadParams takes a positive whole offset and limit", () => {
+      const result = Schema.decodeUnknownSync(ReadParams)({ path: "/t", offset: 3, limit: 10 });
+      expect(result.offset).toBe(3);
+      expect(result.limit).toBe(10);
+
+      for (const bad of [{ offset: 0 }, { offset: 1.5 }, { limit: -1 }, { limit: 0 }]) {
+        expect(() => Schema.decodeUnknownSync(ReadParams)({ path: "/t", ...bad })).toThrow();
+      }
+    });
+
     test("WriteParams validates with content", () => {
       const valid = { path: "/test.txt", content: "Hello" };
       const result = Schema.decodeUnknownSync(WriteParams)(valid);
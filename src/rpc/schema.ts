@@ -32,6 +32,20 @@ export const DirEntrySchema = Schema.Struct({
 
 export type DirEntry = typeof DirEntrySchema.Type
 
+export const FileEditSchema = Schema.Struct({
+  oldString: Schema.String,
+  newString: Schema.String,
+  replaceAll: Schema.optional(Schema.Boolean),
+})
+
+export type FileEdit = typeof FileEditSchema.Type
+
+export const MultiEditResultSchema = Schema.Struct({
+  replacements: Schema.Number,
+})
+
+export type MultiEditResult = typeof MultiEditResultSchema.Type
+
 export const ReadResultSchema = Schema.Struct({
   content: Schema.String,
   encoding: Schema.Literal("utf-8", "base64"),
@@ -39,6 +53,38 @@ export const ReadResultSchema = Schema.Struct({
 
 export type ReadResult = typeof ReadResultSchema.Type
 
+export const GrepOutputModeSchema = Schema.Literal(
+  "files_with_matches",
+  "count",
+  "content"
+)
+
+export const GrepLineSchema = Schema.Struct({
+  path: Schema.String,
+  lineNumber: Schema.Number,
+  text: Schema.String,
+  match: Schema.Boolean,
+})
+
+export const GrepResultSchema = Schema.Union(
+  Schema.Struct({
+    mode: Schema.Literal("files_with_matches"),
+    files: Schema.Array(Schema.String),
+  }),
+  Schema.Struct({
+    mode: Schema.Literal("count"),
+    counts: Schema.Array(
+      Schema.Struct({ path: Schema.String, count: Schema.Number })
+    ),
+  }),
+  Schema.Struct({
+    mode: Schema.Literal("content"),
+    lines: Schema.Array(GrepLineSchema),
+  })
+)
+
+export type GrepResult = typeof GrepResultSchema.Type
+
 export const BashResultSchema = Schema.Struct({
   stdout: Schema.String,
   stderr: Schema.String,
@@ -47,6 +93,14 @@ export const BashResultSchema = Schema.Struct({
 
 export type BashResult = typeof BashResultSchema.Type
 
+/** A piece of a running command's output */
+export const BashChunkSchema = Schema.Struct({
+  stream: Schema.Literal("stdout", "stderr"),
+  data: Schema.String,
+})
+
+export type BashChunk = typeof BashChunkSchema.Type
+
 export const SnapshotResultSchema = Schema.Struct({
   heads: Schema.Array(Schema.String),
   name: Schema.NullOr(Schema.String),
@@ -55,6 +109,110 @@ export const SnapshotResultSchema = Schema.Struct({
 
 export type SnapshotResult = typeof SnapshotResultSchema.Type
 
+export const SnapshotInfoSchema = Schema.Struct({
+  name: Schema.String,
+  timestamp: Schema.Number,
+  heads: Schema.Array(Schema.String),
+  fileHeads: Schema.Record({
+    key: Schema.String,
+    value: Schema.Array(Schema.String),
+  }),
+})
+
+export type SnapshotInfo = typeof SnapshotInfoSchema.Type
+
+export const RestoreResultSchema = Schema.Struct({
+  heads: Schema.Array(Schema.String),
+  restoredFrom: Schema.Array(Schema.String),
+})
+
+export type RestoreResult = typeof RestoreResultSchema.Type
+
+export const BlobRetentionSchema = Schema.Literal("history", "snapshots", "current")
+
+export type BlobRetention = typeof BlobRetentionSchema.Type
+
+export const GcResultSchema = Schema.Struct({
+  dryRun: Schema.Boolean,
+  retain: BlobRetentionSchema,
+  referenced: Schema.Number, // distinct blobs still reachable
+  removed: Schema.Array(Schema.String),
+})
+
+export type GcResult = typeof GcResultSchema.Type
+
+export const FsckIssueSchema = Schema.Struct({
+  kind: Schema.Literal(
+    "missing-root", // "/" is gone or not a directory
+    "orphan", // parent missing or not a directory
+    "dangling-file-doc", // fileDocId does not load
+    "missing-blob", // blobHash not in the blob store
+    "corrupt-blob", // blob content does not hash to its name
+    "size-mismatch" // metadata.size differs from the content
+  ),
+  path: Schema.String,
+  detail: Schema.String,
+  repaired: Schema.Boolean,
+})
+
+export type FsckIssue = typeof FsckIssueSchema.Type
+
+export const FsckResultSchema = Schema.Struct({
+  repair: Schema.Boolean,
+  checked: Schema.Number, // tree entries examined
+  issues: Schema.Array(FsckIssueSchema),
+})
+
+export type FsckResult = typeof FsckResultSchema.Type
+
+export const DumpResultSchema = Schema.Struct({
+  dataDir: Schema.String,
+  rootDocUrl: Schema.String,
+  documents: Schema.Number,
+  blobs: Schema.Number,
+})
+
+export type DumpResult = typeof DumpResultSchema.Type
+
+export const BundleInfoSchema = Schema.Struct({
+  path: Schema.String,
+  rootDocUrl: Schema.String,
+  documents: Schema.Number,
+  blobs: Schema.Number,
+  snapshots: Schema.Array(Schema.String), // snapshot names in the bundle
+})
+
+export type BundleInfo = typeof BundleInfoSchema.Type
+
+export const ArchiveFormatSchema = Schema.Literal("tar", "tgz", "zip")
+
+export type ArchiveFormat = typeof ArchiveFormatSchema.Type
+
+export const ArchiveResultSchema = Schema.Struct({
+  path: Schema.String, // archive file
+  format: ArchiveFormatSchema,
+  entries: Schema.Number, // files, directories and symlinks
+})
+
+export type ArchiveResult = typeof ArchiveResultSchema.Type
+
+export const BlobVersionSchema = Schema.Struct({
+  blobHash: Schema.String,
+  size: Schema.Number,
+})
+
+export type BlobVersion = typeof BlobVersionSchema.Type
+
+export const BinaryDiffSchema = Schema.Struct({
+  type: Schema.Literal("binary"),
+  from: Schema.NullOr(BlobVersionSchema), // null if the file didn't exist yet
+  to: Schema.NullOr(BlobVersionSchema),
+  changed: Schema.Boolean,
+  sizeDelta: Schema.Number,
+})
+
+export type BinaryDiff = typeof BinaryDiffSchema.Type
+
 export const FileHistoryResultSchema = Schema.Struct({
   type: Schema.Literal("file"),
   path: Schema.String,
@@ -66,9 +224,34 @@ export const RootHistoryResultSchema = Schema.Struct({
   operationLog: Schema.Array(Schema.Unknown),
 })
 
+export const LineageEventSchema = Schema.Struct({
+  event: Schema.Literal("created", "copied", "renamed"),
+  path: Schema.String,
+  from: Schema.NullOr(Schema.String),
+  hash: Schema.String, // root doc change that recorded the event
+  timestamp: Schema.Number,
+})
+
+export type LineageEvent = typeof LineageEventSchema.Type
+
+export const FileLineageSchema = Schema.Struct({
+  id: Schema.NullOr(Schema.String),
+  lineage: Schema.Array(LineageEventSchema),
+  history: Schema.Array(Schema.Unknown),
+})
+
+export type FileLineage = typeof FileLineageSchema.Type
+
+export const FollowHistoryResultSchema = Schema.Struct({
+  type: Schema.Literal("follow"),
+  path: Schema.String,
+  ...FileLineageSchema.fields,
+})
+
 export const HistoryResultSchema = Schema.Union(
   FileHistoryResultSchema,
-  RootHistoryResultSchema
+  RootHistoryResultSchema,
+  FollowHistoryResultSchema
 )
 
 export type HistoryResult = typeof HistoryResultSchema.Type
@@ -85,6 +268,7 @@ export const ServiceStatusSchema = Schema.Struct({
   version: Schema.String,
   uptime: Schema.Number,
   dataDir: Schema.String,
+  encrypted: Schema.Boolean,
   documents: Schema.Number,
   blobs: Schema.Number,
   memory: MemoryInfoSchema,
@@ -92,6 +276,12 @@ export const ServiceStatusSchema = Schema.Struct({
 
 export type ServiceStatus = typeof ServiceStatusSchema.Type
 
+export const CancelResultSchema = Schema.Struct({
+  cancelled: Schema.Boolean, // false if the request had already finished
+})
+
+export type CancelResult = typeof CancelResultSchema.Type
+
 // =============================================================================
 // RPC Message Schema
 // =============================================================================
@@ -104,56 +294,237 @@ export const RpcRequestSchema = Schema.Struct({
 
 export type RpcRequest = typeof RpcRequestSchema.Type
 
+export const ParamIssueSchema = Schema.Struct({
+  path: Schema.String, // dotted path to the offending field, "" for the whole params
+  message: Schema.String,
+})
+
+export type ParamIssue = typeof ParamIssueSchema.Type
+
+/**
+ * A failed call. Tagged errors carry their `_tag` and constructor fields in
+ * `data` (an Error cause becomes `{ message, code }`), so the client can
+ * rebuild the same class; anything else is just a message.
+ */
+export const RpcErrorSchema = Schema.Struct({
+  message: Schema.String,
+  code: Schema.optional(Schema.String), // errno-style: ENOENT, EISDIR, EINVAL, ...
+  _tag: Schema.optional(Schema.String),
+  data: Schema.optional(Schema.Record({ key: Schema.String, value: Schema.Unknown })),
+  issues: Schema.optional(Schema.Array(ParamIssueSchema)), // invalid params only
+})
+
+export type RpcErrorPayload = typeof RpcErrorSchema.Type
+
 export const RpcResponseSchema = Schema.Struct({
   id: Schema.Number,
   result: Schema.optional(Schema.Unknown),
-  error: Schema.optional(Schema.Struct({
-    message: Schema.String,
-    code: Schema.optional(Schema.String),
-  })),
+  error: Schema.optional(RpcErrorSchema),
 })
 
 export type RpcResponse = typeof RpcResponseSchema.Type
 
+/**
+ * Sent ahead of the response to a streaming request (`bash` with `stream`),
+ * carrying the request's id.
+ */
+export const RpcNotificationSchema = Schema.Struct({
+  id: Schema.Number,
+  chunk: BashChunkSchema,
+})
+
+export type RpcNotification = typeof RpcNotificationSchema.Type
+
 // =============================================================================
 // Method Parameter Schemas
 // =============================================================================
 
-export const ReadParams = Schema.Struct({ path: Schema.String })
+// Descriptions double as the MCP tool parameter docs (see mcp/tools.ts)
+
+const AtHeads = Schema.optional(
+  Schema.Array(Schema.String).annotations({
+    description:
+      "Root document heads (from snapshot) to read the filesystem as of; omit for the current state",
+  })
+)
+
+export const ReadParams = Schema.Struct({
+  path: Schema.String.annotations({ description: "Absolute path to the file" }),
+  at: AtHeads,
+  offset: Schema.optional(
+    Schema.Int.pipe(Schema.positive()).annotations({
+      description: "1-based line number to start reading from",
+    })
+  ),
+  limit: Schema.optional(
+    Schema.Int.pipe(Schema.positive()).annotations({
+      description: "Maximum number of lines to read",
+    })
+  ),
+  lineNumbers: Schema.optional(
+    Schema.Boolean.annotations({
+      description: "Prefix each line with its line number (cat -n format)",
+    })
+  ),
+})
 export const WriteParams = Schema.Struct({
-  path: Schema.String,
-  content: Schema.String,
-  encoding: Schema.optional(Schema.Literal("utf-8", "base64")),
+  path: Schema.String.annotations({ description: "Absolute path to the file" }),
+  content: Schema.String.annotations({ description: "Content to write" }),
+  encoding: Schema.optional(
+    Schema.Literal("utf-8", "base64").annotations({
+      description: "Content encoding (default: utf-8)",
+    })
+  ),
 })
 export const AppendParams = Schema.Struct({
   path: Schema.String,
   content: Schema.String,
 })
-export const StatParams = Schema.Struct({ path: Schema.String })
-export const ReaddirParams = Schema.Struct({ path: Schema.String })
+export const MultiEditParams = Schema.Struct({
+  path: Schema.String.annotations({ description: "Absolute path to the file" }),
+  edits: Schema.Array(FileEditSchema),
+})
+export const StatParams = Schema.Struct({
+  path: Schema.String.annotations({ description: "Absolute path to stat" }),
+  at: AtHeads,
+})
+export const ReaddirParams = Schema.Struct({
+  path: Schema.String.annotations({ description: "Absolute path to the directory" }),
+  at: AtHeads,
+})
 export const MkdirParams = Schema.Struct({
-  path: Schema.String,
-  recursive: Schema.optional(Schema.Boolean),
+  path: Schema.String.annotations({ description: "Absolute path for the new directory" }),
+  recursive: Schema.optional(
+    Schema.Boolean.annotations({
+      description: "Create parent directories if needed",
+    })
+  ),
+})
+export const RmParams = Schema.Struct({
+  path: Schema.String.annotations({ description: "Absolute path to the file to remove" }),
+})
+export const ExistsParams = Schema.Struct({
+  path: Schema.String.annotations({ description: "Absolute path to check" }),
+  at: AtHeads,
 })
-export const RmParams = Schema.Struct({ path: Schema.String })
-export const ExistsParams = Schema.Struct({ path: Schema.String })
 export const RenameParams = Schema.Struct({
-  oldPath: Schema.String,
-  newPath: Schema.String,
+  oldPath: Schema.String.annotations({ description: "Current path" }),
+  newPath: Schema.String.annotations({ description: "Destination path" }),
 })
 export const CopyParams = Schema.Struct({
-  src: Schema.String,
-  dest: Schema.String,
+  src: Schema.String.annotations({ description: "Source path" }),
+  dest: Schema.String.annotations({ description: "Destination path" }),
+})
+export const GlobParams = Schema.Struct({
+  pattern: Schema.String.annotations({
+    description: "Glob pattern; relative patterns match below path",
+  }),
+  path: Schema.optional(
+    Schema.String.annotations({
+      description: "Directory to search in (default: /)",
+    })
+  ),
+})
+export const GrepParams = Schema.Struct({
+  pattern: Schema.String.annotations({ description: "Regular expression to search for" }),
+  path: Schema.optional(
+    Schema.String.annotations({ description: "File or directory to search in (default: /)" })
+  ),
+  include: Schema.optional(
+    Schema.String.annotations({
+      description: "Only search files matching this glob (e.g. \"*.ts\")",
+    })
+  ),
+  outputMode: Schema.optional(
+    GrepOutputModeSchema.annotations({
+      description:
+        "files_with_matches (default) lists paths, count gives matches per file, content shows matching lines",
+    })
+  ),
+  context: Schema.optional(
+    Schema.Number.annotations({ description: "Lines of context around each match (content mode)" })
+  ),
+  ignoreCase: Schema.optional(
+    Schema.Boolean.annotations({
+      description: "Case-insensitive search",
+    })
+  ),
 })
 export const BashParams = Schema.Struct({
-  command: Schema.String,
-  cwd: Schema.optional(Schema.String),
+  command: Schema.String.annotations({ description: "Bash command to execute" }),
+  cwd: Schema.optional(
+    Schema.String.annotations({
+      description: "Working directory (default: /)",
+    })
+  ),
+  stream: Schema.optional(
+    Schema.Boolean.annotations({
+      description: "Send stdout/stderr chunks as notifications before the result",
+    })
+  ),
+  timeoutMs: Schema.optional(
+    Schema.Positive.annotations({
+      description: "Stop the command after this many milliseconds (default: the daemon's --bash-timeout, 120000 unless set)",
+    })
+  ),
 })
 export const SnapshotParams = Schema.Struct({
-  name: Schema.optional(Schema.String),
+  name: Schema.optional(
+    Schema.String.annotations({ description: "Optional snapshot name (saves the snapshot)" })
+  ),
+})
+export const RestoreParams = Schema.Struct({
+  heads: Schema.optional(
+    Schema.Array(Schema.String).annotations({
+      description: "Root document heads returned by snapshot",
+    })
+  ),
+  name: Schema.optional(
+    Schema.String.annotations({ description: "Name of a saved snapshot (instead of heads)" })
+  ),
+})
+export const ListSnapshotsParams = Schema.Struct({})
+export const GetSnapshotParams = Schema.Struct({
+  name: Schema.String.annotations({ description: "Snapshot name" }),
+})
+export const DeleteSnapshotParams = Schema.Struct({
+  name: Schema.String.annotations({ description: "Snapshot name" }),
+})
+export const DumpParams = Schema.Struct({ dataDir: Schema.String })
+export const ExportBundleParams = Schema.Struct({ path: Schema.String })
+export const ImportBundleParams = Schema.Struct({
+  path: Schema.String,
+  force: Schema.optional(Schema.Boolean),
+})
+export const ExportArchiveParams = Schema.Struct({
+  path: Schema.String,
+  format: Schema.optional(ArchiveFormatSchema),
+  root: Schema.optional(Schema.String),
+})
+export const ImportArchiveParams = Schema.Struct({
+  path: Schema.String,
+  dest: Schema.optional(Schema.String),
+})
+export const FsckParams = Schema.Struct({
+  repair: Schema.optional(Schema.Boolean),
+  // With repair: also empty files whose content is gone (loses it for good)
+  truncateLost: Schema.optional(Schema.Boolean),
+})
+export const GcParams = Schema.Struct({
+  dryRun: Schema.optional(Schema.Boolean),
+  retain: Schema.optional(BlobRetentionSchema),
 })
 export const HistoryParams = Schema.Struct({
-  path: Schema.optional(Schema.String),
+  path: Schema.optional(
+    Schema.String.annotations({
+      description: "File path (omit for root history)",
+    })
+  ),
+  follow: Schema.optional(
+    Schema.Boolean.annotations({
+      description: "Follow the file across renames and copies (requires path)",
+    })
+  ),
 })
 export const GetFileAtParams = Schema.Struct({
   path: Schema.String,
@@ -161,10 +532,15 @@ export const GetFileAtParams = Schema.Struct({
 })
 export const StatusParams = Schema.Struct({})
 export const ShutdownParams = Schema.Struct({})
+export const CancelParams = Schema.Struct({
+  id: Schema.Number.annotations({
+    description: "Id of an in-flight request on the same connection",
+  }),
+})
 export const DiffParams = Schema.Struct({
-  path: Schema.String,
-  fromHeads: Schema.Array(Schema.String),
-  toHeads: Schema.Array(Schema.String),
+  path: Schema.String.annotations({ description: "File path to diff" }),
+  fromHeads: Schema.Array(Schema.String).annotations({ description: "Starting version heads" }),
+  toHeads: Schema.Array(Schema.String).annotations({ description: "Ending version heads" }),
 })
 export const GetFileHeadsParams = Schema.Struct({ path: Schema.String })
 
@@ -175,6 +551,7 @@ export const GetFileHeadsParams = Schema.Struct({ path: Schema.String })
 export type ReadParamsType = typeof ReadParams.Type
 export type WriteParamsType = typeof WriteParams.Type
 export type AppendParamsType = typeof AppendParams.Type
+export type MultiEditParamsType = typeof MultiEditParams.Type
 export type StatParamsType = typeof StatParams.Type
 export type ReaddirParamsType = typeof ReaddirParams.Type
 export type MkdirParamsType = typeof MkdirParams.Type
@@ -182,11 +559,26 @@ export type RmParamsType = typeof RmParams.Type
 export type ExistsParamsType = typeof ExistsParams.Type
 export type RenameParamsType = typeof RenameParams.Type
 export type CopyParamsType = typeof CopyParams.Type
+export type GlobParamsType = typeof GlobParams.Type
+export type GrepParamsType = typeof GrepParams.Type
+export type GrepOptions = Omit<GrepParamsType, "pattern">
 export type BashParamsType = typeof BashParams.Type
 export type SnapshotParamsType = typeof SnapshotParams.Type
+export type RestoreParamsType = typeof RestoreParams.Type
+export type ListSnapshotsParamsType = typeof ListSnapshotsParams.Type
+export type GetSnapshotParamsType = typeof GetSnapshotParams.Type
+export type DeleteSnapshotParamsType = typeof DeleteSnapshotParams.Type
+export type GcParamsType = typeof GcParams.Type
+export type DumpParamsType = typeof DumpParams.Type
+export type FsckParamsType = typeof FsckParams.Type
+export type ExportBundleParamsType = typeof ExportBundleParams.Type
+export type ImportBundleParamsType = typeof ImportBundleParams.Type
+export type ExportArchiveParamsType = typeof ExportArchiveParams.Type
+export type ImportArchiveParamsType = typeof ImportArchiveParams.Type
 export type HistoryParamsType = typeof HistoryParams.Type
 export type GetFileAtParamsType = typeof GetFileAtParams.Type
 export type StatusParamsType = typeof StatusParams.Type
 export type ShutdownParamsType = typeof ShutdownParams.Type
+export type CancelParamsType = typeof CancelParams.Type
 export type DiffParamsType = typeof DiffParams.Type
 export type GetFileHeadsParamsType = typeof GetFileHeadsParams.Type
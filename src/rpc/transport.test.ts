@@ -1,5 +1,14 @@
 import { test, expect, describe } from "bun:test";
-import { RpcRequest, RpcResponse } from "./schema";
+import { Deferred, Effect } from "effect";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FileNotFoundError, FileWriteError } from "../errors";
+import type { AutomergeFsService } from "../services/AutomergeFs";
+import type { BashExecOptions, BashExecutorService } from "../services/BashExecutor";
+import { createClient } from "./client";
+import { makeRouter, type AmfsRouter } from "./router";
+import { RpcRequest, RpcResponse, type BashChunk } from "./schema";
+import { makeServerConnection, type ServerConnection } from "./transport";
 
 describe("RPC Transport Message Format", () => {
   test("RPC request serializes to JSON with newline", () => {
@@ -118,3 +127,243 @@ describe("RPC Transport Message Format", () => {
     expect(req3.id).toBe(3);
   });
 });
+
+const withServer = async <A>(router: AmfsRouter, fn: (socketPath: string) => Promise<A>) => {
+  const socketPath = join(tmpdir(), `amfs-transport-${process.pid}-${Date.now()}.sock`);
+  const connections = new Map<unknown, ServerConnection>();
+  const server = Bun.listen({
+    unix: socketPath,
+    socket: {
+      async open(socket) {
+        connections.set(socket, await Effect.runPromise(makeServerConnection(socket, router)));
+      },
+      data(socket, data) {
+        void Effect.runPromise(connections.get(socket)!.onData(data));
+      },
+      close(socket) {
+        void Effect.runPromise(connections.get(socket)!.onClose());
+      },
+    },
+  });
+  try {
+    return await fn(socketPath);
+  } finally {
+    server.stop(true);
+  }
+};
+
+describe("Errors over the socket", () => {
+  const router = makeRouter({
+    fsService: {
+      readFile: (path: string) => Effect.fail(new FileNotFoundError({ path })),
+      writeFile: (path: string) =>
+        Effect.fail(new FileWriteError({ path, cause: new Error("EISDIR: illegal operation") })),
+    } as unknown as AutomergeFsService,
+    bashService: {} as BashExecutorService,
+    dataDir: "/tmp/amfs",
+    encrypted: false,
+    startTime: Date.now(),
+  });
+
+  test("tagged errors arrive as the same class", async () => {
+    const tag = await withServer(router, (socketPath) =>
+      Effect.runPromise(
+        Effect.scoped(
+          Effect.gen(function* () {
+            const client = yield* Effect.acquireRelease(createClient(socketPath), (c) => c.close());
+            return yield* client.read("/missing").pipe(
+              Effect.as("read"),
+              Effect.catchTag("FileNotFoundError", (error) => Effect.succeed(`caught ${error.path}`)),
+            );
+          }),
+        ),
+      ),
+    );
+    expect(tag).toBe("caught /missing");
+  });
+
+  test("errors keep their code and cause", async () => {
+    const error = await withServer(router, (socketPath) =>
+      Effect.runPromise(
+        Effect.scoped(
+          Effect.gen(function* () {
+            const client = yield* Effect.acquireRelease(createClient(socketPath), (c) => c.close());
+            return yield* Effect.flip(client.write("/dir", "x"));
+          }),
+        ),
+      ),
+    );
+    expect(error).toBeInstanceOf(FileWriteError);
+    expect((error as FileWriteError).cause).toMatchObject({ code: "EISDIR" });
+  });
+});
+
+describe("Request order", () => {
+  const files = new Map<string, string>();
+  const router = makeRouter({
+    fsService: {
+      // Slower than the read that follows it
+      writeFile: (path: string, content: string) =>
+        Effect.sleep(50).pipe(Effect.andThen(Effect.sync(() => void files.set(path, content)))),
+      readFile: (path: string) =>
+        Effect.sync(() => new TextEncoder().encode(files.get(path) ?? "")),
+    } as unknown as AutomergeFsService,
+    bashService: {} as BashExecutorService,
+    dataDir: "/tmp/amfs",
+    encrypted: false,
+    startTime: Date.now(),
+  });
+
+  test("pipelined requests run in the order they were sent", async () => {
+    const [, read] = await withServer(router, (socketPath) =>
+      Effect.runPromise(
+        Effect.scoped(
+          Effect.gen(function* () {
+            const client = yield* Effect.acquireRelease(createClient(socketPath), (c) => c.close());
+            return yield* Effect.all([client.write("/a.txt", "new"), client.read("/a.txt")], {
+              concurrency: "unbounded",
+            });
+          }),
+        ),
+      ),
+    );
+    expect(read.content).toBe("new");
+  });
+
+  test("a request cancelled while queued is answered without running", async () => {
+    files.clear();
+    const sent: RpcResponse[] = [];
+    const connection = await Effect.runPromise(
+      makeServerConnection(
+        { write: (data) => void sent.push(JSON.parse(data)), end: () => {} },
+        router,
+      ),
+    );
+    const lines = [
+      { id: 1, method: "write", params: { path: "/a.txt", content: "first" } },
+      { id: 2, method: "write", params: { path: "/b.txt", content: "queued" } },
+      { id: 3, method: "cancel", params: { id: 2 } },
+    ];
+    await Effect.runPromise(
+      connection.onData(lines.map((line) => JSON.stringify(line) + "\n").join("")),
+    );
+    await Bun.sleep(150);
+    await Effect.runPromise(connection.onClose());
+
+    expect(sent.find((r) => r.id === 3)?.result).toEqual({ cancelled: true });
+    expect(sent.find((r) => r.id === 2)?.error).toMatchObject({
+      _tag: "RequestCancelledError",
+      code: "ECANCELED",
+    });
+    expect(files.has("/a.txt")).toBe(true);
+    expect(files.has("/b.txt")).toBe(false);
+  });
+});
+
+describe("Bash over the socket", () => {
+  const execOptions: Array<BashExecOptions | undefined> = [];
+  const stopped = Effect.runSync(Deferred.make<void>());
+  const abandoned = Effect.runSync(Deferred.make<void>());
+  const router = makeRouter({
+    fsService: {} as AutomergeFsService,
+    bashService: {
+      exec: (command, options) => {
+        execOptions.push(options);
+        if (command === "hang") {
+          return Effect.never.pipe(
+            Effect.onInterrupt(() => Deferred.succeed(stopped, undefined)),
+          );
+        }
+        if (command === "linger") {
+          return Effect.never.pipe(
+            Effect.onInterrupt(() => Deferred.succeed(abandoned, undefined)),
+          );
+        }
+        return Effect.gen(function* () {
+          yield* options?.onOutput?.({ stream: "stdout", data: "one\n" }) ?? Effect.void;
+          yield* options?.onOutput?.({ stream: "stderr", data: "two\n" }) ?? Effect.void;
+          return { stdout: "one\n", stderr: "two\n", exitCode: 3 };
+        });
+      },
+    } as BashExecutorService,
+    dataDir: "/tmp/amfs",
+    encrypted: false,
+    startTime: Date.now(),
+  });
+
+  const runBash = (socketPath: string, onOutput?: (chunk: BashChunk) => void) =>
+    Effect.runPromise(
+      Effect.scoped(
+        Effect.gen(function* () {
+          const client = yield* Effect.acquireRelease(createClient(socketPath), (c) => c.close());
+          return yield* client.bash("run", {}, onOutput);
+        }),
+      ),
+    );
+
+  test("chunks arrive in order before the result", async () => {
+    const events: unknown[] = [];
+    const result = await withServer(router, (socketPath) =>
+      runBash(socketPath, (chunk) => events.push(chunk)).then((result) => {
+        events.push(result.exitCode);
+        return result;
+      }),
+    );
+    expect(events).toEqual([
+      { stream: "stdout", data: "one\n" },
+      { stream: "stderr", data: "two\n" },
+      3,
+    ]);
+    expect(result.stdout).toBe("one\n");
+  });
+
+  test("output is only streamed when asked for", async () => {
+    await withServer(router, (socketPath) => runBash(socketPath));
+    expect(execOptions.at(-1)?.onOutput).toBeUndefined();
+  });
+
+  test("the result and options make the round trip", async () => {
+    const result = await withServer(router, (socketPath) =>
+      Effect.runPromise(
+        Effect.scoped(
+          Effect.gen(function* () {
+            const client = yield* Effect.acquireRelease(createClient(socketPath), (c) => c.close());
+            return yield* client.bash("run", { cwd: "/src", timeoutMs: 500 });
+          }),
+        ),
+      ),
+    );
+    expect(result).toEqual({ stdout: "one\n", stderr: "two\n", exitCode: 3 });
+    expect(execOptions.at(-1)).toEqual({ cwd: "/src", timeoutMs: 500 });
+  });
+
+  test("interrupting a call stops the command in the daemon", async () => {
+    await withServer(router, (socketPath) =>
+      Effect.runPromise(
+        Effect.scoped(
+          Effect.gen(function* () {
+            const client = yield* Effect.acquireRelease(createClient(socketPath), (c) => c.close());
+            yield* client.bash("hang").pipe(Effect.timeout(50), Effect.ignore);
+            yield* Deferred.await(stopped);
+          }),
+        ).pipe(Effect.timeout(2000)),
+      ),
+    );
+    expect(Effect.runSync(Deferred.isDone(stopped))).toBe(true);
+  });
+
+  test("closing the connection stops its running command", async () => {
+    await withServer(router, (socketPath) =>
+      Effect.runPromise(
+        Effect.gen(function* () {
+          const client = yield* createClient(socketPath);
+          yield* Effect.fork(client.bash("linger"));
+          yield* Effect.sleep(50);
+          yield* client.close();
+          yield* Deferred.await(abandoned);
+        }).pipe(Effect.timeout(2000)),
+      ),
+    );
+    expect(Effect.runSync(Deferred.isDone(abandoned))).toBe(true);
+  });
+});
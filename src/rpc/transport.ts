@@ -4,34 +4,172 @@
  * Provides a simple JSON-over-newline transport for Unix domain sockets.
  */
 
-import { Effect, Ref, Schema, Scope } from "effect"
+import { Deferred, Effect, Exit, Queue, Ref, Schema, Scope } from "effect"
 import type * as Socket from "@effect/platform/Socket"
-import { TransportError } from "../errors"
-import type { AmfsRouter } from "./router"
-import { RpcRequestSchema, type RpcRequest, type RpcResponse } from "./schema"
+import {
+  InvalidParamsError,
+  RequestCancelledError,
+  TransportError,
+  describeError,
+  errorCode,
+  type AmfsError,
+} from "../errors"
+import type { RpcErrorClasses } from "./methods"
+import type { AmfsRouter, RequestContext } from "./router"
+import {
+  RpcRequestSchema,
+  type BashChunk,
+  type RpcErrorPayload,
+  type RpcNotification,
+  type RpcRequest,
+  type RpcResponse,
+} from "./schema"
 
 // =============================================================================
-// Server Transport
+// Error Serialization
 // =============================================================================
 
-export interface ServerConnection {
-  onData: (data: Buffer | string) => Effect.Effect<void>
-  onClose: (error?: Error) => Effect.Effect<void>
+/**
+ * Turn a handler failure into the error half of an RpcResponse. Tagged
+ * errors keep their tag and fields so `fromRpcError` can rebuild them.
+ */
+export const toRpcError = (error: unknown): RpcErrorPayload => {
+  const payload = { message: describeError(error), code: errorCode(error) }
+  if (!isTaggedError(error)) return payload
+  return {
+    ...payload,
+    _tag: error._tag,
+    data: errorFields(error),
+    issues: error instanceof InvalidParamsError ? error.issues : undefined,
+  }
 }
 
 /**
- * Creates a server connection handler for a single client socket.
- * Processes incoming RPC requests through the router.
+ * Rebuild a tagged error from the error half of an RpcResponse, if its tag
+ * is one of `classes`. Error causes come back as plain Errors with their
+ * message and code.
  */
-export const makeServerConnection = (
-  socket: { write: (data: string) => void; end: () => void },
-  router: AmfsRouter
-): Effect.Effect<ServerConnection> =>
+export const fromRpcError = (
+  payload: RpcErrorPayload,
+  classes: RpcErrorClasses
+): AmfsError | undefined => {
+  const tag = payload._tag
+  if (tag === undefined || !Object.hasOwn(classes, tag)) return undefined
+  const fields: Record<string, unknown> = { ...payload.data }
+  if (isSerializedError(fields.cause)) {
+    const { message, code } = fields.cause
+    fields.cause = Object.assign(new Error(message), code === undefined ? {} : { code })
+  }
+  const error = new classes[tag]!(fields as never)
+  return error._tag === tag ? error : undefined
+}
+
+const isTaggedError = (error: unknown): error is Error & { readonly _tag: string } =>
+  error instanceof Error && "_tag" in error && typeof error._tag === "string"
+
+// Constructor fields of a tagged error, JSON-safe
+const errorFields = (error: Error): Record<string, unknown> => {
+  const fields: Record<string, unknown> = {}
+  // Data.Error hands `message` and `cause` to the Error constructor, which
+  // makes them non-enumerable
+  const entries = Object.entries({ ...error, message: error.message || undefined, cause: error.cause })
+  for (const [key, value] of entries) {
+    if (key === "_tag" || value === undefined) continue
+    fields[key] = value instanceof Error ? serializeError(value) : value
+  }
+  return fields
+}
+
+interface SerializedError {
+  readonly message: string
+  readonly code?: string | undefined
+}
+
+const serializeError = (error: Error): SerializedError => ({
+  message: describeError(error),
+  code: errorCode(error),
+})
+
+const isSerializedError = (value: unknown): value is SerializedError =>
+  typeof value === "object" &&
+  value !== null &&
+  "message" in value &&
+  typeof value.message === "string"
+
+// =============================================================================
+// Server Transport
+// =============================================================================
+
+/**
+ * Runs the requests of one connection through the router one at a time, in
+ * the order they arrive, answering each with `send`. Only `cancel` skips the
+ * queue, so it can reach the request that is running or still waiting; a
+ * waiting request it reaches fails with RequestCancelledError unrun.
+ * Requests are run until the scope closes.
+ */
+const makeRequestRunner = (
+  router: AmfsRouter,
+  send: (message: RpcResponse | RpcNotification) => Effect.Effect<void, unknown>
+): Effect.Effect<(line: string) => Effect.Effect<void>, never, Scope.Scope> =>
   Effect.gen(function* () {
-    const bufferRef = yield* Ref.make("")
-    const closedRef = yield* Ref.make(false)
+    const queue = yield* Queue.unbounded<{
+      request: RpcRequest
+      cancelled: Deferred.Deferred<void>
+    }>()
+    // Requests that are queued or running
+    const inFlight = new Map<number, Deferred.Deferred<void>>()
+
+    const cancel = (id: number) =>
+      Effect.suspend(() => {
+        const cancelled = inFlight.get(id)
+        return cancelled ? Deferred.succeed(cancelled, undefined) : Effect.succeed(false)
+      })
 
-    const processLine = (line: string) =>
+    const run = (request: RpcRequest, cancelled: Effect.Effect<void>) =>
+      Effect.gen(function* () {
+        const { id, method, params } = request
+
+        const context: RequestContext = {
+          // A client that went away is noticed when the response is sent
+          notify: (chunk: BashChunk) => Effect.ignore(send({ id, chunk })),
+          cancelled,
+          cancel,
+        }
+
+        // Process through router
+        const response: RpcResponse = yield* router.handle(method, params, context).pipe(
+          Effect.map((result) => ({ id, result })),
+          Effect.catchAll((error) => Effect.succeed({ id, error: toRpcError(error) }))
+        )
+
+        // Send response
+        yield* send(response)
+      }).pipe(
+        Effect.catchAll((e) =>
+          Effect.sync(() =>
+            console.error("Error processing request:", e)
+          )
+        )
+      )
+
+    // A request cancelled while it waited is answered without running it
+    const skip = ({ id, method }: RpcRequest) =>
+      send({ id, error: toRpcError(new RequestCancelledError({ method })) }).pipe(
+        Effect.catchAll((e) => Effect.sync(() => console.error("Error processing request:", e)))
+      )
+
+    yield* Queue.take(queue).pipe(
+      Effect.flatMap(({ request, cancelled }) =>
+        Effect.if(Deferred.isDone(cancelled), {
+          onTrue: () => skip(request),
+          onFalse: () => run(request, Deferred.await(cancelled)),
+        }).pipe(Effect.ensuring(Effect.sync(() => inFlight.delete(request.id))))
+      ),
+      Effect.forever,
+      Effect.forkScoped
+    )
+
+    return (line: string) =>
       Effect.gen(function* () {
         let request: RpcRequest
         try {
@@ -42,25 +180,40 @@ export const makeServerConnection = (
           return
         }
 
-        const { id, method, params } = request
+        if (request.method === "cancel") {
+          return yield* run(request, Effect.never)
+        }
 
-        // Process through router
-        const result = yield* router.handle(method, params).pipe(
-          Effect.map((result) => ({ id, result })),
-          Effect.catchAll((error) =>
-            Effect.succeed({
-              id,
-              error: {
-                message: error instanceof Error ? error.message : String(error),
-              },
-            })
-          )
-        )
+        const cancelled = yield* Deferred.make<void>()
+        inFlight.set(request.id, cancelled)
+        yield* Queue.offer(queue, { request, cancelled })
+      })
+  })
 
-        // Send response
-        const response: RpcResponse = result
-        socket.write(JSON.stringify(response) + "\n")
+export interface ServerConnection {
+  onData: (data: Buffer | string) => Effect.Effect<void>
+  onClose: (error?: Error) => Effect.Effect<void>
+}
+
+/**
+ * Creates a server connection handler for a single client socket.
+ * Processes incoming RPC requests through the router.
+ */
+export const makeServerConnection = (
+  socket: { write: (data: string) => void; end: () => void },
+  router: AmfsRouter
+): Effect.Effect<ServerConnection> =>
+  Effect.gen(function* () {
+    const bufferRef = yield* Ref.make("")
+    const closedRef = yield* Ref.make(false)
+
+    // Closed by onClose, which interrupts the request being run
+    const scope = yield* Scope.make()
+    const processLine = yield* makeRequestRunner(router, (message) =>
+      Effect.sync(() => {
+        socket.write(JSON.stringify(message) + "\n")
       })
+    ).pipe(Scope.extend(scope))
 
     return {
       onData: (data: Buffer | string) =>
@@ -77,13 +230,7 @@ export const makeServerConnection = (
 
           for (const line of lines) {
             if (line.trim()) {
-              yield* processLine(line).pipe(
-                Effect.catchAll((e) =>
-                  Effect.sync(() =>
-                    console.error("Error processing request:", e)
-                  )
-                )
-              )
+              yield* processLine(line)
             }
           }
         }),
@@ -91,6 +238,7 @@ export const makeServerConnection = (
       onClose: (error?: Error) =>
         Effect.gen(function* () {
           yield* Ref.set(closedRef, true)
+          yield* Scope.close(scope, Exit.void)
           if (error) {
             console.error("Connection error:", error)
           }
@@ -110,34 +258,10 @@ export const handleConnection = (
     const write = yield* socket.writer
     const bufferRef = yield* Ref.make("")
 
-    const processLine = (line: string) =>
-      Effect.gen(function* () {
-        let request: RpcRequest
-        try {
-          const parsed = JSON.parse(line)
-          const decoded = Schema.decodeUnknownSync(RpcRequestSchema)(parsed)
-          request = decoded
-        } catch {
-          return
-        }
-
-        const { id, method, params } = request
-
-        const result = yield* router.handle(method, params).pipe(
-          Effect.map((result) => ({ id, result })),
-          Effect.catchAll((error) =>
-            Effect.succeed({
-              id,
-              error: {
-                message: error instanceof Error ? error.message : String(error),
-              },
-            })
-          )
-        )
-
-        const response: RpcResponse = result
-        yield* write(JSON.stringify(response) + "\n")
-      })
+    // Requests still running when the connection closes are interrupted
+    const processLine = yield* makeRequestRunner(router, (message) =>
+      write(JSON.stringify(message) + "\n")
+    )
 
     yield* socket.run((data: Uint8Array) =>
       Effect.gen(function* () {
@@ -150,13 +274,7 @@ export const handleConnection = (
 
         for (const line of lines) {
           if (line.trim()) {
-            yield* processLine(line).pipe(
-              Effect.catchAll((e) =>
-                Effect.sync(() =>
-                  console.error("Error processing request:", e)
-                )
-              )
-            )
+            yield* processLine(line)
           }
         }
       })
@@ -168,7 +286,16 @@ export const handleConnection = (
 // =============================================================================
 
 export interface ClientConnection {
-  call: <Req, Res>(request: Req) => Effect.Effect<Res, TransportError>
+  /**
+   * Send a request. An error response fails with a TransportError whose
+   * cause is the RpcErrorPayload. Notifications for the request are passed
+   * to `onChunk` as they arrive. Interrupting the call sends a `cancel` for
+   * it.
+   */
+  call: <Req, Res>(
+    request: Req,
+    onChunk?: (chunk: BashChunk) => void
+  ) => Effect.Effect<Res, TransportError>
   close: () => Effect.Effect<void>
 }
 
@@ -182,19 +309,25 @@ export const connectClient = (
     let nextId = 1
     const pending = new Map<
       number,
-      { resolve: (value: unknown) => void; reject: (error: Error) => void }
+      {
+        resolve: (value: unknown) => void
+        reject: (error: TransportError) => void
+        onChunk?: ((chunk: BashChunk) => void) | undefined
+      }
     >()
     let buffer = ""
     let closed = false
 
     const processLine = (line: string) => {
       try {
-        const msg = JSON.parse(line) as RpcResponse
+        const msg = JSON.parse(line) as RpcResponse | RpcNotification
         const handler = pending.get(msg.id)
-        if (handler) {
+        if ("chunk" in msg) {
+          handler?.onChunk?.(msg.chunk)
+        } else if (handler) {
           pending.delete(msg.id)
           if (msg.error) {
-            handler.reject(new Error(msg.error.message))
+            handler.reject(new TransportError({ message: msg.error.message, cause: msg.error }))
           } else {
             handler.resolve(msg.result)
           }
@@ -223,7 +356,7 @@ export const connectClient = (
         },
         open(socket) {
           const connection: ClientConnection = {
-            call: <Req, Res>(request: Req) =>
+            call: <Req, Res>(request: Req, onChunk?: (chunk: BashChunk) => void) =>
               Effect.async<Res, TransportError>((resumeCall) => {
                 if (closed) {
                   resumeCall(
@@ -246,25 +379,29 @@ export const connectClient = (
                 pending.set(id, {
                   resolve: (value) =>
                     resumeCall(Effect.succeed(value as Res)),
-                  reject: (error) =>
-                    resumeCall(
-                      Effect.fail(
-                        new TransportError({
-                          message: error.message,
-                          cause: error,
-                        })
-                      )
-                    ),
+                  reject: (error) => resumeCall(Effect.fail(error)),
+                  onChunk,
                 })
 
                 socket.write(JSON.stringify(msg) + "\n")
+
+                // Interrupting the call cancels the request in the daemon
+                return Effect.sync(() => {
+                  if (!pending.delete(id) || closed) return
+                  const cancel: RpcRequest = {
+                    id: nextId++,
+                    method: "cancel",
+                    params: { _tag: "cancel", id },
+                  }
+                  socket.write(JSON.stringify(cancel) + "\n")
+                })
               }),
 
             close: () =>
               Effect.sync(() => {
                 closed = true
                 for (const [_, handler] of pending) {
-                  handler.reject(new Error("Connection closed"))
+                  handler.reject(new TransportError({ message: "Connection closed" }))
                 }
                 pending.clear()
                 socket.end()
@@ -276,7 +413,7 @@ export const connectClient = (
         close(_socket) {
           closed = true
           for (const [_, handler] of pending) {
-            handler.reject(new Error("Connection closed"))
+            handler.reject(new TransportError({ message: "Connection closed" }))
           }
           pending.clear()
         },
@@ -0,0 +1,67 @@
+import { test, expect, describe } from "bun:test";
+import {
+  encodeArchive,
+  decodeArchive,
+  encodeTar,
+  decodeTar,
+  formatFromPath,
+  formatOf,
+  type ArchiveEntry,
+} from "./Archive";
+
+const mtime = Date.UTC(2024, 0, 2, 3, 4, 6);
+
+const entries: ArchiveEntry[] = [
+  { path: "src", type: "directory", mode: 0o755, mtime },
+  { path: "src/main.ts", type: "file", mode: 0o644, mtime, data: new TextEncoder().encode("x".repeat(2000)) },
+  { path: "src/run.sh", type: "file", mode: 0o755, mtime, data: new TextEncoder().encode("#!/bin/sh\n") },
+  { path: "src/image.bin", type: "file", mode: 0o600, mtime, data: new Uint8Array([0, 255, 1, 254]) },
+  { path: "src/empty", type: "file", mode: 0o644, mtime, data: new Uint8Array() },
+  { path: "link", type: "symlink", mode: 0o777, mtime, target: "src/main.ts" },
+];
+
+describe("formats", () => {
+  test("format follows the file extension", () => {
+    expect(formatFromPath("/tmp/ws.zip")).toBe("zip");
+    expect(formatFromPath("/tmp/ws.TGZ")).toBe("tgz");
+    expect(formatFromPath("/tmp/ws.tar.gz")).toBe("tgz");
+    expect(formatFromPath("/tmp/ws.tar")).toBe("tar");
+    expect(formatFromPath("/tmp/ws")).toBe("tar");
+  });
+
+  for (const format of ["tar", "tgz", "zip"] as const) {
+    test(`${format} round-trips files, directories, symlinks, modes and mtimes`, () => {
+      const data = encodeArchive(format, entries);
+      expect(formatOf(data)).toBe(format);
+      expect(decodeArchive(data)).toEqual(entries);
+    });
+  }
+});
+
+describe("tar", () => {
+  test("long paths and link targets survive", () => {
+    const deep = `${"d".repeat(120)}/${"e".repeat(120)}/${"f".repeat(120)}.txt`;
+    const long: ArchiveEntry[] = [
+      { path: deep, type: "file", mode: 0o644, mtime, data: new Uint8Array([1]) },
+      { path: "l", type: "symlink", mode: 0o777, mtime, target: deep },
+    ];
+    expect(decodeTar(encodeTar(long))).toEqual(long);
+  });
+
+  test("strips ./ prefixes and refuses paths that climb out", () => {
+    const archive = encodeTar([
+      { path: "./a/b.txt", type: "file", mode: 0o644, mtime, data: new Uint8Array([1]) },
+    ]);
+    expect(decodeTar(archive)[0]!.path).toBe("a/b.txt");
+
+    const escaping = encodeTar([
+      { path: "../evil", type: "file", mode: 0o644, mtime, data: new Uint8Array([1]) },
+    ]);
+    expect(() => decodeTar(escaping)).toThrow("Unsafe path");
+  });
+
+  test("rejects a truncated archive", () => {
+    const archive = encodeTar(entries);
+    expect(() => decodeTar(archive.subarray(0, 700))).toThrow("truncated");
+  });
+});
@@ -0,0 +1,464 @@
+/**
+ * tar and zip archives of a file tree
+ *
+ * Just enough of both formats to carry the current files of a filesystem
+ * in and out: regular files, directories and symlinks with their modes and
+ * mtimes. Paths are relative and use "/" separators; directories have no
+ * trailing slash.
+ *
+ * tar is written as ustar, with a pax header for names or link targets
+ * that do not fit, and read with pax and GNU long-name support. mtimes in
+ * tar have one-second resolution. zip entries are deflated when that makes
+ * them smaller and carry unix modes and an extended timestamp; zip64 is not
+ * supported.
+ */
+
+import { gzipSync, gunzipSync, deflateRawSync, inflateRawSync } from "node:zlib"
+
+export type ArchiveFormat = "tar" | "tgz" | "zip"
+
+export interface ArchiveEntry {
+  path: string
+  type: "file" | "directory" | "symlink"
+  mode: number // permission bits only
+  mtime: number // ms since epoch
+  data?: Uint8Array // files
+  target?: string // symlinks
+}
+
+/**
+ * Pick a format from a file name: .zip, .tgz / .tar.gz, else tar.
+ */
+export function formatFromPath(path: string): ArchiveFormat {
+  const lower = path.toLowerCase()
+  if (lower.endsWith(".zip")) return "zip"
+  if (lower.endsWith(".tgz") || lower.endsWith(".tar.gz")) return "tgz"
+  return "tar"
+}
+
+export function encodeArchive(format: ArchiveFormat, entries: ArchiveEntry[]): Uint8Array {
+  if (format === "zip") return encodeZip(entries)
+  const tar = encodeTar(entries)
+  return format === "tgz" ? new Uint8Array(gzipSync(tar)) : tar
+}
+
+/**
+ * Tell the format of an archive from its leading magic bytes.
+ */
+export function formatOf(data: Uint8Array): ArchiveFormat {
+  if (data[0] === 0x50 && data[1] === 0x4b) return "zip"
+  if (data[0] === 0x1f && data[1] === 0x8b) return "tgz"
+  return "tar"
+}
+
+/**
+ * Read a tar (gzipped or not) or zip archive, detected from its content.
+ */
+export function decodeArchive(data: Uint8Array): ArchiveEntry[] {
+  const format = formatOf(data)
+  if (format === "zip") return decodeZip(data)
+  if (format === "tgz") return decodeTar(new Uint8Array(gunzipSync(data)))
+  return decodeTar(data)
+}
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    out.set(part, offset)
+    offset += part.length
+  }
+  return out
+}
+
+// Archives from elsewhere may say "./a/b" or "a/b/" for the same path.
+// ".." could climb out of wherever the archive is extracted, so refuse it.
+function cleanPath(path: string): string {
+  const parts = path.split("/").filter((p) => p && p !== ".")
+  if (parts.includes("..")) throw new Error(`Unsafe path in archive: ${path}`)
+  return parts.join("/")
+}
+
+// =============================================================================
+// tar
+// =============================================================================
+
+const BLOCK = 512
+
+function writeString(header: Uint8Array, offset: number, length: number, value: string): void {
+  header.set(encoder.encode(value).subarray(0, length), offset)
+}
+
+function writeOctal(header: Uint8Array, offset: number, length: number, value: number): void {
+  writeString(header, offset, length, value.toString(8).padStart(length - 1, "0") + "\0")
+}
+
+function paddedToBlock(data: Uint8Array): Uint8Array {
+  const padded = new Uint8Array(Math.ceil(data.length / BLOCK) * BLOCK)
+  padded.set(data)
+  return padded
+}
+
+function tarHeader(fields: {
+  name: string
+  prefix?: string
+  mode: number
+  size: number
+  mtime: number
+  typeflag: string
+  linkname?: string
+}): Uint8Array {
+  const header = new Uint8Array(BLOCK)
+  writeString(header, 0, 100, fields.name)
+  writeOctal(header, 100, 8, fields.mode)
+  writeOctal(header, 108, 8, 0)
+  writeOctal(header, 116, 8, 0)
+  writeOctal(header, 124, 12, fields.size)
+  writeOctal(header, 136, 12, Math.floor(fields.mtime / 1000))
+  writeString(header, 148, 8, "        ")
+  writeString(header, 156, 1, fields.typeflag)
+  writeString(header, 157, 100, fields.linkname ?? "")
+  writeString(header, 257, 6, "ustar\0")
+  writeString(header, 263, 2, "00")
+  writeString(header, 345, 155, fields.prefix ?? "")
+  const checksum = header.reduce((sum, byte) => sum + byte, 0)
+  writeString(header, 148, 8, checksum.toString(8).padStart(6, "0") + "\0 ")
+  return header
+}
+
+// ustar splits long names at a "/" into prefix (155) and name (100)
+function splitUstarName(path: string): { name: string; prefix: string } | null {
+  if (encoder.encode(path).length <= 100) return { name: path, prefix: "" }
+  for (let i = path.indexOf("/"); i !== -1; i = path.indexOf("/", i + 1)) {
+    const prefix = path.slice(0, i)
+    const name = path.slice(i + 1)
+    if (encoder.encode(prefix).length <= 155 && encoder.encode(name).length <= 100) {
+      return { name, prefix }
+    }
+  }
+  return null
+}
+
+function paxRecord(key: string, value: string): string {
+  // The length prefix counts itself
+  const body = ` ${key}=${value}\n`
+  let length = body.length
+  while (String(length).length + encoder.encode(body).length !== length) {
+    length = String(length).length + encoder.encode(body).length
+  }
+  return `${length}${body}`
+}
+
+export function encodeTar(entries: ArchiveEntry[]): Uint8Array {
+  const parts: Uint8Array[] = []
+  for (const entry of entries) {
+    const path = entry.type === "directory" ? `${entry.path}/` : entry.path
+    const data = entry.type === "file" ? (entry.data ?? new Uint8Array()) : new Uint8Array()
+    const target = entry.target ?? ""
+
+    const split = splitUstarName(path)
+    const longTarget = encoder.encode(target).length > 100
+    if (!split || longTarget) {
+      const pax = encoder.encode(
+        (split ? "" : paxRecord("path", path)) + (longTarget ? paxRecord("linkpath", target) : "")
+      )
+      parts.push(
+        tarHeader({ name: "PaxHeader", mode: 0o644, size: pax.length, mtime: entry.mtime, typeflag: "x" }),
+        paddedToBlock(pax)
+      )
+    }
+
+    parts.push(
+      tarHeader({
+        name: split?.name ?? path.slice(-100),
+        prefix: split?.prefix,
+        mode: entry.mode,
+        size: data.length,
+        mtime: entry.mtime,
+        typeflag: entry.type === "directory" ? "5" : entry.type === "symlink" ? "2" : "0",
+        linkname: longTarget ? "" : target,
+      }),
+      paddedToBlock(data)
+    )
+  }
+  parts.push(new Uint8Array(BLOCK * 2))
+  return concat(parts)
+}
+
+function readString(block: Uint8Array, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length)
+  const end = field.indexOf(0)
+  return decoder.decode(end === -1 ? field : field.subarray(0, end))
+}
+
+function readOctal(block: Uint8Array, offset: number, length: number): number {
+  const text = readString(block, offset, length).trim()
+  return text ? parseInt(text, 8) : 0
+}
+
+// Overrides for the next entry's header fields, from pax or GNU headers
+interface TarOverrides {
+  path?: string
+  linkpath?: string
+  mtime?: number
+}
+
+function parsePax(data: Uint8Array): TarOverrides {
+  const records: Record<string, string> = {}
+  for (const line of decoder.decode(data).split("\n")) {
+    const match = /^\d+ ([^=]+)=(.*)$/s.exec(line)
+    if (match) records[match[1]!] = match[2]!
+  }
+  return {
+    ...(records.path !== undefined && { path: records.path }),
+    ...(records.linkpath !== undefined && { linkpath: records.linkpath }),
+    ...(records.mtime !== undefined && { mtime: Math.round(parseFloat(records.mtime) * 1000) }),
+  }
+}
+
+function tarEntry(
+  header: Uint8Array,
+  body: Uint8Array,
+  overrides: TarOverrides
+): ArchiveEntry | null {
+  const prefix = readString(header, 345, 155)
+  const name = readString(header, 0, 100)
+  const path = cleanPath(overrides.path ?? (prefix ? `${prefix}/${name}` : name))
+  if (!path) return null
+  const base = {
+    path,
+    mode: readOctal(header, 100, 8) & 0o7777,
+    mtime: overrides.mtime ?? readOctal(header, 136, 12) * 1000,
+  }
+
+  switch (readString(header, 156, 1)) {
+    case "0":
+    case "":
+    case "7":
+      return { ...base, type: "file", data: body.slice() }
+    case "5":
+      return { ...base, type: "directory" }
+    case "2":
+      return { ...base, type: "symlink", target: overrides.linkpath ?? readString(header, 157, 100) }
+    default:
+      // Hard links, devices and FIFOs have no equivalent and are skipped
+      return null
+  }
+}
+
+export function decodeTar(data: Uint8Array): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = []
+  let overrides: TarOverrides = {}
+  let offset = 0
+
+  while (offset < data.length) {
+    if (offset + BLOCK > data.length) throw new Error("tar archive is truncated")
+    const header = data.subarray(offset, offset + BLOCK)
+    if (header.every((byte) => byte === 0)) break
+
+    const size = readOctal(header, 124, 12)
+    const body = data.subarray(offset + BLOCK, offset + BLOCK + size)
+    if (body.length < size) throw new Error("tar archive is truncated")
+    offset += BLOCK + Math.ceil(size / BLOCK) * BLOCK
+
+    const typeflag = readString(header, 156, 1)
+    if (typeflag === "x") {
+      overrides = { ...overrides, ...parsePax(body) }
+    } else if (typeflag === "L") {
+      overrides = { ...overrides, path: readString(body, 0, body.length) }
+    } else if (typeflag === "K") {
+      overrides = { ...overrides, linkpath: readString(body, 0, body.length) }
+    } else {
+      const entry = tarEntry(header, body, overrides)
+      if (entry) entries.push(entry)
+      overrides = {}
+    }
+  }
+  return entries
+}
+
+// =============================================================================
+// zip
+// =============================================================================
+
+const S_IFDIR = 0o040000
+const S_IFREG = 0o100000
+const S_IFLNK = 0o120000
+
+function dosDateTime(ms: number): { time: number; date: number } {
+  const d = new Date(ms)
+  const year = Math.max(d.getFullYear(), 1980)
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+  }
+}
+
+function fromDosDateTime(time: number, date: number): number {
+  return new Date(
+    (date >> 9) + 1980,
+    ((date >> 5) & 0xf) - 1,
+    date & 0x1f,
+    time >> 11,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  ).getTime()
+}
+
+// Extended timestamp extra field: flags (mtime present) + unix seconds
+function timestampExtra(mtime: number): Uint8Array {
+  const extra = new Uint8Array(9)
+  const view = new DataView(extra.buffer)
+  view.setUint16(0, 0x5455, true)
+  view.setUint16(2, 5, true)
+  view.setUint8(4, 1)
+  view.setUint32(5, Math.floor(mtime / 1000), true)
+  return extra
+}
+
+export function encodeZip(entries: ArchiveEntry[]): Uint8Array {
+  const locals: Uint8Array[] = []
+  const centrals: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.type === "directory" ? `${entry.path}/` : entry.path)
+    const raw =
+      entry.type === "file"
+        ? (entry.data ?? new Uint8Array())
+        : entry.type === "symlink"
+          ? encoder.encode(entry.target ?? "")
+          : new Uint8Array()
+    const deflated = raw.length > 0 ? new Uint8Array(deflateRawSync(raw)) : raw
+    const method = deflated.length < raw.length ? 8 : 0
+    const stored = method === 8 ? deflated : raw
+    const crc = Bun.hash.crc32(raw)
+    const { time, date } = dosDateTime(entry.mtime)
+    const extra = timestampExtra(entry.mtime)
+    const typeBits = entry.type === "directory" ? S_IFDIR : entry.type === "symlink" ? S_IFLNK : S_IFREG
+
+    const local = new Uint8Array(30 + name.length + extra.length)
+    const lv = new DataView(local.buffer)
+    lv.setUint32(0, 0x04034b50, true)
+    lv.setUint16(4, 20, true)
+    lv.setUint16(6, 0x0800, true) // UTF-8 names
+    lv.setUint16(8, method, true)
+    lv.setUint16(10, time, true)
+    lv.setUint16(12, date, true)
+    lv.setUint32(14, crc, true)
+    lv.setUint32(18, stored.length, true)
+    lv.setUint32(22, raw.length, true)
+    lv.setUint16(26, name.length, true)
+    lv.setUint16(28, extra.length, true)
+    local.set(name, 30)
+    local.set(extra, 30 + name.length)
+    locals.push(local, stored)
+
+    const central = new Uint8Array(46 + name.length + extra.length)
+    const cv = new DataView(central.buffer)
+    cv.setUint32(0, 0x02014b50, true)
+    cv.setUint16(4, (3 << 8) | 30, true) // made by unix, spec 3.0
+    cv.setUint16(6, 20, true)
+    cv.setUint16(8, 0x0800, true)
+    cv.setUint16(10, method, true)
+    cv.setUint16(12, time, true)
+    cv.setUint16(14, date, true)
+    cv.setUint32(16, crc, true)
+    cv.setUint32(20, stored.length, true)
+    cv.setUint32(24, raw.length, true)
+    cv.setUint16(28, name.length, true)
+    cv.setUint16(30, extra.length, true)
+    cv.setUint32(38, (((typeBits | entry.mode) << 16) | (entry.type === "directory" ? 0x10 : 0)) >>> 0, true)
+    cv.setUint32(42, offset, true)
+    central.set(name, 46)
+    central.set(extra, 46 + name.length)
+    centrals.push(central)
+
+    offset += local.length + stored.length
+  }
+
+  const directory = concat(centrals)
+  const end = new Uint8Array(22)
+  const ev = new DataView(end.buffer)
+  ev.setUint32(0, 0x06054b50, true)
+  ev.setUint16(8, entries.length, true)
+  ev.setUint16(10, entries.length, true)
+  ev.setUint32(12, directory.length, true)
+  ev.setUint32(16, offset, true)
+  return concat([...locals, directory, end])
+}
+
+function readTimestampExtra(extra: Uint8Array): number | undefined {
+  const view = new DataView(extra.buffer, extra.byteOffset, extra.byteLength)
+  for (let i = 0; i + 4 <= extra.length; ) {
+    const id = view.getUint16(i, true)
+    const size = view.getUint16(i + 2, true)
+    if (id === 0x5455 && size >= 5 && (view.getUint8(i + 4) & 1)) {
+      return view.getUint32(i + 5, true) * 1000
+    }
+    i += 4 + size
+  }
+  return undefined
+}
+
+export function decodeZip(data: Uint8Array): ArchiveEntry[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  let endOffset = -1
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      endOffset = i
+      break
+    }
+  }
+  if (endOffset === -1) throw new Error("zip archive has no central directory")
+
+  const count = view.getUint16(endOffset + 10, true)
+  let offset = view.getUint32(endOffset + 16, true)
+  const entries: ArchiveEntry[] = []
+
+  for (let n = 0; n < count; n++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error("zip central directory is corrupt")
+    const madeBy = view.getUint16(offset + 4, true) >> 8
+    const method = view.getUint16(offset + 10, true)
+    const time = view.getUint16(offset + 12, true)
+    const date = view.getUint16(offset + 14, true)
+    const compressedSize = view.getUint32(offset + 20, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const externalAttrs = view.getUint32(offset + 38, true)
+    const localOffset = view.getUint32(offset + 42, true)
+    if (compressedSize === 0xffffffff || localOffset === 0xffffffff) {
+      throw new Error("zip64 archives are not supported")
+    }
+    const rawName = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength))
+    const extra = data.subarray(offset + 46 + nameLength, offset + 46 + nameLength + extraLength)
+    offset += 46 + nameLength + extraLength + commentLength
+
+    const localNameLength = view.getUint16(localOffset + 26, true)
+    const localExtraLength = view.getUint16(localOffset + 28, true)
+    const start = localOffset + 30 + localNameLength + localExtraLength
+    const stored = data.subarray(start, start + compressedSize)
+    if (method !== 0 && method !== 8) throw new Error(`zip compression method ${method} is not supported`)
+    const content = method === 8 ? new Uint8Array(inflateRawSync(stored)) : stored.slice()
+
+    const unixMode = madeBy === 3 ? externalAttrs >>> 16 : 0
+    const isDir = rawName.endsWith("/") || (unixMode & 0o170000) === S_IFDIR
+    const isLink = (unixMode & 0o170000) === S_IFLNK
+    const path = cleanPath(rawName)
+    if (!path) continue
+    const base = {
+      path,
+      mode: unixMode & 0o7777 || (isDir ? 0o755 : 0o644),
+      mtime: readTimestampExtra(extra) ?? fromDosDateTime(time, date),
+    }
+
+    if (isDir) entries.push({ ...base, type: "directory" })
+    else if (isLink) entries.push({ ...base, type: "symlink", target: decoder.decode(content) })
+    else entries.push({ ...base, type: "file", data: content })
+  }
+  return entries
+}
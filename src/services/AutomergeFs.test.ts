@@ -1,9 +1,21 @@
 import { test, expect, describe, beforeEach, afterEach } from "bun:test";
-import { Repo } from "@automerge/automerge-repo";
+import * as Automerge from "@automerge/automerge";
+import { Repo, encodeHeads, type AutomergeUrl } from "@automerge/automerge-repo";
 import { NodeFSStorageAdapter } from "@automerge/automerge-repo-storage-nodefs";
-import { AutomergeFsMultiDoc } from "./AutomergeFs";
-import { FileSystemBlobStore } from "./BlobStore";
-import { rmSync, mkdirSync, existsSync } from "node:fs";
+import { Effect } from "effect";
+import { AutomergeFsMultiDoc, wrapAutomergeFsInstance } from "./AutomergeFs";
+import { AlreadyExists, IsDirectory, NotDirectory, NotEmpty, NotFound } from "./FsErrors";
+import {
+  AlreadyExistsError,
+  DirectoryNotEmptyError,
+  FileNotFoundError,
+  FileReadError,
+  FileWriteError,
+  IsDirectoryError,
+  NotDirectoryError,
+} from "../errors";
+import { ChunkedBlobStore, FileSystemBlobStore, InMemoryBlobStore } from "./BlobStore";
+import { rmSync, mkdirSync, existsSync, readFileSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
 
 const testDir = "/tmp/automerge-fs-test-" + process.pid;
@@ -124,6 +136,108 @@ describe("AutomergeFsMultiDoc", () => {
     });
   });
 
+  // ===========================================================================
+  // Edit
+  // ===========================================================================
+
+  describe("Edit", () => {
+    test("editFile replaces a unique match", async () => {
+      await fs.writeFile("/test.ts", "const a = 1;\nconst b = 2;\n");
+      const count = await fs.editFile("/test.ts", "b = 2", "b = 3");
+
+      expect(count).toBe(1);
+      const content = await fs.readFile("/test.ts");
+      expect(new TextDecoder().decode(content)).toBe("const a = 1;\nconst b = 3;\n");
+    });
+
+    test("editFile fails when old_string is missing", async () => {
+      await fs.writeFile("/test.ts", "hello");
+      await expect(fs.editFile("/test.ts", "nope", "x")).rejects.toThrow("not found");
+    });
+
+    test("editFile fails on ambiguous match without replaceAll", async () => {
+      await fs.writeFile("/test.ts", "x x x");
+      await expect(fs.editFile("/test.ts", "x", "y")).rejects.toThrow("matches 3 times");
+
+      const content = await fs.readFile("/test.ts");
+      expect(new TextDecoder().decode(content)).toBe("x x x");
+    });
+
+    test("editFile with replaceAll replaces every occurrence", async () => {
+      await fs.writeFile("/test.ts", "x x x");
+      const count = await fs.editFile("/test.ts", "x", "yy", true);
+
+      expect(count).toBe(3);
+      const content = await fs.readFile("/test.ts");
+      expect(new TextDecoder().decode(content)).toBe("yy yy yy");
+      expect((await fs.stat("/test.ts")).size).toBe(8);
+    });
+
+    test("editFile handles non-ASCII content", async () => {
+      await fs.writeFile("/test.txt", "café 🌍 world");
+      await fs.editFile("/test.txt", "world", "monde");
+
+      const content = await fs.readFile("/test.txt");
+      expect(new TextDecoder().decode(content)).toBe("café 🌍 monde");
+    });
+
+    test("editFile merges with concurrent edits elsewhere in the file", async () => {
+      await fs.writeFile("/test.txt", "alpha beta gamma");
+      const heads = await fs.getFileHeads("/test.txt");
+
+      await fs.editFile("/test.txt", "gamma", "GAMMA");
+
+      // Simulate a concurrent change made from the older heads
+      const [, fileDocId] = await fs.getAllDocumentIds();
+      const handle = await repo.find<{ content: string }>(fileDocId as AutomergeUrl);
+      handle.changeAt(encodeHeads(heads), (doc) => {
+        Automerge.splice(doc, ["content"], 0, 5, "ALPHA");
+      });
+
+      const content = await fs.readFile("/test.txt");
+      expect(new TextDecoder().decode(content)).toBe("ALPHA beta GAMMA");
+    });
+
+    test("multiEditFile applies edits in order as one change", async () => {
+      await fs.writeFile("/test.ts", "let a = 1;\nlet b = 2;\n");
+      const historyBefore = await fs.getFileHistory("/test.ts");
+
+      const count = await fs.multiEditFile("/test.ts", [
+        { oldString: "let a", newString: "const a" },
+        { oldString: "let b", newString: "const b" },
+        { oldString: "const", newString: "var", replaceAll: true },
+      ]);
+
+      expect(count).toBe(4);
+      const content = await fs.readFile("/test.ts");
+      expect(new TextDecoder().decode(content)).toBe("var a = 1;\nvar b = 2;\n");
+
+      const historyAfter = await fs.getFileHistory("/test.ts");
+      expect(historyAfter.length).toBe(historyBefore.length + 1);
+    });
+
+    test("multiEditFile applies nothing if any edit fails", async () => {
+      await fs.writeFile("/test.ts", "one two three");
+      const heads = await fs.getFileHeads("/test.ts");
+
+      await expect(
+        fs.multiEditFile("/test.ts", [
+          { oldString: "one", newString: "1" },
+          { oldString: "four", newString: "4" },
+        ])
+      ).rejects.toThrow("edits[1]: old_string not found");
+
+      const content = await fs.readFile("/test.ts");
+      expect(new TextDecoder().decode(content)).toBe("one two three");
+      expect(await fs.getFileHeads("/test.ts")).toEqual(heads);
+    });
+
+    test("editFile rejects binary files", async () => {
+      await fs.writeFile("/bin.dat", new Uint8Array([0xff, 0xfe]));
+      await expect(fs.editFile("/bin.dat", "a", "b")).rejects.toThrow("binary");
+    });
+  });
+
   // ===========================================================================
   // Binary Detection and Blob Storage
   // ===========================================================================
@@ -184,6 +298,264 @@ describe("AutomergeFsMultiDoc", () => {
     });
   });
 
+  // ===========================================================================
+  // Blob Garbage Collection
+  // ===========================================================================
+
+  describe("Blob Garbage Collection", () => {
+    const blobA = new Uint8Array([0x00, 0xff, 0x01]);
+    const blobB = new Uint8Array([0x00, 0xff, 0x02]);
+
+    test("unlink keeps the blob so history can still read it", async () => {
+      await fs.writeFile("/a.bin", blobA);
+      const heads = fs.getRootHeads();
+      await fs.unlink("/a.bin");
+
+      expect(await fs.getAllBlobHashes()).toHaveLength(1);
+      expect(await fs.readFile("/a.bin", heads)).toEqual(blobA);
+    });
+
+    test("removing one of two paths sharing a blob keeps it readable", async () => {
+      await fs.writeFile("/a.bin", blobA);
+      await fs.cp("/a.bin", "/b.bin");
+      await fs.rm("/a.bin");
+      await fs.gc({ retain: "current" });
+
+      expect(await fs.readFile("/b.bin")).toEqual(blobA);
+    });
+
+    test("blobReferences counts references per tree", async () => {
+      await fs.writeFile("/a.bin", blobA);
+      await fs.cp("/a.bin", "/b.bin");
+
+      const refs = fs.blobReferences("current");
+      expect([...refs.values()]).toEqual([2]);
+    });
+
+    test("history references match counting every historical tree", async () => {
+      await fs.writeFile("/a.bin", blobA);
+      await fs.cp("/a.bin", "/b.bin");
+      await fs.writeFile("/a.bin", blobB);
+      await fs.mv("/b.bin", "/c.bin");
+      await fs.rm("/a.bin");
+      await fs.writeFile("/a.bin", blobA);
+
+      const handle = await repo.find<{ tree: Record<string, any> }>(fs.rootDocUrl as AutomergeUrl);
+      const doc = handle.doc();
+      const expected = new Map<string, number>();
+      const trees = [doc.tree, ...Automerge.getHistory(doc).map((s) => s.snapshot.tree ?? {})];
+      for (const tree of trees) {
+        for (const entry of Object.values(tree)) {
+          if (entry.blobHash) {
+            expected.set(entry.blobHash, (expected.get(entry.blobHash) ?? 0) + 1);
+          }
+        }
+      }
+      expect(fs.blobReferences("history")).toEqual(expected);
+    });
+
+    test("gc running alongside a binary write keeps the new blob", async () => {
+      const [, result] = await Promise.all([fs.writeFile("/a.bin", blobA), fs.gc()]);
+
+      expect(result.removed).toEqual([]);
+      expect(await fs.readFile("/a.bin")).toEqual(blobA);
+      expect((await fs.fsck()).issues).toEqual([]);
+    });
+
+    test("default retention keeps blobs referenced by history", async () => {
+      await fs.writeFile("/a.bin", blobA);
+      await fs.unlink("/a.bin");
+
+      const result = await fs.gc();
+      expect(result.retain).toBe("history");
+      expect(result.removed).toEqual([]);
+      expect(await fs.getAllBlobHashes()).toHaveLength(1);
+    });
+
+    test("snapshot retention keeps only snapshotted and current blobs", async () => {
+      await fs.writeFile("/a.bin", blobA);
+      await fs.createSnapshot("with-a");
+      await fs.writeFile("/a.bin", blobB);
+      await fs.writeFile("/b.bin", blobA.slice(1));
+      await fs.unlink("/b.bin");
+
+      const result = await fs.gc({ retain: "snapshots" });
+      expect(result.removed).toHaveLength(1);
+      expect(result.referenced).toBe(2);
+
+      const snapshot = fs.getSnapshot("with-a");
+      if (!snapshot) throw new Error("snapshot missing");
+      expect(await fs.readFile("/a.bin", [...snapshot.heads])).toEqual(blobA);
+      expect(await fs.readFile("/a.bin")).toEqual(blobB);
+    });
+
+    test("dry run reports without deleting", async () => {
+      await fs.writeFile("/a.bin", blobA);
+      await fs.unlink("/a.bin");
+
+      const dry = await fs.gc({ dryRun: true, retain: "current" });
+      expect(dry.dryRun).toBe(true);
+      expect(dry.removed).toHaveLength(1);
+      expect(await fs.getAllBlobHashes()).toHaveLength(1);
+
+      const real = await fs.gc({ retain: "current" });
+      expect(real.removed).toEqual(dry.removed);
+      expect(await fs.getAllBlobHashes()).toHaveLength(0);
+    });
+
+    test("removes the chunks of deleted blobs", async () => {
+      const chunks = new InMemoryBlobStore();
+      const chunked = await AutomergeFsMultiDoc.create({
+        repo,
+        blobStore: new ChunkedBlobStore(new InMemoryBlobStore(), chunks),
+      });
+      await chunked.writeFile("/a.bin", blobA);
+      await chunked.writeFile("/b.bin", blobB);
+      await chunked.unlink("/a.bin");
+
+      await chunked.gc({ retain: "current" });
+
+      expect(await chunks.list()).toHaveLength(1);
+      expect(await chunked.readFile("/b.bin")).toEqual(blobB);
+    });
+  });
+
+  // ===========================================================================
+  // Integrity Check
+  // ===========================================================================
+
+  describe("Integrity Check", () => {
+    // Edit the root doc directly to simulate damage
+    async function damage(fn: (tree: Record<string, any>) => void) {
+      const handle = await repo.find<{ tree: Record<string, any> }>(fs.rootDocUrl as AutomergeUrl);
+      handle.change((doc) => fn(doc.tree));
+    }
+
+    test("a healthy tree has no issues", async () => {
+      await fs.mkdir("/dir");
+      await fs.writeFile("/dir/a.txt", "hello");
+      await fs.writeFile("/b.bin", new Uint8Array([0x00, 0xff]));
+      await fs.symlink("dir/a.txt", "/link");
+
+      const result = await fs.fsck();
+      expect(result.issues).toEqual([]);
+      expect(result.checked).toBe(5);
+    });
+
+    test("reports without changing anything unless repairing", async () => {
+      await fs.writeFile("/a.txt", "hello");
+      await damage((tree) => {
+        tree["/a.txt"].metadata.size = 99;
+      });
+
+      const result = await fs.fsck();
+      expect(result.issues).toEqual([
+        {
+          kind: "size-mismatch",
+          path: "/a.txt",
+          detail: "metadata.size is 99, content is 5",
+          repaired: false,
+        },
+      ]);
+      expect((await fs.stat("/a.txt")).size).toBe(99);
+
+      await fs.fsck({ repair: true });
+      expect((await fs.stat("/a.txt")).size).toBe(5);
+      expect((await fs.fsck()).issues).toEqual([]);
+    });
+
+    test("marks only the issues the repair fixed", async () => {
+      await fs.writeFile("/a.txt", "hello");
+      await fs.writeFile("/b.bin", new Uint8Array([0x00, 0xff]));
+      await fs.writeFile("/c.txt", "hello");
+      await damage((tree) => {
+        tree["/a.txt"].metadata.size = 99;
+        tree["/c.txt"].metadata.size = 99;
+      });
+      // /a.txt is removed while fsck is still checking /b.bin
+      const get = blobStore.get.bind(blobStore);
+      blobStore.get = async (hash) => {
+        await fs.rm("/a.txt");
+        return get(hash);
+      };
+
+      const result = await fs.fsck({ repair: true });
+      expect(result.issues.map((i) => [i.path, i.repaired])).toEqual([
+        ["/a.txt", false],
+        ["/c.txt", true],
+      ]);
+      expect((await fs.stat("/c.txt")).size).toBe(5);
+    });
+
+    test("moves orphans and their children to /lost+found", async () => {
+      await fs.mkdir("/dir");
+      await fs.mkdir("/dir/sub");
+      await fs.writeFile("/dir/sub/a.txt", "hello");
+      await damage((tree) => {
+        delete tree["/dir"];
+      });
+
+      const result = await fs.fsck({ repair: true });
+      expect(result.issues.map((i) => [i.kind, i.path])).toEqual([["orphan", "/dir/sub"]]);
+
+      expect(await fs.exists("/dir/sub")).toBe(false);
+      const content = await fs.readFile("/lost+found/sub/a.txt");
+      expect(new TextDecoder().decode(content)).toBe("hello");
+      expect((await fs.readdir("/lost+found")).map((e) => e.name)).toEqual(["sub"]);
+      expect((await fs.fsck()).issues).toEqual([]);
+    });
+
+    test("truncates files whose blob is missing or corrupt", async () => {
+      await fs.writeFile("/missing.bin", new Uint8Array([0x00, 0xff, 0x01]));
+      await fs.writeFile("/corrupt.bin", new Uint8Array([0x00, 0xff, 0x02]));
+      const [missing, corrupt] = [
+        (await fs.getFileHistory("/missing.bin"))[0]!.blobHash!,
+        (await fs.getFileHistory("/corrupt.bin"))[0]!.blobHash!,
+      ];
+      await blobStore.delete(missing);
+      await blobStore.set(corrupt, new Uint8Array([1, 2, 3]));
+
+      const result = await fs.fsck({ repair: true, truncateLost: true });
+      expect(result.issues.map((i) => [i.kind, i.path])).toEqual([
+        ["corrupt-blob", "/corrupt.bin"],
+        ["missing-blob", "/missing.bin"],
+      ]);
+      expect(await blobStore.has(corrupt)).toBe(false);
+      expect((await fs.readFile("/missing.bin")).length).toBe(0);
+      expect((await fs.stat("/corrupt.bin")).size).toBe(0);
+      expect((await fs.fsck()).issues).toEqual([]);
+    });
+
+    test("repair leaves files with lost content alone without truncateLost", async () => {
+      await fs.writeFile("/corrupt.bin", new Uint8Array([0x00, 0xff, 0x02]));
+      const corrupt = (await fs.getFileHistory("/corrupt.bin"))[0]!.blobHash!;
+      await blobStore.set(corrupt, new Uint8Array([1, 2, 3]));
+
+      const result = await fs.fsck({ repair: true });
+      expect(result.issues.map((i) => [i.kind, i.repaired])).toEqual([["corrupt-blob", false]]);
+      expect(await blobStore.has(corrupt)).toBe(true);
+      expect((await fs.stat("/corrupt.bin")).size).toBe(3);
+      expect((await fs.fsck()).issues.map((i) => i.kind)).toEqual(["corrupt-blob"]);
+    });
+
+    test("reports a file doc that does not load", async () => {
+      await fs.writeFile("/a.txt", "hello");
+      const other = new Repo();
+      const unknown = other.create<{ content: string }>().url;
+      other.networkSubsystem.disconnect();
+      await damage((tree) => {
+        tree["/a.txt"].fileDocId = unknown;
+      });
+
+      const result = await fs.fsck({ repair: true, truncateLost: true });
+      expect(result.issues.map((i) => [i.kind, i.path])).toEqual([
+        ["dangling-file-doc", "/a.txt"],
+      ]);
+      await fs.writeFile("/a.txt", "rewritten");
+      expect(new TextDecoder().decode(await fs.readFile("/a.txt"))).toBe("rewritten");
+    });
+  });
+
   // ===========================================================================
   // Multi-Document Model
   // ===========================================================================
@@ -231,6 +603,72 @@ describe("AutomergeFsMultiDoc", () => {
     });
   });
 
+  // ===========================================================================
+  // Search
+  // ===========================================================================
+
+  describe("Search", () => {
+    beforeEach(async () => {
+      await fs.mkdir("/src/lib", { recursive: true });
+      await fs.writeFile("/src/a.ts", "import x\nconst TODO = 1\nexport {}\n");
+      await fs.writeFile("/src/lib/b.ts", "// todo: fix\n");
+      await fs.writeFile("/README.md", "TODO: docs\n");
+      await fs.utimes("/src/a.ts", 0, 1000);
+      await fs.utimes("/src/lib/b.ts", 0, 3000);
+      await fs.utimes("/README.md", 0, 2000);
+    });
+
+    test("glob matches relative patterns and sorts newest first", async () => {
+      expect(await fs.glob("**/*.ts")).toEqual(["/src/lib/b.ts", "/src/a.ts"]);
+      expect(await fs.glob("*.ts", "/src")).toEqual(["/src/a.ts"]);
+    });
+
+    test("glob matches absolute patterns", async () => {
+      expect(await fs.glob("/src/**")).toEqual(["/src/lib/b.ts", "/src/a.ts"]);
+    });
+
+    test("glob only returns files", async () => {
+      expect(await fs.glob("src*")).toEqual([]);
+    });
+
+    test("grep lists files with matches by default", async () => {
+      const result = await fs.grep("TODO");
+      expect(result).toEqual({ mode: "files_with_matches", files: ["/README.md", "/src/a.ts"] });
+    });
+
+    test("grep supports ignoreCase, include and path", async () => {
+      const result = await fs.grep("todo", { ignoreCase: true, include: "*.ts", path: "/src" });
+      expect(result).toEqual({ mode: "files_with_matches", files: ["/src/a.ts", "/src/lib/b.ts"] });
+    });
+
+    test("grep count mode", async () => {
+      const result = await fs.grep("o", { outputMode: "count", path: "/src/a.ts" });
+      expect(result).toEqual({ mode: "count", counts: [{ path: "/src/a.ts", count: 3 }] });
+    });
+
+    test("grep content mode includes context lines", async () => {
+      const result = await fs.grep("TODO", { outputMode: "content", path: "/src", context: 1 });
+      expect(result).toEqual({
+        mode: "content",
+        lines: [
+          { path: "/src/a.ts", lineNumber: 1, text: "import x", match: false },
+          { path: "/src/a.ts", lineNumber: 2, text: "const TODO = 1", match: true },
+          { path: "/src/a.ts", lineNumber: 3, text: "export {}", match: false },
+        ],
+      });
+    });
+
+    test("grep skips binary files", async () => {
+      await fs.writeFile("/bin.dat", new Uint8Array([0xff, 0x54, 0x4f, 0x44, 0x4f]));
+      const result = await fs.grep("TODO");
+      expect(result).toEqual({ mode: "files_with_matches", files: ["/README.md", "/src/a.ts"] });
+    });
+
+    test("grep rejects invalid regex", async () => {
+      await expect(fs.grep("(")).rejects.toThrow();
+    });
+  });
+
   // ===========================================================================
   // Directory Operations
   // ===========================================================================
@@ -367,10 +805,51 @@ describe("AutomergeFsMultiDoc", () => {
       const patches = await fs.diff("/test.txt", headsV1, headsV2);
 
       expect(patches).toBeDefined();
-      expect(Array.isArray(patches)).toBe(true);
+      if (!Array.isArray(patches)) throw new Error("expected text patches");
       expect(patches.length).toBeGreaterThan(0);
     });
 
+    test("binary files have a version per blob change", async () => {
+      await fs.writeFile("/img.bin", new Uint8Array([0x00, 0xff, 0x01]));
+      await fs.chmod("/img.bin", 0o600); // metadata-only change, not a version
+      await fs.writeFile("/img.bin", new Uint8Array([0x00, 0xff, 0x02, 0x03]));
+
+      const history = await fs.getFileHistory("/img.bin");
+      expect(history).toHaveLength(2);
+      expect(history.map((v) => v.size)).toEqual([3, 4]);
+      expect(history[0]?.blobHash).not.toBe(history[1]?.blobHash);
+    });
+
+    test("getFileAt returns old bytes for binary files", async () => {
+      const v1 = new Uint8Array([0x00, 0xff, 0x01]);
+      await fs.writeFile("/img.bin", v1);
+      await fs.writeFile("/img.bin", new Uint8Array([0x00, 0xff, 0x02]));
+      await fs.mv("/img.bin", "/renamed.bin");
+
+      const [first] = await fs.getFileHistory("/renamed.bin");
+      if (!first) throw new Error("missing version");
+      expect(await fs.getFileAt("/renamed.bin", [first.hash])).toEqual(v1);
+    });
+
+    test("diff compares binary versions by hash and size", async () => {
+      await fs.writeFile("/img.bin", new Uint8Array([0x00, 0xff, 0x01]));
+      await fs.writeFile("/img.bin", new Uint8Array([0x00, 0xff, 0x02, 0x03, 0x04]));
+      const [v1, v2] = await fs.getFileHistory("/img.bin");
+      if (!v1 || !v2) throw new Error("missing versions");
+
+      const diff = await fs.diff("/img.bin", [v1.hash], [v2.hash]);
+      expect(diff).toEqual({
+        type: "binary",
+        from: { blobHash: v1.blobHash as string, size: 3 },
+        to: { blobHash: v2.blobHash as string, size: 5 },
+        changed: true,
+        sizeDelta: 2,
+      });
+
+      const same = await fs.diff("/img.bin", [v2.hash], [v2.hash]);
+      expect(same).toMatchObject({ changed: false, sizeDelta: 0 });
+    });
+
     test("getAllDocumentIds includes root and file docs", async () => {
       await fs.writeFile("/file1.txt", "content1");
       await fs.writeFile("/file2.txt", "content2");
@@ -386,6 +865,433 @@ describe("AutomergeFsMultiDoc", () => {
     });
   });
 
+  // ===========================================================================
+  // Restore
+  // ===========================================================================
+
+  describe("Restore", () => {
+    test("restoreTo rolls file contents back", async () => {
+      await fs.writeFile("/test.txt", "before");
+      const heads = fs.getRootHeads();
+
+      await fs.writeFile("/test.txt", "after");
+      await fs.restoreTo(heads);
+
+      const content = await fs.readFile("/test.txt");
+      expect(new TextDecoder().decode(content)).toBe("before");
+    });
+
+    test("restoreTo removes files created after the snapshot", async () => {
+      await fs.mkdir("/dir");
+      const heads = fs.getRootHeads();
+
+      await fs.writeFile("/dir/new.txt", "new");
+      await fs.mkdir("/other");
+      await fs.restoreTo(heads);
+
+      expect(await fs.exists("/dir")).toBe(true);
+      expect(await fs.exists("/dir/new.txt")).toBe(false);
+      expect(await fs.exists("/other")).toBe(false);
+    });
+
+    test("restoreTo brings back deleted files", async () => {
+      await fs.writeFile("/keep.txt", "keep me");
+      const heads = fs.getRootHeads();
+
+      await fs.unlink("/keep.txt");
+      await fs.restoreTo(heads);
+
+      const content = await fs.readFile("/keep.txt");
+      expect(new TextDecoder().decode(content)).toBe("keep me");
+    });
+
+    test("restoreTo records a new change instead of rewriting history", async () => {
+      await fs.writeFile("/test.txt", "v1");
+      const heads = fs.getRootHeads();
+      await fs.writeFile("/test.txt", "v2");
+      const headsBeforeRestore = fs.getRootHeads();
+
+      const newHeads = await fs.restoreTo(heads);
+
+      expect(newHeads).not.toEqual(heads);
+      expect(newHeads).not.toEqual(headsBeforeRestore);
+
+      // The pre-restore state is still reachable, so the restore can be undone
+      await fs.restoreTo(headsBeforeRestore);
+      const content = await fs.readFile("/test.txt");
+      expect(new TextDecoder().decode(content)).toBe("v2");
+    });
+
+    test("restoreTo prefers explicit file heads", async () => {
+      await fs.writeFile("/test.txt", "one");
+      const fileHeads = { [(await fs.getAllDocumentIds())[1] as string]: await fs.getFileHeads("/test.txt") };
+      await fs.writeFile("/test.txt", "two");
+      const heads = fs.getRootHeads();
+      await fs.writeFile("/test.txt", "three");
+
+      await fs.restoreTo(heads, fileHeads);
+
+      const content = await fs.readFile("/test.txt");
+      expect(new TextDecoder().decode(content)).toBe("one");
+    });
+
+    test("restoreTo fails without changes when a file's version is unknown", async () => {
+      await fs.writeFile("/a.txt", "old");
+      await fs.writeFile("/b.txt", "old");
+      const handle = await repo.find<{ tree: Record<string, any> }>(fs.rootDocUrl as AutomergeUrl);
+      handle.change((doc) => {
+        delete doc.tree["/b.txt"].fileHeads;
+      });
+      const heads = fs.getRootHeads();
+      await fs.writeFile("/a.txt", "new");
+      await fs.writeFile("/b.txt", "new");
+      const headsBefore = fs.getRootHeads();
+
+      await expect(fs.restoreTo(heads)).rejects.toThrow(
+        "history unavailable for this version: /b.txt",
+      );
+      expect(fs.getRootHeads()).toEqual(headsBefore);
+      expect(new TextDecoder().decode(await fs.readFile("/a.txt"))).toBe("new");
+    });
+
+    test("restoreTo rejects unknown heads", async () => {
+      await expect(fs.restoreTo(["deadbeef"])).rejects.toThrow("Unknown heads");
+    });
+  });
+
+  // ===========================================================================
+  // Named Snapshots
+  // ===========================================================================
+
+  describe("Named Snapshots", () => {
+    test("createSnapshot records root and file heads", async () => {
+      await fs.writeFile("/test.txt", "content");
+      const rootHeads = fs.getRootHeads();
+      const fileHeads = await fs.getFileHeads("/test.txt");
+
+      const snapshot = await fs.createSnapshot("checkpoint-1");
+
+      expect(snapshot.name).toBe("checkpoint-1");
+      expect(snapshot.heads).toEqual(rootHeads);
+      expect(Object.values(snapshot.fileHeads)).toEqual([fileHeads]);
+      expect(snapshot.timestamp).toBeGreaterThan(0);
+    });
+
+    test("createSnapshot rejects duplicate names", async () => {
+      await fs.createSnapshot("dup");
+      await expect(fs.createSnapshot("dup")).rejects.toThrow("EEXIST");
+    });
+
+    test("listSnapshots returns snapshots oldest first", async () => {
+      await fs.createSnapshot("first");
+      await fs.writeFile("/test.txt", "content");
+      await fs.createSnapshot("second");
+
+      const names = fs.listSnapshots().map((s) => s.name);
+      expect(names).toEqual(["first", "second"]);
+    });
+
+    test("getSnapshot returns null for unknown name", () => {
+      expect(fs.getSnapshot("missing")).toBeNull();
+    });
+
+    test("deleteSnapshot removes the snapshot", async () => {
+      await fs.createSnapshot("gone");
+      fs.deleteSnapshot("gone");
+      expect(fs.getSnapshot("gone")).toBeNull();
+      expect(() => fs.deleteSnapshot("gone")).toThrow("ENOENT");
+    });
+
+    test("snapshots survive restoring to an earlier state", async () => {
+      const heads = fs.getRootHeads();
+      await fs.writeFile("/test.txt", "content");
+      await fs.createSnapshot("after-write");
+
+      await fs.restoreTo(heads);
+
+      expect(await fs.exists("/test.txt")).toBe(false);
+      const snapshot = fs.getSnapshot("after-write");
+      if (!snapshot) throw new Error("snapshot missing");
+
+      await fs.restoreTo([...snapshot.heads], snapshot.fileHeads);
+      const content = await fs.readFile("/test.txt");
+      expect(new TextDecoder().decode(content)).toBe("content");
+    });
+  });
+
+  // ===========================================================================
+  // Point-in-time View
+  // ===========================================================================
+
+  describe("Point-in-time View", () => {
+    test("readFile at heads returns historical content", async () => {
+      await fs.writeFile("/test.txt", "old");
+      const heads = fs.getRootHeads();
+      await fs.writeFile("/test.txt", "new");
+
+      const content = await fs.readFile("/test.txt", heads);
+      expect(new TextDecoder().decode(content)).toBe("old");
+    });
+
+    test("readFile at heads fails for entries written without file heads", async () => {
+      await fs.writeFile("/test.txt", "old");
+      const handle = await repo.find<{ tree: Record<string, any> }>(fs.rootDocUrl as AutomergeUrl);
+      handle.change((doc) => {
+        delete doc.tree["/test.txt"].fileHeads;
+      });
+      const heads = fs.getRootHeads();
+      await fs.writeFile("/test.txt", "new");
+
+      await expect(fs.readFile("/test.txt", heads)).rejects.toThrow(
+        "history unavailable for this version: /test.txt",
+      );
+    });
+
+    test("deleted files are readable at earlier heads", async () => {
+      await fs.mkdir("/dir");
+      await fs.writeFile("/dir/gone.txt", "still here");
+      const heads = fs.getRootHeads();
+      await fs.rm("/dir", { recursive: true });
+
+      expect(await fs.exists("/dir/gone.txt")).toBe(false);
+      expect(await fs.exists("/dir/gone.txt", heads)).toBe(true);
+
+      const content = await fs.readFile("/dir/gone.txt", heads);
+      expect(new TextDecoder().decode(content)).toBe("still here");
+    });
+
+    test("renamed files resolve at their old path", async () => {
+      await fs.writeFile("/old.txt", "content");
+      const heads = fs.getRootHeads();
+      await fs.mv("/old.txt", "/new.txt");
+
+      expect(await fs.exists("/old.txt", heads)).toBe(true);
+      expect(await fs.exists("/new.txt", heads)).toBe(false);
+    });
+
+    test("readdir and stat resolve against the historical tree", async () => {
+      await fs.mkdir("/dir");
+      await fs.writeFile("/dir/a.txt", "a");
+      const heads = fs.getRootHeads();
+      await fs.writeFile("/dir/b.txt", "b");
+      await fs.writeFile("/dir/a.txt", "a longer");
+
+      const names = (await fs.readdir("/dir", heads)).map((e) => e.name);
+      expect(names).toEqual(["a.txt"]);
+
+      const stat = await fs.stat("/dir/a.txt", heads);
+      expect(stat.size).toBe(1);
+    });
+
+    test("reading at unknown heads throws", async () => {
+      await expect(fs.readFile("/", ["deadbeef"])).rejects.toThrow("Unknown heads");
+    });
+  });
+
+  // ===========================================================================
+  // File Lineage
+  // ===========================================================================
+
+  describe("File Lineage", () => {
+    test("entries get a stable id that survives mv", async () => {
+      await fs.mkdir("/src");
+      await fs.writeFile("/src/a.txt", "hello");
+      const before = await fs.getFileLineage("/src/a.txt");
+      await fs.mv("/src", "/lib");
+      await fs.mv("/lib/a.txt", "/lib/b.txt");
+
+      const after = await fs.getFileLineage("/lib/b.txt");
+      expect(after.id).toBe(before.id);
+      expect(after.lineage.map((e) => [e.event, e.from, e.path])).toEqual([
+        ["created", null, "/src/a.txt"],
+        ["renamed", "/src/a.txt", "/lib/a.txt"],
+        ["renamed", "/lib/a.txt", "/lib/b.txt"],
+      ]);
+    });
+
+    test("rewrites keep the id", async () => {
+      await fs.writeFile("/a.txt", "one");
+      const { id } = await fs.getFileLineage("/a.txt");
+      await fs.writeFile("/a.txt", "two");
+      await fs.editFile("/a.txt", "two", "three");
+      const lineage = await fs.getFileLineage("/a.txt");
+      expect(lineage.id).toBe(id);
+      expect(lineage.lineage).toHaveLength(1);
+      // Doc creation plus one change per write/edit
+      expect(lineage.history).toHaveLength(4);
+    });
+
+    test("cp records lineage and source history up to the copy", async () => {
+      await fs.writeFile("/orig.txt", "v1");
+      await fs.writeFile("/orig.txt", "v2");
+      await fs.cp("/orig.txt", "/copy.txt");
+      await fs.writeFile("/orig.txt", "v3 after copy");
+      await fs.writeFile("/copy.txt", "copy edit");
+
+      const source = await fs.getFileLineage("/orig.txt");
+      const copy = await fs.getFileLineage("/copy.txt");
+      expect(copy.id).not.toBe(source.id);
+      expect(copy.lineage.map((e) => [e.event, e.from, e.path])).toEqual([
+        ["created", null, "/orig.txt"],
+        ["copied", "/orig.txt", "/copy.txt"],
+      ]);
+      // Source doc up to the copy (create, v1, v2), then the copy's own doc
+      // (create, initial content, edit) — "v3 after copy" is excluded
+      expect(copy.history).toHaveLength(6);
+      expect(copy.history.slice(0, 3)).toEqual(source.history.slice(0, 3));
+      expect(source.history).toHaveLength(4);
+    });
+
+    test("follows a copy of a renamed file", async () => {
+      await fs.writeFile("/a.txt", "x");
+      await fs.mv("/a.txt", "/b.txt");
+      await fs.cp("/b.txt", "/c.txt");
+      await fs.mv("/c.txt", "/d.txt");
+
+      const { lineage } = await fs.getFileLineage("/d.txt");
+      expect(lineage.map((e) => e.event)).toEqual([
+        "created",
+        "renamed",
+        "copied",
+        "renamed",
+      ]);
+      expect(lineage.map((e) => e.path)).toEqual(["/a.txt", "/b.txt", "/c.txt", "/d.txt"]);
+    });
+
+    test("throws for missing path", async () => {
+      await expect(fs.getFileLineage("/nope")).rejects.toThrow("ENOENT");
+    });
+  });
+
+  // ===========================================================================
+  // Symbolic Links
+  // ===========================================================================
+
+  describe("Symbolic Links", () => {
+    test("readFile and stat follow links", async () => {
+      await fs.writeFile("/target.txt", "hello");
+      await fs.symlink("/target.txt", "/link");
+
+      const content = await fs.readFile("/link");
+      expect(new TextDecoder().decode(content)).toBe("hello");
+      const stat = await fs.stat("/link");
+      expect(stat.isFile).toBe(true);
+      expect(stat.isSymbolicLink).toBe(false);
+    });
+
+    test("lstat and readlink report the link itself", async () => {
+      await fs.writeFile("/target.txt", "hello");
+      await fs.symlink("target.txt", "/link");
+
+      const lstat = await fs.lstat("/link");
+      expect(lstat.isSymbolicLink).toBe(true);
+      expect(lstat.isFile).toBe(false);
+      expect(await fs.readlink("/link")).toBe("target.txt");
+      await expect(fs.readlink("/target.txt")).rejects.toThrow("EINVAL");
+    });
+
+    test("relative targets resolve against the link's directory", async () => {
+      await fs.mkdir("/a/b", { recursive: true });
+      await fs.writeFile("/a/file.txt", "up one");
+      await fs.symlink("../file.txt", "/a/b/link");
+
+      expect(await fs.realpath("/a/b/link")).toBe("/a/file.txt");
+      const content = await fs.readFile("/a/b/link");
+      expect(new TextDecoder().decode(content)).toBe("up one");
+    });
+
+    test("directory links resolve in intermediate components", async () => {
+      await fs.mkdir("/real");
+      await fs.writeFile("/real/x.txt", "x");
+      await fs.symlink("/real", "/alias");
+
+      const entries = await fs.readdir("/alias");
+      expect(entries.map((e) => e.name)).toEqual(["x.txt"]);
+      expect(await fs.realpath("/alias/x.txt")).toBe("/real/x.txt");
+      expect(await fs.exists("/alias/x.txt")).toBe(true);
+    });
+
+    test("readdir marks symlinks", async () => {
+      await fs.writeFile("/target.txt", "hello");
+      await fs.symlink("/target.txt", "/link");
+
+      const link = (await fs.readdir("/")).find((e) => e.name === "link");
+      expect(link).toEqual({
+        name: "link",
+        isFile: false,
+        isDirectory: false,
+        isSymbolicLink: true,
+      });
+    });
+
+    test("writing through a link writes the target", async () => {
+      await fs.writeFile("/target.txt", "old");
+      await fs.symlink("/target.txt", "/link");
+      await fs.writeFile("/link", "new");
+
+      const content = await fs.readFile("/target.txt");
+      expect(new TextDecoder().decode(content)).toBe("new");
+      expect((await fs.lstat("/link")).isSymbolicLink).toBe(true);
+    });
+
+    test("dangling links do not exist", async () => {
+      await fs.symlink("/missing", "/dangling");
+      expect(await fs.exists("/dangling")).toBe(false);
+      await expect(fs.readFile("/dangling")).rejects.toThrow("ENOENT");
+      expect((await fs.lstat("/dangling")).isSymbolicLink).toBe(true);
+    });
+
+    test("symlink loops fail with ELOOP", async () => {
+      await fs.symlink("/b", "/a");
+      await fs.symlink("/a", "/b");
+      await expect(fs.readFile("/a")).rejects.toThrow("ELOOP");
+      await expect(fs.stat("/a")).rejects.toThrow("ELOOP");
+      expect(await fs.exists("/a")).toBe(false);
+    });
+
+    test("symlink refuses to overwrite", async () => {
+      await fs.writeFile("/file.txt", "x");
+      await expect(fs.symlink("/elsewhere", "/file.txt")).rejects.toThrow("EEXIST");
+    });
+
+    test("changes through a directory link land in the target", async () => {
+      await fs.mkdir("/dir");
+      await fs.symlink("/dir", "/link");
+
+      await fs.mkdir("/link/sub");
+      expect((await fs.stat("/dir/sub")).isDirectory).toBe(true);
+
+      await fs.writeFile("/dir/f.txt", "f");
+      await fs.chmod("/link/f.txt", 0o600);
+      await fs.utimes("/link/f.txt", 0, 1000);
+      const stat = await fs.stat("/dir/f.txt");
+      expect(stat.mode).toBe(0o600);
+      expect(stat.mtime.getTime()).toBe(1000);
+
+      await fs.cp("/link/f.txt", "/link/copy.txt");
+      expect(new TextDecoder().decode(await fs.readFile("/dir/copy.txt"))).toBe("f");
+      await fs.mv("/link/copy.txt", "/link/sub/moved.txt");
+      expect(await fs.exists("/dir/copy.txt")).toBe(false);
+      expect(await fs.exists("/dir/sub/moved.txt")).toBe(true);
+
+      await fs.unlink("/link/f.txt");
+      await fs.rm("/link/sub", { recursive: true });
+      expect((await fs.readdir("/dir")).map((e) => e.name)).toEqual([]);
+      expect((await fs.lstat("/link")).isSymbolicLink).toBe(true);
+    });
+
+    test("cp -r copies links as links, plain cp copies the target", async () => {
+      await fs.writeFile("/target.txt", "content");
+      await fs.symlink("/target.txt", "/link");
+
+      await fs.cp("/link", "/plain.txt");
+      expect((await fs.lstat("/plain.txt")).isFile).toBe(true);
+
+      await fs.cp("/link", "/link2", { recursive: true });
+      expect(await fs.readlink("/link2")).toBe("/target.txt");
+    });
+  });
+
   // ===========================================================================
   // IFileSystem Methods
   // ===========================================================================
@@ -472,6 +1378,61 @@ describe("AutomergeFsMultiDoc", () => {
       expect(headsAfter).toEqual(headsBefore);
     });
 
+    test("mv renames a directory with all descendants", async () => {
+      await fs.mkdir("/src/nested", { recursive: true });
+      await fs.writeFile("/src/a.txt", "a");
+      await fs.writeFile("/src/nested/b.txt", "b");
+      await fs.writeFile("/src/nested/c.bin", new Uint8Array([0xff, 0x00]));
+
+      await fs.mv("/src", "/lib");
+
+      expect(await fs.exists("/src")).toBe(false);
+      expect(await fs.exists("/src/nested/b.txt")).toBe(false);
+      expect(new TextDecoder().decode(await fs.readFile("/lib/a.txt"))).toBe("a");
+      expect(new TextDecoder().decode(await fs.readFile("/lib/nested/b.txt"))).toBe("b");
+      expect(await fs.readFile("/lib/nested/c.bin")).toEqual(new Uint8Array([0xff, 0x00]));
+
+      const names = (await fs.readdir("/lib/nested")).map((e) => e.name).sort();
+      expect(names).toEqual(["b.txt", "c.bin"]);
+    });
+
+    test("mv directory keeps file history and is a single root change", async () => {
+      await fs.mkdir("/src");
+      await fs.writeFile("/src/a.txt", "v1");
+      await fs.writeFile("/src/a.txt", "v2");
+      const historyBefore = await fs.getFileHistory("/src/a.txt");
+      const rootChangesBefore = (await fs.rootDoc.doc())?.operationLog.length ?? 0;
+
+      await fs.mv("/src", "/lib");
+
+      expect(await fs.getFileHistory("/lib/a.txt")).toEqual(historyBefore);
+      const rootChangesAfter = (await fs.rootDoc.doc())?.operationLog.length ?? 0;
+      expect(rootChangesAfter).toBe(rootChangesBefore + 1);
+    });
+
+    test("mv directory into a nested parent", async () => {
+      await fs.mkdir("/a");
+      await fs.mkdir("/b");
+      await fs.writeFile("/a/file.txt", "x");
+
+      await fs.mv("/a", "/b/a");
+
+      expect(await fs.exists("/b/a/file.txt")).toBe(true);
+      expect((await fs.readdir("/b")).map((e) => e.name)).toEqual(["a"]);
+    });
+
+    test("mv directory into itself throws", async () => {
+      await fs.mkdir("/a");
+      await expect(fs.mv("/a", "/a/b")).rejects.toThrow("EINVAL");
+    });
+
+    test("mv directory onto a non-empty directory throws", async () => {
+      await fs.mkdir("/a");
+      await fs.mkdir("/b");
+      await fs.writeFile("/b/file.txt", "x");
+      await expect(fs.mv("/a", "/b")).rejects.toThrow("ENOTEMPTY");
+    });
+
     test("chmod updates file mode", async () => {
       await fs.writeFile("/test.txt", "content");
       await fs.chmod("/test.txt", 0o755);
@@ -488,18 +1449,10 @@ describe("AutomergeFsMultiDoc", () => {
       expect(lstat.isFile).toBe(stat.isFile);
     });
 
-    test("symlink throws not supported", async () => {
-      await expect(fs.symlink()).rejects.toThrow("not supported");
-    });
-
     test("link throws not supported", async () => {
       await expect(fs.link()).rejects.toThrow("not supported");
     });
 
-    test("readlink throws not supported", async () => {
-      await expect(fs.readlink()).rejects.toThrow("not supported");
-    });
-
     test("realpath returns normalized path", async () => {
       const result = await fs.realpath("/a//b/c/");
       expect(result).toBe("/a/b/c");
@@ -531,6 +1484,160 @@ describe("AutomergeFsMultiDoc", () => {
     });
   });
 
+  // ===========================================================================
+  // Bundles
+  // ===========================================================================
+
+  describe("Bundles", () => {
+    let otherRepo: Repo;
+    let other: AutomergeFsMultiDoc;
+
+    beforeEach(async () => {
+      otherRepo = new Repo();
+      other = await AutomergeFsMultiDoc.create({
+        repo: otherRepo,
+        blobStore: new InMemoryBlobStore(),
+      });
+    });
+
+    afterEach(() => {
+      otherRepo.networkSubsystem.disconnect();
+    });
+
+    test("round-trips files, blobs, snapshots and history", async () => {
+      await fs.writeFile("/a.txt", "v1");
+      await fs.writeFile("/gone.txt", "deleted later");
+      const before = await fs.createSnapshot("before");
+      await fs.writeFile("/a.txt", "v2");
+      await fs.writeFile("/b.bin", new Uint8Array([0x00, 0xff, 0x01]));
+      await fs.unlink("/gone.txt");
+
+      const path = join(testDir, "ws.amfs");
+      const exported = await fs.exportBundle(path);
+      expect(exported.snapshots).toEqual(["before"]);
+      expect(exported.blobs).toBe(1);
+
+      const imported = await other.importBundle(path);
+      expect(imported.rootDocUrl).toBe(fs.rootDocUrl);
+      expect(other.rootDocUrl).toBe(fs.rootDocUrl);
+      expect(new TextDecoder().decode(await other.readFile("/a.txt"))).toBe("v2");
+      expect(await other.readFile("/b.bin")).toEqual(new Uint8Array([0x00, 0xff, 0x01]));
+      expect((await other.getFileHistory("/a.txt")).length).toBe(
+        (await fs.getFileHistory("/a.txt")).length,
+      );
+
+      await other.restoreTo([...other.getSnapshot("before")!.heads], before.fileHeads);
+      expect(new TextDecoder().decode(await other.readFile("/a.txt"))).toBe("v1");
+      expect(new TextDecoder().decode(await other.readFile("/gone.txt"))).toBe("deleted later");
+    });
+
+    test("refuses to replace a non-empty filesystem unless forced", async () => {
+      await fs.writeFile("/a.txt", "hello");
+      const path = join(testDir, "ws.amfs");
+      await fs.exportBundle(path);
+      await other.writeFile("/mine.txt", "mine");
+
+      await expect(other.importBundle(path)).rejects.toThrow("ENOTEMPTY");
+      await other.importBundle(path, { force: true });
+      expect(await other.exists("/mine.txt")).toBe(false);
+      expect(await other.exists("/a.txt")).toBe(true);
+    });
+
+    test("rejects a corrupted bundle before importing anything", async () => {
+      await fs.writeFile("/a.txt", "hello");
+      const path = join(testDir, "ws.amfs");
+      await fs.exportBundle(path);
+      const data = readFileSync(path);
+      data[data.length - 1] = data[data.length - 1]! ^ 0xff;
+      writeFileSync(path, data);
+
+      await expect(other.importBundle(path)).rejects.toThrow("Checksum mismatch");
+      expect(other.rootDocUrl).not.toBe(fs.rootDocUrl);
+    });
+  });
+
+  // ===========================================================================
+  // Archives
+  // ===========================================================================
+
+  describe("Archives", () => {
+    const mtime = Date.UTC(2024, 0, 2, 3, 4, 5);
+
+    async function populate(): Promise<void> {
+      await fs.mkdir("/proj/bin", { recursive: true });
+      await fs.writeFile("/proj/readme.md", "# hi\n");
+      await fs.writeFile("/proj/bin/run", "#!/bin/sh\n");
+      await fs.chmod("/proj/bin/run", 0o755);
+      await fs.writeFile("/proj/logo.png", new Uint8Array([0x89, 0x50, 0x00, 0xff]));
+      await fs.symlink("bin/run", "/proj/run");
+      for (const path of ["/proj/readme.md", "/proj/bin/run", "/proj/logo.png", "/proj/run", "/proj/bin", "/proj"]) {
+        await fs.utimes(path, mtime, mtime);
+      }
+    }
+
+    for (const name of ["ws.tar", "ws.tgz", "ws.zip"]) {
+      test(`${name} round-trips contents, modes, mtimes and symlinks`, async () => {
+        await populate();
+        const path = join(testDir, name);
+        const exported = await fs.exportArchive(path, { root: "/proj" });
+        expect(exported.entries).toBe(5);
+
+        const imported = await fs.importArchive(path, { dest: "/copy" });
+        expect(imported.format).toBe(exported.format);
+        expect(new TextDecoder().decode(await fs.readFile("/copy/readme.md"))).toBe("# hi\n");
+        expect(await fs.readFile("/copy/logo.png")).toEqual(new Uint8Array([0x89, 0x50, 0x00, 0xff]));
+        expect(await fs.readlink("/copy/run")).toBe("bin/run");
+        expect((await fs.stat("/copy/bin/run")).mode).toBe(0o755);
+        expect((await fs.stat("/copy/readme.md")).mode).toBe(0o644);
+        expect((await fs.stat("/copy/bin")).mtime.getTime()).toBe(mtime);
+        expect((await fs.lstat("/copy/run")).mtime.getTime()).toBe(mtime);
+      });
+    }
+
+    test("imports binaries into the blob store and text into file docs", async () => {
+      await populate();
+      const path = join(testDir, "ws.tar");
+      await fs.exportArchive(path);
+
+      const otherRepo = new Repo();
+      const other = await AutomergeFsMultiDoc.create({
+        repo: otherRepo,
+        blobStore: new InMemoryBlobStore(),
+      });
+      await other.importArchive(path);
+      expect(await other.getAllBlobHashes()).toEqual(await fs.getAllBlobHashes());
+      expect(await other.getFileHistory("/proj/readme.md")).not.toHaveLength(0);
+      otherRepo.networkSubsystem.disconnect();
+    });
+
+    test("overwrites files and replaces symlinks on re-import", async () => {
+      await populate();
+      const path = join(testDir, "ws.zip");
+      await fs.exportArchive(path, { root: "/proj" });
+      await fs.writeFile("/proj/readme.md", "changed");
+      await fs.rm("/proj/run");
+      await fs.symlink("elsewhere", "/proj/run");
+
+      await fs.importArchive(path, { dest: "/proj" });
+      expect(new TextDecoder().decode(await fs.readFile("/proj/readme.md"))).toBe("# hi\n");
+      expect(await fs.readlink("/proj/run")).toBe("bin/run");
+    });
+
+    test("the format option overrides the file extension", async () => {
+      await fs.writeFile("/a.txt", "a");
+      const path = join(testDir, "ws.bin");
+      expect((await fs.exportArchive(path, { format: "zip" })).format).toBe("zip");
+      expect((await fs.importArchive(path, { dest: "/x" })).format).toBe("zip");
+      expect(await fs.exists("/x/a.txt")).toBe(true);
+    });
+
+    test("refuses to export a missing root", async () => {
+      await expect(fs.exportArchive(join(testDir, "ws.tar"), { root: "/nope" })).rejects.toThrow(
+        "ENOENT",
+      );
+    });
+  });
+
   // ===========================================================================
   // Persistence
   // ===========================================================================
@@ -584,6 +1691,88 @@ describe("AutomergeFsMultiDoc", () => {
     });
   });
 
+  // ===========================================================================
+  // Errors
+  // ===========================================================================
+
+  describe("Errors", () => {
+    const failure = (promise: Promise<unknown>) => promise.then(() => undefined, (e: unknown) => e);
+
+    test("failures are errno errors with Node's code, errno and path", async () => {
+      const error = await failure(fs.readFile("/missing.txt"));
+      expect(error).toBeInstanceOf(NotFound);
+      expect(error).toMatchObject({
+        code: "ENOENT",
+        errno: -2,
+        path: "/missing.txt",
+        message: "ENOENT: no such file or directory: /missing.txt",
+      });
+    });
+
+    test("each failure has its own class", async () => {
+      await fs.mkdir("/dir");
+      await fs.writeFile("/dir/a.txt", "a");
+      await fs.writeFile("/file.txt", "f");
+      await fs.mkdir("/other");
+
+      expect(await failure(fs.readFile("/dir"))).toBeInstanceOf(IsDirectory);
+      expect(await failure(fs.writeFile("/file.txt/x", "x"))).toMatchObject(
+        new NotDirectory("/file.txt"),
+      );
+      expect(await failure(fs.mkdir("/file.txt"))).toBeInstanceOf(AlreadyExists);
+      expect(await failure(fs.mv("/other", "/dir"))).toBeInstanceOf(NotEmpty);
+    });
+
+    test("the service turns them into tagged errors", async () => {
+      const service = wrapAutomergeFsInstance(fs);
+      await fs.mkdir("/dir");
+      await fs.writeFile("/dir/a.txt", "a");
+      await fs.writeFile("/file.txt", "f");
+      await fs.mkdir("/other");
+      const flip = <E>(effect: Effect.Effect<unknown, E>) => Effect.runPromise(Effect.flip(effect));
+
+      expect(await flip(service.readFile("/missing.txt"))).toEqual(
+        new FileNotFoundError({ path: "/missing.txt" }),
+      );
+      expect(await flip(service.readFile("/dir"))).toEqual(new IsDirectoryError({ path: "/dir" }));
+      expect(await flip(service.writeFile("/file.txt/x", "x"))).toEqual(
+        new NotDirectoryError({ path: "/file.txt" }),
+      );
+      expect(await flip(service.mkdir("/file.txt"))).toEqual(
+        new AlreadyExistsError({ path: "/file.txt" }),
+      );
+      expect(await flip(service.rename("/other", "/dir"))).toEqual(
+        new DirectoryNotEmptyError({ path: "/dir" }),
+      );
+      expect(await flip(service.getFileLineage("/missing.txt"))).toEqual(
+        new FileNotFoundError({ path: "/missing.txt" }),
+      );
+    });
+
+    test("other failures keep the operation's error", async () => {
+      const service = wrapAutomergeFsInstance(fs);
+      await fs.mkdir("/a");
+      const error = await Effect.runPromise(Effect.flip(service.rename("/", "/a/b")));
+      expect(error).toBeInstanceOf(FileWriteError);
+      expect((error as FileWriteError).cause).toMatchObject({ code: "EBUSY" });
+    });
+
+    test("lineage that cannot be read is not reported as a missing file", async () => {
+      const service = wrapAutomergeFsInstance(fs);
+      await fs.writeFile("/a.txt", "hello");
+      const other = new Repo();
+      const unknown = other.create<{ content: string }>().url;
+      other.networkSubsystem.disconnect();
+      const handle = await repo.find<{ tree: Record<string, any> }>(fs.rootDocUrl as AutomergeUrl);
+      handle.change((doc) => {
+        doc.tree["/a.txt"].fileDocId = unknown;
+      });
+
+      const error = await Effect.runPromise(Effect.flip(service.getFileLineage("/a.txt")));
+      expect(error).toBeInstanceOf(FileReadError);
+    });
+  });
+
   // ===========================================================================
   // Edge Cases
   // ===========================================================================
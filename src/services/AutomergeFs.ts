@@ -11,23 +11,78 @@
 
 import { Context, Effect, Layer } from "effect"
 import * as Automerge from "@automerge/automerge"
-import { Repo, type DocHandle, type AutomergeUrl } from "@automerge/automerge-repo"
-import { join } from "node:path"
-import { readFileSync, writeFileSync, existsSync } from "node:fs"
+import {
+  Repo,
+  parseAutomergeUrl,
+  type DocHandle,
+  type AutomergeUrl,
+} from "@automerge/automerge-repo"
 import {
   FileNotFoundError,
   FileReadError,
   FileWriteError,
+  FileEditError,
+  SearchError,
   DirectoryReadError,
   DirectoryCreateError,
   FileDeleteError,
   FileStatError,
+  RestoreError,
+  SnapshotNotFoundError,
+  SnapshotError,
+  GarbageCollectionError,
+  FsckError,
+  DumpError,
+  BundleError,
+  ArchiveError,
+  IsDirectoryError,
+  NotDirectoryError,
+  AlreadyExistsError,
+  DirectoryNotEmptyError,
+  PermissionDeniedError,
+  type ErrnoError,
 } from "../errors"
-import type { FileStat, DirEntry } from "../rpc/schema"
+import type {
+  ArchiveFormat,
+  ArchiveResult,
+  FileStat,
+  DirEntry,
+  BinaryDiff,
+  BlobRetention,
+  BlobVersion,
+  BundleInfo,
+  DumpResult,
+  FileEdit,
+  FsckIssue,
+  FsckResult,
+  FileLineage,
+  GcResult,
+  GrepOptions,
+  GrepResult,
+  LineageEvent,
+  SnapshotInfo,
+} from "../rpc/schema"
 import type { BlobStore } from "./BlobStore"
-import { BlobStoreTag } from "./BlobStore"
+import { BlobStoreTag, makeFileSystemBlobStore } from "./BlobStore"
 import { StorageAdapter } from "./StorageAdapter"
-import { DaemonConfig } from "../daemon/DaemonConfig"
+import { FileRootDocPointer, RootDocPointerTag } from "./RootDocPointer"
+import { encodeBundle, decodeBundle } from "./Bundle"
+import {
+  FsError,
+  NotFound,
+  IsDirectory,
+  NotDirectory,
+  AlreadyExists,
+  NotEmpty,
+  PermissionDenied,
+} from "./FsErrors"
+import {
+  encodeArchive,
+  decodeArchive,
+  formatFromPath,
+  formatOf,
+  type ArchiveEntry,
+} from "./Archive"
 
 // =============================================================================
 // Document Schema
@@ -35,10 +90,19 @@ import { DaemonConfig } from "../daemon/DaemonConfig"
 
 interface FsRootDoc {
   tree: Record<string, TreeEntry>
+  snapshots?: Record<string, SnapshotRecord>
+}
+
+interface SnapshotRecord {
+  name: string
+  timestamp: number
+  heads: string[] // root doc heads
+  fileHeads: Record<string, string[]> // fileDocId → file doc heads
 }
 
 interface TreeEntry {
-  type: "file" | "directory"
+  id?: string // stable identity, survives renames (like an inode number)
+  type: "file" | "directory" | "symlink"
   parent: string | null
   name: string
   metadata: {
@@ -48,13 +112,50 @@ interface TreeEntry {
     ctime: number
   }
   fileDocId?: string // AutomergeUrl pointer to per-file Automerge doc (text files)
+  fileHeads?: string[] // heads of the file doc as of this tree change (text files)
   blobHash?: string // pointer to blob store (binary files)
+  copiedFrom?: CopySource // set by cp: where this file's content came from
+  target?: string // link target as written, absolute or relative (symlinks)
+}
+
+interface CopySource {
+  id: string // stable id of the source entry
+  path: string // source path at the time of the copy
+  heads?: string[] // source file doc heads at the time of the copy
+}
+
+interface TreeStep {
+  change: Automerge.DecodedChange
+  tree: Record<string, TreeEntry> // tree after the change
+  touched: ReadonlySet<string> // paths the change added, modified or removed
+  pathOf: (id: string) => string | undefined // where a stable id lives now
+}
+
+interface ChangeInfo {
+  hash: string
+  actor: string
+  seq: number
+  timestamp: number
+  message: string | null
+  blobHash?: string // binary versions only; hash is then a root doc change
+  size?: number
 }
 
 interface FileDoc {
   content: string // native CRDT string in Automerge 3.x
 }
 
+// Same limit as Linux: resolution fails with ELOOP after this many links
+const MAX_SYMLINK_HOPS = 40
+
+// Only dumps, bundles and archives touch the local disk, so the Node modules
+// load on first use; the class itself also runs on KeyValueStore backends
+// where there is no filesystem
+const nodeFs = () => import("node:fs/promises")
+
+// fsck issues that only truncating the file can repair
+const LOST_CONTENT = new Set<FsckIssue["kind"]>(["dangling-file-doc", "missing-blob", "corrupt-blob"])
+
 // =============================================================================
 // AutomergeFsMultiDoc Implementation
 // =============================================================================
@@ -64,6 +165,9 @@ export class AutomergeFsMultiDoc {
   private repo: Repo
   private blobStore: BlobStore
   private fileHandles: Map<string, DocHandle<FileDoc>> = new Map()
+  // Blob writes not yet referenced from the tree, and the gc running, if any
+  private blobWrites = new Set<Promise<unknown>>()
+  private collecting: Promise<GcResult> | null = null
 
   private constructor(handle: DocHandle<FsRootDoc>, repo: Repo, blobStore: BlobStore) {
     this.handle = handle
@@ -76,6 +180,7 @@ export class AutomergeFsMultiDoc {
     handle.change((doc) => {
       doc.tree = {}
       doc.tree["/"] = {
+        id: crypto.randomUUID(),
         type: "directory",
         parent: null,
         name: "/",
@@ -126,14 +231,65 @@ export class AutomergeFsMultiDoc {
     return parts[parts.length - 1] ?? ""
   }
 
+  /**
+   * Resolve symlinks in `path`, returning the canonical tree key.
+   *
+   * Links in intermediate components are always followed; the final
+   * component is followed only when `followLast` is set (lstat/readlink
+   * want the link itself). Relative targets resolve against the link's
+   * directory. Missing components are left as-is so callers report ENOENT.
+   */
+  private resolvePathLinks(path: string, at?: string[], followLast = true): string {
+    const tree = this.getTree(at)
+    let pending = this.normalizePath(path).split("/").filter((p) => p)
+    let resolved = "/"
+    let hops = 0
+
+    while (pending.length > 0) {
+      const part = pending.shift() as string
+      if (part === ".") continue
+      if (part === "..") {
+        resolved = this.getParentPath(resolved)
+        continue
+      }
+      const candidate = resolved === "/" ? `/${part}` : `${resolved}/${part}`
+      const entry = tree[candidate]
+      if (entry?.type === "symlink" && (pending.length > 0 || followLast)) {
+        if (++hops > MAX_SYMLINK_HOPS) {
+          throw new FsError("ELOOP", "too many levels of symbolic links", path)
+        }
+        const target = entry.target ?? ""
+        if (target.startsWith("/")) resolved = "/"
+        pending = [...target.split("/").filter((p) => p), ...pending]
+        continue
+      }
+      resolved = candidate
+    }
+    return resolved
+  }
+
   // ===========================================================================
   // Entry Management
   // ===========================================================================
 
-  private getEntry(path: string): TreeEntry | null {
-    const normalized = this.normalizePath(path)
+  /**
+   * Returns the directory tree, either current or as of the given root heads.
+   * Historical trees come from Automerge.view and are read-only.
+   */
+  private getTree(at?: string[]): Record<string, TreeEntry> {
     const doc = this.handle.doc()
-    return doc?.tree?.[normalized] ?? null
+    if (!doc) return {}
+    if (!at) return doc.tree ?? {}
+    try {
+      return Automerge.view(doc, at as Automerge.Heads).tree ?? {}
+    } catch (e) {
+      throw new Error(`Unknown heads: ${at.join(", ")}`, { cause: e })
+    }
+  }
+
+  private getEntry(path: string, at?: string[]): TreeEntry | null {
+    const normalized = this.normalizePath(path)
+    return this.getTree(at)[normalized] ?? null
   }
 
   private setEntry(path: string, entry: TreeEntry): void {
@@ -181,6 +337,12 @@ export class AutomergeFsMultiDoc {
     return handle
   }
 
+  private getDocHeads<T>(handle: DocHandle<T>): string[] {
+    const doc = handle.doc()
+    if (!doc) return []
+    return [...Automerge.getHeads(doc)]
+  }
+
   private createFileDoc(initialContent: string): DocHandle<FileDoc> {
     const handle = this.repo.create<FileDoc>()
     handle.change((doc) => {
@@ -194,13 +356,13 @@ export class AutomergeFsMultiDoc {
   // Filesystem Operations
   // ===========================================================================
 
-  async readFile(path: string): Promise<Uint8Array> {
-    const entry = this.getEntry(path)
+  async readFile(path: string, at?: string[]): Promise<Uint8Array> {
+    const entry = this.getEntry(this.resolvePathLinks(path, at), at)
     if (!entry) {
-      throw new Error(`ENOENT: no such file or directory: ${path}`)
+      throw new NotFound(path)
     }
     if (entry.type !== "file") {
-      throw new Error(`EISDIR: illegal operation on a directory: ${path}`)
+      throw new IsDirectory(path)
     }
 
     // Binary file in blob store
@@ -215,7 +377,15 @@ export class AutomergeFsMultiDoc {
     // Text file in per-file Automerge doc
     if (entry.fileDocId) {
       const handle = await this.getOrLoadFileHandle(entry.fileDocId)
-      const doc = handle.doc()
+      let doc = handle.doc()
+      if (doc && at) {
+        // Entries written before fileHeads was tracked cannot say which
+        // version of the file doc they had
+        if (!entry.fileHeads) {
+          throw new Error(`history unavailable for this version: ${path}`)
+        }
+        doc = Automerge.view(doc, entry.fileHeads as Automerge.Heads)
+      }
       return new TextEncoder().encode(doc?.content ?? "")
     }
 
@@ -223,13 +393,25 @@ export class AutomergeFsMultiDoc {
   }
 
   async writeFile(path: string, content: string | Uint8Array): Promise<void> {
-    const normalized = this.normalizePath(path)
+    await this.putFile(path, content)
+  }
+
+  private async putFile(
+    path: string,
+    content: string | Uint8Array,
+    copiedFrom?: CopySource
+  ): Promise<void> {
+    // Writing through a link writes its target, like O_CREAT on a symlink
+    const normalized = this.resolvePathLinks(path)
     const parentPath = this.getParentPath(normalized)
 
     // Ensure parent directory exists
     const parent = this.getEntry(parentPath)
-    if (!parent || parent.type !== "directory") {
-      throw new Error(`ENOENT: no such file or directory: ${parentPath}`)
+    if (!parent) {
+      throw new NotFound(parentPath)
+    }
+    if (parent.type !== "directory") {
+      throw new NotDirectory(parentPath)
     }
 
     const bytes =
@@ -243,51 +425,49 @@ export class AutomergeFsMultiDoc {
     if (binary) {
       // Binary file → blob store
       const blobHash = this.createBlobHash(bytes)
-      await this.blobStore.set(blobHash, bytes)
+      // The entry lands before gc can look for references to the new blob
+      await this.writeBlobs(async () => {
+        await this.blobStore.set(blobHash, bytes)
 
-      // Clean up old file doc if switching from text to binary
-      if (existing?.fileDocId) {
-        this.fileHandles.delete(existing.fileDocId)
-      }
+        // Clean up old file doc if switching from text to binary
+        if (existing?.fileDocId) {
+          this.fileHandles.delete(existing.fileDocId)
+        }
 
-      this.setEntry(normalized, {
-        type: "file",
-        parent: parentPath,
-        name: this.getBasename(normalized),
-        metadata: {
-          size,
-          mode: existing?.metadata.mode ?? 0o644,
-          mtime: now,
-          ctime: existing?.metadata.ctime ?? now,
-        },
-        blobHash,
+        this.setEntry(normalized, {
+          ...this.identityOf(existing, copiedFrom),
+          type: "file",
+          parent: parentPath,
+          name: this.getBasename(normalized),
+          metadata: {
+            size,
+            mode: existing?.metadata.mode ?? 0o644,
+            mtime: now,
+            ctime: existing?.metadata.ctime ?? now,
+          },
+          blobHash,
+        })
       })
     } else {
       // Text file → per-file Automerge doc with updateText
       const text =
         typeof content === "string" ? content : new TextDecoder().decode(bytes)
 
-      let fileDocId: string
+      let handle: DocHandle<FileDoc>
 
       if (existing?.fileDocId) {
         // Update existing file doc using updateText for CRDT character-level diffing
-        const handle = await this.getOrLoadFileHandle(existing.fileDocId)
+        handle = await this.getOrLoadFileHandle(existing.fileDocId)
         handle.change((doc) => {
           Automerge.updateText(doc, ["content"], text)
         })
-        fileDocId = existing.fileDocId
       } else {
         // Create new file doc with initial content
-        const handle = this.createFileDoc(text)
-        fileDocId = handle.url
-      }
-
-      // Clean up old blob if switching from binary to text
-      if (existing?.blobHash) {
-        await this.blobStore.delete(existing.blobHash)
+        handle = this.createFileDoc(text)
       }
 
       this.setEntry(normalized, {
+        ...this.identityOf(existing, copiedFrom),
         type: "file",
         parent: parentPath,
         name: this.getBasename(normalized),
@@ -297,7 +477,8 @@ export class AutomergeFsMultiDoc {
           mtime: now,
           ctime: existing?.metadata.ctime ?? now,
         },
-        fileDocId,
+        fileDocId: handle.url,
+        fileHeads: this.getDocHeads(handle),
       })
     }
   }
@@ -320,7 +501,104 @@ export class AutomergeFsMultiDoc {
     await this.writeFile(normalized, existingText + content)
   }
 
-  async stat(path: string): Promise<{
+  /**
+   * Replace exact occurrences of oldString in a text file.
+   *
+   * Applied as Automerge.splice calls on the file doc rather than a whole-file
+   * updateText, so concurrent edits elsewhere in the file merge cleanly.
+   * Returns the number of replacements made.
+   */
+  async editFile(
+    path: string,
+    oldString: string,
+    newString: string,
+    replaceAll = false
+  ): Promise<number> {
+    return this.multiEditFile(path, [{ oldString, newString, replaceAll }])
+  }
+
+  /**
+   * Apply several replacements to one text file as a single Automerge change.
+   *
+   * Edits run in order, each against the result of the previous one. Every
+   * edit is checked before anything is written, so if any of them fails to
+   * match the file is left untouched. Returns the total number of replacements.
+   */
+  async multiEditFile(path: string, edits: ReadonlyArray<FileEdit>): Promise<number> {
+    const normalized = this.resolvePathLinks(path)
+    const entry = this.getEntry(normalized)
+    if (!entry) {
+      throw new NotFound(path)
+    }
+    if (entry.type !== "file") {
+      throw new IsDirectory(path)
+    }
+    if (!entry.fileDocId) {
+      throw new Error(`Cannot edit binary file: ${path}`)
+    }
+    if (edits.length === 0) {
+      throw new Error("No edits provided")
+    }
+
+    const handle = await this.getOrLoadFileHandle(entry.fileDocId)
+    let content = handle.doc()?.content ?? ""
+
+    // Plan every splice against a local copy first
+    const splices: Array<{ index: number; deleteCount: number; insert: string }> = []
+    for (const [i, edit] of edits.entries()) {
+      const prefix = edits.length > 1 ? `edits[${i}]: ` : ""
+      const { oldString, newString } = edit
+      if (oldString === "") {
+        throw new Error(`${prefix}old_string must not be empty`)
+      }
+      if (oldString === newString) {
+        throw new Error(`${prefix}old_string and new_string are identical`)
+      }
+
+      const indices: number[] = []
+      let index = content.indexOf(oldString)
+      while (index !== -1) {
+        indices.push(index)
+        index = content.indexOf(oldString, index + oldString.length)
+      }
+
+      if (indices.length === 0) {
+        throw new Error(`${prefix}old_string not found in ${path}`)
+      }
+      if (indices.length > 1 && !edit.replaceAll) {
+        throw new Error(
+          `${prefix}old_string matches ${indices.length} times in ${path}; add surrounding context to make it unique or set replace_all`
+        )
+      }
+
+      // Splice from the end so earlier indices stay valid
+      for (const at of indices.toReversed()) {
+        splices.push({ index: at, deleteCount: oldString.length, insert: newString })
+        content = content.slice(0, at) + newString + content.slice(at + oldString.length)
+      }
+    }
+
+    handle.change((doc) => {
+      for (const { index, deleteCount, insert } of splices) {
+        Automerge.splice(doc, ["content"], index, deleteCount, insert)
+      }
+    })
+
+    const size = new TextEncoder().encode(content).length
+    const fileHeads = this.getDocHeads(handle)
+    this.handle.change((doc) => {
+      const current = doc.tree[normalized]
+      if (current) {
+        current.metadata.size = size
+        current.metadata.mtime = Date.now()
+        current.fileHeads = fileHeads
+      }
+    })
+
+    return splices.length
+  }
+
+  async stat(path: string, at?: string[]): Promise<{
     size: number
     isFile: boolean
     isDirectory: boolean
@@ -329,16 +607,27 @@ export class AutomergeFsMultiDoc {
     mtime: Date
     ctime: Date
   }> {
-    const entry = this.getEntry(path)
+    const entry = this.getEntry(this.resolvePathLinks(path, at), at)
     if (!entry) {
-      throw new Error(`ENOENT: no such file or directory: ${path}`)
+      throw new NotFound(path)
     }
+    return this.toStat(entry)
+  }
 
+  private toStat(entry: TreeEntry): {
+    size: number
+    isFile: boolean
+    isDirectory: boolean
+    isSymbolicLink: boolean
+    mode: number
+    mtime: Date
+    ctime: Date
+  } {
     return {
       size: entry.metadata.size,
       isFile: entry.type === "file",
       isDirectory: entry.type === "directory",
-      isSymbolicLink: false,
+      isSymbolicLink: entry.type === "symlink",
       mode: entry.metadata.mode,
       mtime: new Date(entry.metadata.mtime),
       ctime: new Date(entry.metadata.ctime),
@@ -346,7 +635,8 @@ export class AutomergeFsMultiDoc {
   }
 
   async readdir(
-    path: string
+    path: string,
+    at?: string[]
   ): Promise<
     Array<{
       name: string
@@ -355,17 +645,17 @@ export class AutomergeFsMultiDoc {
       isSymbolicLink: boolean
     }>
   > {
-    const normalized = this.normalizePath(path)
-    const entry = this.getEntry(normalized)
+    const normalized = this.resolvePathLinks(path, at)
+    const entry = this.getEntry(normalized, at)
 
     if (!entry) {
-      throw new Error(`ENOENT: no such file or directory: ${path}`)
+      throw new NotFound(path)
     }
     if (entry.type !== "directory") {
-      throw new Error(`ENOTDIR: not a directory: ${path}`)
+      throw new NotDirectory(path)
     }
 
-    const doc = this.handle.doc()
+    const tree = this.getTree(at)
     const entries: Array<{
       name: string
       isFile: boolean
@@ -373,13 +663,13 @@ export class AutomergeFsMultiDoc {
       isSymbolicLink: boolean
     }> = []
 
-    for (const [, entryData] of Object.entries(doc?.tree ?? {})) {
+    for (const [, entryData] of Object.entries(tree)) {
       if (entryData.parent === normalized) {
         entries.push({
           name: entryData.name,
           isFile: entryData.type === "file",
           isDirectory: entryData.type === "directory",
-          isSymbolicLink: false,
+          isSymbolicLink: entryData.type === "symlink",
         })
       }
     }
@@ -388,7 +678,7 @@ export class AutomergeFsMultiDoc {
   }
 
   async mkdir(path: string, options?: { recursive?: boolean }): Promise<void> {
-    const normalized = this.normalizePath(path)
+    const normalized = this.resolvePathLinks(path, undefined, false)
 
     // Check if already exists
     const existing = this.getEntry(normalized)
@@ -396,7 +686,7 @@ export class AutomergeFsMultiDoc {
       if (existing.type === "directory") {
         return // Already exists, no-op
       }
-      throw new Error(`EEXIST: file already exists: ${path}`)
+      throw new AlreadyExists(path)
     }
 
     const parentPath = this.getParentPath(normalized)
@@ -408,14 +698,15 @@ export class AutomergeFsMultiDoc {
         // Create parent directories recursively
         await this.mkdir(parentPath, options)
       } else {
-        throw new Error(`ENOENT: no such file or directory: ${parentPath}`)
+        throw new NotFound(parentPath)
       }
     } else if (parent.type !== "directory") {
-      throw new Error(`ENOTDIR: not a directory: ${parentPath}`)
+      throw new NotDirectory(parentPath)
     }
 
     const now = Date.now()
     this.setEntry(normalized, {
+      id: crypto.randomUUID(),
       type: "directory",
       parent: parentPath,
       name: this.getBasename(normalized),
@@ -429,18 +720,14 @@ export class AutomergeFsMultiDoc {
   }
 
   async unlink(path: string): Promise<void> {
-    const normalized = this.normalizePath(path)
+    const normalized = this.resolvePathLinks(path, undefined, false)
     const entry = this.getEntry(normalized)
 
     if (!entry) {
-      throw new Error(`ENOENT: no such file or directory: ${path}`)
-    }
-
-    // If it's a file with a blob, delete the blob
-    if (entry.type === "file" && entry.blobHash) {
-      await this.blobStore.delete(entry.blobHash)
+      throw new NotFound(path)
     }
 
+    // Blobs stay in the store for history; gc() reclaims unreferenced ones
     // Clean up file doc handle cache
     if (entry.type === "file" && entry.fileDocId) {
       this.fileHandles.delete(entry.fileDocId)
@@ -449,8 +736,108 @@ export class AutomergeFsMultiDoc {
     this.deleteEntry(normalized)
   }
 
-  async exists(path: string): Promise<boolean> {
-    return this.getEntry(path) !== null
+  async exists(path: string, at?: string[]): Promise<boolean> {
+    try {
+      return this.getEntry(this.resolvePathLinks(path, at), at) !== null
+    } catch {
+      return false // symlink loop
+    }
+  }
+
+  // ===========================================================================
+  // Search
+  // ===========================================================================
+
+  /**
+   * Path of `fullPath` relative to `base`, or null if it lies outside it.
+   */
+  private relativeTo(base: string, fullPath: string): string | null {
+    if (base === "/") return fullPath.slice(1)
+    if (fullPath.startsWith(base + "/")) return fullPath.slice(base.length + 1)
+    return null
+  }
+
+  /**
+   * Files under `path` whose path matches the glob, newest first.
+   * Relative patterns match against the path relative to `path`;
+   * absolute patterns match against the full path.
+   */
+  async glob(pattern: string, path = "/"): Promise<string[]> {
+    const base = this.normalizePath(path)
+    const matcher = new Bun.Glob(pattern)
+    const tree = this.getTree()
+
+    return Object.entries(tree)
+      .filter(([fullPath, entry]) => {
+        if (entry.type !== "file") return false
+        const candidate = pattern.startsWith("/")
+          ? fullPath
+          : this.relativeTo(base, fullPath)
+        return candidate !== null && matcher.match(candidate)
+      })
+      .sort(([, a], [, b]) => b.metadata.mtime - a.metadata.mtime)
+      .map(([fullPath]) => fullPath)
+  }
+
+  /**
+   * Search text file contents under `path` with a regular expression.
+   * Binary files are skipped. Results are ordered by path.
+   */
+  async grep(pattern: string, options: GrepOptions = {}): Promise<GrepResult> {
+    const regex = new RegExp(pattern, options.ignoreCase ? "i" : "")
+    const base = this.normalizePath(options.path ?? "/")
+    const include = options.include ? new Bun.Glob(options.include) : null
+    const outputMode = options.outputMode ?? "files_with_matches"
+    const context = Math.max(options.context ?? 0, 0)
+
+    const files: string[] = []
+    const counts: Array<{ path: string; count: number }> = []
+    const lines: Array<{ path: string; lineNumber: number; text: string; match: boolean }> = []
+
+    const candidates = Object.entries(this.getTree())
+      .filter(([fullPath, entry]) => {
+        if (entry.type !== "file" || !entry.fileDocId) return false
+        if (fullPath !== base && this.relativeTo(base, fullPath) === null) return false
+        return !include || include.match(this.getBasename(fullPath)) || include.match(fullPath)
+      })
+      .sort(([a], [b]) => a.localeCompare(b))
+
+    for (const [fullPath, entry] of candidates) {
+      const handle = await this.getOrLoadFileHandle(entry.fileDocId as string)
+      const fileLines = (handle.doc()?.content ?? "").split("\n")
+      const matching = fileLines.flatMap((line, i) => (regex.test(line) ? [i] : []))
+      if (matching.length === 0) continue
+
+      files.push(fullPath)
+      counts.push({ path: fullPath, count: matching.length })
+
+      if (outputMode === "content") {
+        const shown = new Set<number>()
+        for (const i of matching) {
+          const from = Math.max(i - context, 0)
+          const to = Math.min(i + context, fileLines.length - 1)
+          for (let j = from; j <= to; j++) shown.add(j)
+        }
+        const matchSet = new Set(matching)
+        for (const j of [...shown].sort((a, b) => a - b)) {
+          lines.push({
+            path: fullPath,
+            lineNumber: j + 1,
+            text: fileLines[j] ?? "",
+            match: matchSet.has(j),
+          })
+        }
+      }
+    }
+
+    switch (outputMode) {
+      case "content":
+        return { mode: "content", lines }
+      case "count":
+        return { mode: "count", counts }
+      default:
+        return { mode: "files_with_matches", files }
+    }
   }
 
   // ===========================================================================
@@ -472,24 +859,205 @@ export class AutomergeFsMultiDoc {
     return [...Automerge.getHeads(doc)]
   }
 
-  async getFileHistory(
-    path: string
-  ): Promise<
-    Array<{
-      hash: string
-      actor: string
-      seq: number
-      timestamp: number
-      message: string | null
-    }>
-  > {
+  async getFileHistory(path: string): Promise<ChangeInfo[]> {
     const entry = this.getEntry(path)
+    if (entry?.blobHash) return this.getBlobHistory(path, entry)
     if (!entry?.fileDocId) return []
-    const handle = await this.getOrLoadFileHandle(entry.fileDocId)
-    const doc = handle.doc()
+    return this.getDocHistory(entry.fileDocId)
+  }
+
+  /**
+   * Versions of a binary file: every root doc change that gave the entry a
+   * new blobHash. Each version's hash is a root head usable with getFileAt.
+   */
+  private getBlobHistory(path: string, entry: TreeEntry): ChangeInfo[] {
+    const doc = this.handle.doc()
     if (!doc) return []
-    const history = Automerge.getHistory(doc)
-    return history.map((state) => ({
+    const versions: ChangeInfo[] = []
+    const normalized = this.normalizePath(path)
+    let previous: string | undefined
+    for (const { change, tree, pathOf } of this.replayTree(doc)) {
+      const at = entry.id ? pathOf(entry.id) : normalized
+      const current = at !== undefined ? tree[at] : undefined
+      const blobHash = current?.blobHash
+      if (current && blobHash && blobHash !== previous) {
+        versions.push({
+          hash: change.hash,
+          actor: change.actor,
+          seq: change.seq,
+          timestamp: change.time,
+          message: change.message ?? null,
+          blobHash,
+          size: current.metadata.size,
+        })
+      }
+      previous = blobHash
+    }
+    return versions
+  }
+
+  /**
+   * Find `entry` in another version of the tree: by stable id when it has
+   * one (so renames are followed), otherwise by path.
+   */
+  private findEntry(
+    tree: Record<string, TreeEntry>,
+    path: string,
+    entry: TreeEntry
+  ): TreeEntry | null {
+    if (entry.id) {
+      return Object.values(tree).find((e) => e.id === entry.id) ?? null
+    }
+    return tree[this.normalizePath(path)] ?? null
+  }
+
+  private getBlobVersion(path: string, entry: TreeEntry, heads: string[]): BlobVersion | null {
+    const match = this.findEntry(this.getTree(heads), path, entry)
+    return match?.blobHash ? { blobHash: match.blobHash, size: match.metadata.size } : null
+  }
+
+  /**
+   * History of a file across renames and copies.
+   *
+   * The root doc history is scanned for the entry's stable id to find every
+   * path it has lived at. If the file was produced by cp, the source's lineage
+   * and content history (up to the moment of the copy) come first.
+   */
+  async getFileLineage(path: string): Promise<FileLineage> {
+    const entry = this.getEntry(path)
+    if (!entry) {
+      throw new NotFound(path)
+    }
+    if (!entry.id) {
+      // Entries written before stable ids existed have no traceable lineage
+      return { id: null, lineage: [], history: await this.getFileHistory(path) }
+    }
+    const { lineage, history } = await this.followEntry(entry.id)
+    return { id: entry.id, lineage, history }
+  }
+
+  private async followEntry(
+    id: string,
+    until?: { hash: string; heads?: string[] }
+  ): Promise<{ lineage: LineageEvent[]; history: ChangeInfo[] }> {
+    const trace = this.traceEntry(id, until?.hash)
+    const lineage: LineageEvent[] = []
+    const history: ChangeInfo[] = []
+
+    const source = trace.entry?.copiedFrom
+    if (source && source.id !== id && trace.copiedAt) {
+      const ancestor = await this.followEntry(source.id, {
+        hash: trace.copiedAt,
+        heads: source.heads,
+      })
+      lineage.push(...ancestor.lineage)
+      history.push(...ancestor.history)
+    }
+
+    lineage.push(...trace.events)
+    if (trace.entry?.fileDocId) {
+      history.push(...(await this.getDocHistory(trace.entry.fileDocId, until?.heads)))
+    }
+    return { lineage, history }
+  }
+
+  /**
+   * Walk the root doc history and record each change where the entry with
+   * this id appeared, moved, or was overwritten by a copy. Stops after the
+   * change `until` when given.
+   */
+  private traceEntry(
+    id: string,
+    until?: string
+  ): { events: LineageEvent[]; entry: TreeEntry | null; copiedAt: string | null } {
+    const doc = this.handle.doc()
+    const events: LineageEvent[] = []
+    let entry: TreeEntry | null = null
+    let copiedAt: string | null = null
+    if (!doc) return { events, entry, copiedAt }
+
+    let previousPath: string | null = null
+    let previousCopy: string | undefined
+    for (const { change, tree, pathOf } of this.replayTree(doc)) {
+      const path = pathOf(id) ?? null
+      const current = path !== null ? tree[path] : undefined
+      if (path !== null && current) {
+        const base = { path, hash: change.hash, timestamp: change.time }
+        const copy = current.copiedFrom
+        if (copy && copy.id !== previousCopy) {
+          events.push({ event: "copied", from: copy.path, ...base })
+          copiedAt = change.hash
+        } else if (previousPath === null) {
+          events.push({ event: "created", from: null, ...base })
+        } else if (path !== previousPath) {
+          events.push({ event: "renamed", from: previousPath, ...base })
+        }
+        previousCopy = copy?.id
+        entry = current
+      }
+      previousPath = path
+      if (change.hash === until) break
+    }
+    return { events, entry, copiedAt }
+  }
+
+  /**
+   * Replay the root doc's changes one at a time, in history order. Each step
+   * costs only that change's patches, unlike getHistory, which rebuilds the
+   * whole document for every state it snapshots.
+   */
+  private *replayTree(doc: Automerge.Doc<FsRootDoc>): Generator<TreeStep> {
+    let state = Automerge.init<FsRootDoc>()
+    const idPaths = new Map<string, string>()
+    const pathIds = new Map<string, string>()
+    const pathOf = (id: string) => idPaths.get(id)
+
+    for (const binary of Automerge.getAllChanges(doc)) {
+      const touched = new Set<string>()
+      ;[state] = Automerge.applyChanges(state, [binary], {
+        patchCallback: (patches, { before, after }) => {
+          for (const { path } of patches) {
+            if (path[0] !== "tree") continue
+            if (typeof path[1] === "string") {
+              touched.add(path[1])
+            } else {
+              // The tree itself was replaced
+              for (const key of Object.keys(before.tree ?? {})) touched.add(key)
+              for (const key of Object.keys(after.tree ?? {})) touched.add(key)
+            }
+          }
+        },
+      })
+
+      const tree = state.tree ?? {}
+      for (const path of touched) {
+        const previousId = pathIds.get(path)
+        if (previousId !== undefined && idPaths.get(previousId) === path) {
+          idPaths.delete(previousId)
+        }
+        pathIds.delete(path)
+        const id = tree[path]?.id
+        if (id) {
+          idPaths.set(id, path)
+          pathIds.set(path, id)
+        }
+      }
+      yield { change: Automerge.decodeChange(binary), tree, touched, pathOf }
+    }
+  }
+
+  private async getDocHistory(
+    fileDocId: string,
+    heads?: string[]
+  ): Promise<ChangeInfo[]> {
+    const handle = await this.getOrLoadFileHandle(fileDocId)
+    const current = handle.doc()
+    if (!current) return []
+    // view() keeps the full change graph, so clone it to drop later changes
+    const doc = heads
+      ? Automerge.clone(Automerge.view(current, heads as Automerge.Heads))
+      : current
+    return Automerge.getHistory(doc).map((state) => ({
       hash: state.change.hash,
       actor: state.change.actor,
       seq: state.change.seq,
@@ -498,8 +1066,22 @@ export class AutomergeFsMultiDoc {
     }))
   }
 
-  async getFileAt(path: string, heads: string[]): Promise<string> {
+  /**
+   * Content of a file at the given heads. Text files take file doc heads and
+   * return a string; binary files take root heads (from their history) and
+   * return the blob bytes.
+   */
+  async getFileAt(path: string, heads: string[]): Promise<string | Uint8Array> {
     const entry = this.getEntry(path)
+    if (entry?.blobHash) {
+      const version = this.getBlobVersion(path, entry, heads)
+      if (!version) return new Uint8Array(0)
+      const blob = await this.blobStore.get(version.blobHash)
+      if (!blob) {
+        throw new Error(`Blob not found: ${version.blobHash}`)
+      }
+      return blob
+    }
     if (!entry?.fileDocId) return ""
     const handle = await this.getOrLoadFileHandle(entry.fileDocId)
     const doc = handle.doc()
@@ -516,8 +1098,20 @@ export class AutomergeFsMultiDoc {
     path: string,
     fromHeads: string[],
     toHeads: string[]
-  ): Promise<Automerge.Patch[]> {
+  ): Promise<Automerge.Patch[] | BinaryDiff> {
     const entry = this.getEntry(path)
+    if (entry?.blobHash) {
+      // Blobs are opaque, so compare versions by hash and size
+      const from = this.getBlobVersion(path, entry, fromHeads)
+      const to = this.getBlobVersion(path, entry, toHeads)
+      return {
+        type: "binary",
+        from,
+        to,
+        changed: from?.blobHash !== to?.blobHash,
+        sizeDelta: (to?.size ?? 0) - (from?.size ?? 0),
+      }
+    }
     if (!entry?.fileDocId) return []
     const handle = await this.getOrLoadFileHandle(entry.fileDocId)
     const doc = handle.doc()
@@ -533,6 +1127,173 @@ export class AutomergeFsMultiDoc {
     }
   }
 
+  /**
+   * Throw if restoring `target` would leave part of it behind: a binary
+   * whose content is gone, or a text file whose version at those heads is
+   * unknown (written before fileHeads was tracked, with no heads passed).
+   */
+  private async checkRestorable(
+    target: Record<string, TreeEntry>,
+    fileHeads: Readonly<Record<string, ReadonlyArray<string>>>
+  ): Promise<void> {
+    const unversioned: string[] = []
+    for (const [path, entry] of Object.entries(target)) {
+      if (entry.blobHash && !(await this.blobStore.has(entry.blobHash))) {
+        throw new Error(`Blob not found: ${entry.blobHash} (${path})`)
+      }
+      if (entry.fileDocId && !(fileHeads[entry.fileDocId] ?? entry.fileHeads)) {
+        unversioned.push(path)
+      }
+    }
+    if (unversioned.length > 0) {
+      throw new Error(`history unavailable for this version: ${unversioned.join(", ")}`)
+    }
+  }
+
+  /**
+   * Roll the whole tree back to the state at the given root heads.
+   *
+   * The historical tree replaces the current one and every text file is
+   * rewritten to the content it had at that point. Both are recorded as new
+   * changes, so the restore itself shows up in history and can be undone.
+   */
+  async restoreTo(
+    heads: string[],
+    fileHeads: Readonly<Record<string, ReadonlyArray<string>>> = {}
+  ): Promise<string[]> {
+    const doc = this.handle.doc()
+    if (!doc) {
+      throw new Error("Root document is not available")
+    }
+
+    let target: Record<string, TreeEntry>
+    try {
+      const viewed = Automerge.view(doc, heads as Automerge.Heads)
+      target = Automerge.toJS(viewed).tree ?? {}
+    } catch (e) {
+      throw new Error(`Unknown heads: ${heads.join(", ")}`, { cause: e })
+    }
+
+    // Fail before touching anything
+    await this.checkRestorable(target, fileHeads)
+
+    // Rewrite file docs to their historical content
+    for (const entry of Object.values(target)) {
+      if (!entry.fileDocId) continue
+      const historicalHeads = fileHeads[entry.fileDocId] ?? entry.fileHeads
+      if (!historicalHeads) continue // ruled out above
+      const handle = await this.getOrLoadFileHandle(entry.fileDocId)
+      const fileDoc = handle.doc()
+      if (!fileDoc) continue
+      const viewed = Automerge.view(fileDoc, historicalHeads as Automerge.Heads)
+      const content = viewed.content ?? ""
+      if (fileDoc.content !== content) {
+        handle.change((d) => {
+          Automerge.updateText(d, ["content"], content)
+        })
+      }
+      entry.fileHeads = this.getDocHeads(handle)
+    }
+
+    this.handle.change(
+      (d) => {
+        for (const path of Object.keys(d.tree)) {
+          if (!(path in target)) {
+            delete d.tree[path]
+          }
+        }
+        for (const [path, entry] of Object.entries(target)) {
+          if (JSON.stringify(d.tree[path]) !== JSON.stringify(entry)) {
+            d.tree[path] = entry
+          }
+        }
+      },
+      { message: `restore ${heads.join(",")}` }
+    )
+
+    for (const [path, entry] of Object.entries(doc.tree)) {
+      if (!(path in target) && entry.fileDocId) {
+        this.fileHandles.delete(entry.fileDocId)
+      }
+    }
+
+    return this.getRootHeads()
+  }
+
+  // ===========================================================================
+  // Named Snapshots
+  // ===========================================================================
+
+  /**
+   * Record the current root heads and every file doc's heads under a name.
+   * Snapshots live in the root doc next to the tree, so they persist with it
+   * and are untouched by restoreTo.
+   */
+  async createSnapshot(name: string): Promise<SnapshotInfo> {
+    if (this.getSnapshot(name)) {
+      throw new AlreadyExists(name, "snapshot already exists")
+    }
+
+    const fileHeads: Record<string, string[]> = {}
+    for (const entry of Object.values(this.handle.doc()?.tree ?? {})) {
+      if (entry.fileDocId) {
+        const handle = await this.getOrLoadFileHandle(entry.fileDocId)
+        fileHeads[entry.fileDocId] = this.getDocHeads(handle)
+      }
+    }
+
+    const record: SnapshotRecord = {
+      name,
+      timestamp: Date.now(),
+      heads: this.getRootHeads(),
+      fileHeads,
+    }
+    this.handle.change(
+      (doc) => {
+        if (!doc.snapshots) {
+          doc.snapshots = {}
+        }
+        doc.snapshots[name] = record
+      },
+      { message: `snapshot ${name}` }
+    )
+    return record
+  }
+
+  listSnapshots(): SnapshotInfo[] {
+    const snapshots = this.handle.doc()?.snapshots ?? {}
+    return Object.values(snapshots)
+      .map((record) => this.toSnapshotInfo(record))
+      .sort((a, b) => a.timestamp - b.timestamp)
+  }
+
+  getSnapshot(name: string): SnapshotInfo | null {
+    const record = this.handle.doc()?.snapshots?.[name]
+    return record ? this.toSnapshotInfo(record) : null
+  }
+
+  deleteSnapshot(name: string): void {
+    if (!this.getSnapshot(name)) {
+      throw new NotFound(name, "no such snapshot")
+    }
+    this.handle.change((doc) => {
+      if (doc.snapshots) {
+        delete doc.snapshots[name]
+      }
+    })
+  }
+
+  private toSnapshotInfo(record: SnapshotRecord): SnapshotInfo {
+    return {
+      name: record.name,
+      timestamp: record.timestamp,
+      heads: [...record.heads],
+      fileHeads: Object.fromEntries(
+        Object.entries(record.fileHeads).map(([id, heads]) => [id, [...heads]])
+      ),
+    }
+  }
+
   get rootDoc() {
     return {
       doc: async () => {
@@ -574,17 +1335,566 @@ export class AutomergeFsMultiDoc {
     return await this.blobStore.list()
   }
 
-  // ===========================================================================
-  // IFileSystem Methods (for just-bash compatibility)
-  // ===========================================================================
+  /**
+   * Write the whole filesystem, history included, to `dataDir` in the layout
+   * AutomergeFsLive loads with the default storage: automerge/, blobs/,
+   * blob-chunks/ and root-doc-id. Used to keep an in-memory session; the
+   * target should be empty or a previous dump of the same filesystem.
+   */
+  async dumpTo(dataDir: string): Promise<DumpResult> {
+    const [{ mkdir }, { join }, { NodeFSStorageAdapter }] = await Promise.all([
+      nodeFs(),
+      import("node:path"),
+      import("@automerge/automerge-repo-storage-nodefs"),
+    ])
+    const automergeDir = join(dataDir, "automerge")
+    await mkdir(automergeDir, { recursive: true })
+
+    const target = new Repo({ storage: new NodeFSStorageAdapter(automergeDir) })
+    let documents = 0
+    for (const url of this.historicalDocUrls()) {
+      const binary = await this.repo.export(url as AutomergeUrl)
+      if (!binary) continue
+      target.import(binary, { docId: parseAutomergeUrl(url as AutomergeUrl).documentId })
+      documents++
+    }
+    await target.shutdown()
 
-  async readFileBuffer(path: string): Promise<Uint8Array> {
-    return this.readFile(path)
+    const blobStore = makeFileSystemBlobStore(dataDir)
+    const hashes = await this.blobStore.list()
+    for (const hash of hashes) {
+      const data = await this.blobStore.get(hash)
+      if (data) await blobStore.set(hash, data)
+    }
+
+    await new FileRootDocPointer(dataDir).set(this.rootDocUrl)
+    return { dataDir, rootDocUrl: this.rootDocUrl, documents, blobs: hashes.length }
   }
 
-  async readdirWithFileTypes(
-    path: string
-  ): Promise<
+  /**
+   * The root doc plus every file doc any tree in history points at. File
+   * docs of deleted files are still needed to restore old trees.
+   */
+  private historicalDocUrls(): Set<string> {
+    const docUrls = new Set<string>([this.handle.url])
+    const doc = this.handle.doc()
+    if (doc) {
+      for (const { tree, touched } of this.replayTree(doc)) {
+        for (const path of touched) {
+          const fileDocId = tree[path]?.fileDocId
+          if (fileDocId) docUrls.add(fileDocId)
+        }
+      }
+    }
+    return docUrls
+  }
+
+  // ===========================================================================
+  // Bundles
+  // ===========================================================================
+
+  /**
+   * Write the whole filesystem to a single bundle file at `path`: every doc
+   * history refers to, every blob, and the snapshot registry in the root doc.
+   */
+  async exportBundle(path: string): Promise<BundleInfo> {
+    const documents = new Map<string, Uint8Array>()
+    for (const url of this.historicalDocUrls()) {
+      const binary = await this.repo.export(url as AutomergeUrl)
+      if (binary) documents.set(url, binary)
+    }
+
+    const blobs = new Map<string, Uint8Array>()
+    for (const hash of await this.blobStore.list()) {
+      const data = await this.blobStore.get(hash)
+      if (data) blobs.set(hash, data)
+    }
+
+    const snapshots = this.listSnapshots().map((s) => s.name)
+    const { writeFile } = await nodeFs()
+    await writeFile(path, encodeBundle({ rootDocUrl: this.rootDocUrl, snapshots, documents, blobs }))
+    return {
+      path,
+      rootDocUrl: this.rootDocUrl,
+      documents: documents.size,
+      blobs: blobs.size,
+      snapshots,
+    }
+  }
+
+  /**
+   * Load a bundle written by exportBundle and switch to its root doc. The
+   * bundle is verified before anything is imported. Refuses to replace a
+   * non-empty tree unless `force` is set; the replaced filesystem's docs
+   * stay in storage but are no longer reachable.
+   */
+  async importBundle(path: string, options: { force?: boolean } = {}): Promise<BundleInfo> {
+    if (!options.force && Object.keys(this.getTree()).some((p) => p !== "/")) {
+      throw new FsError("ENOTEMPTY", "filesystem is not empty; use force to replace it")
+    }
+
+    const { readFile } = await nodeFs()
+    const bundle = decodeBundle(new Uint8Array(await readFile(path)))
+    const { rootDocUrl, snapshots } = bundle.manifest
+    if (!bundle.documents.has(rootDocUrl)) {
+      throw new Error(`Bundle does not contain its root doc ${rootDocUrl}`)
+    }
+
+    for (const [url, binary] of bundle.documents) {
+      this.repo.import(binary, { docId: parseAutomergeUrl(url as AutomergeUrl).documentId })
+    }
+    await this.writeBlobs(async () => {
+      for (const [hash, data] of bundle.blobs) {
+        await this.blobStore.set(hash, data)
+      }
+
+      const handle = await this.repo.find<FsRootDoc>(rootDocUrl as AutomergeUrl)
+      await handle.whenReady()
+      this.handle = handle
+      this.fileHandles.clear()
+    })
+
+    return {
+      path,
+      rootDocUrl,
+      documents: bundle.documents.size,
+      blobs: bundle.blobs.size,
+      snapshots: [...snapshots],
+    }
+  }
+
+  // ===========================================================================
+  // Archives
+  // ===========================================================================
+
+  /**
+   * Write the current tree under `root` to a tar, gzipped tar or zip file at
+   * `path`, with modes and mtimes. Unlike a bundle this carries no history,
+   * only file contents. The format defaults to the one `path`'s extension
+   * names.
+   */
+  async exportArchive(
+    path: string,
+    options: { format?: ArchiveFormat; root?: string } = {}
+  ): Promise<ArchiveResult> {
+    const root = this.normalizePath(options.root ?? "/")
+    const rootEntry = this.getEntry(root)
+    if (!rootEntry) throw new NotFound(root)
+    if (rootEntry.type !== "directory") throw new NotDirectory(root)
+
+    const prefix = root === "/" ? "/" : `${root}/`
+    const tree = this.getTree()
+    const entries: ArchiveEntry[] = []
+    for (const treePath of Object.keys(tree).sort()) {
+      const entry = tree[treePath]!
+      if (!treePath.startsWith(prefix)) continue
+      const base = {
+        path: treePath.slice(prefix.length),
+        mode: entry.metadata.mode,
+        mtime: entry.metadata.mtime,
+      }
+      if (entry.type === "directory") {
+        entries.push({ ...base, type: "directory" })
+      } else if (entry.type === "symlink") {
+        entries.push({ ...base, type: "symlink", target: entry.target ?? "" })
+      } else {
+        entries.push({ ...base, type: "file", data: await this.readFile(treePath) })
+      }
+    }
+
+    const format = options.format ?? formatFromPath(path)
+    const { writeFile } = await nodeFs()
+    await writeFile(path, encodeArchive(format, entries))
+    return { path, format, entries: entries.length }
+  }
+
+  /**
+   * Extract a tar, gzipped tar or zip file into `dest`, creating it if
+   * needed. Files go through writeFile, so binaries land in the blob store
+   * and text in per-file docs; existing files are overwritten and existing
+   * symlinks replaced. Modes and mtimes are applied after the contents,
+   * directories last so their children do not disturb them.
+   */
+  async importArchive(path: string, options: { dest?: string } = {}): Promise<ArchiveResult> {
+    const dest = this.normalizePath(options.dest ?? "/")
+    const { readFile } = await nodeFs()
+    const data = new Uint8Array(await readFile(path))
+    const entries = decodeArchive(data)
+    const target = (p: string) => this.normalizePath(dest === "/" ? `/${p}` : `${dest}/${p}`)
+
+    await this.mkdir(dest, { recursive: true })
+    for (const entry of entries) {
+      const entryPath = target(entry.path)
+      if (entry.type === "directory") {
+        await this.mkdir(entryPath, { recursive: true })
+        continue
+      }
+      await this.mkdir(this.getParentPath(entryPath), { recursive: true })
+      if (this.getEntry(entryPath)?.type === "symlink") await this.unlink(entryPath)
+      if (entry.type === "symlink") {
+        await this.symlink(entry.target ?? "", entryPath)
+      } else {
+        await this.writeFile(entryPath, entry.data ?? new Uint8Array())
+        await this.chmod(entryPath, entry.mode)
+      }
+      await this.utimes(entryPath, entry.mtime, entry.mtime)
+    }
+
+    const directories = entries.filter((e) => e.type === "directory").reverse()
+    for (const entry of directories) {
+      const entryPath = target(entry.path)
+      await this.chmod(entryPath, entry.mode)
+      await this.utimes(entryPath, entry.mtime, entry.mtime)
+    }
+
+    return { path, format: formatOf(data), entries: entries.length }
+  }
+
+  // ===========================================================================
+  // Garbage Collection
+  // ===========================================================================
+
+  /**
+   * Count references to each blob from the trees kept by `retain`:
+   * - "history": the current tree and every historical root doc state
+   * - "snapshots": the current tree and every named snapshot
+   * - "current": the current tree only
+   */
+  blobReferences(retain: BlobRetention = "history"): Map<string, number> {
+    const doc = this.handle.doc()
+    const refs = new Map<string, number>()
+    if (!doc) return refs
+
+    const trees: Array<Record<string, TreeEntry>> = [doc.tree ?? {}]
+    if (retain === "history") {
+      this.countHistoryReferences(doc, refs)
+    } else if (retain === "snapshots") {
+      for (const snapshot of Object.values(doc.snapshots ?? {})) {
+        trees.push(this.getTree([...snapshot.heads]))
+      }
+    }
+
+    for (const tree of trees) {
+      for (const entry of Object.values(tree)) {
+        if (entry.blobHash) {
+          refs.set(entry.blobHash, (refs.get(entry.blobHash) ?? 0) + 1)
+        }
+      }
+    }
+    return refs
+  }
+
+  /**
+   * Add the references of every historical root doc state to `refs`. A
+   * blob's count only moves when a change touches one of its entries, so
+   * each count is added once for the run of states it held for.
+   */
+  private countHistoryReferences(
+    doc: Automerge.Doc<FsRootDoc>,
+    refs: Map<string, number>
+  ): void {
+    const held = new Map<string, { count: number; since: number }>()
+    const blobAt = new Map<string, string>() // path → blobHash in the latest state
+    let states = 0
+    const adjust = (hash: string, delta: number) => {
+      const { count, since } = held.get(hash) ?? { count: 0, since: states }
+      if (count > 0 && states > since) {
+        refs.set(hash, (refs.get(hash) ?? 0) + count * (states - since))
+      }
+      held.set(hash, { count: count + delta, since: states })
+    }
+
+    for (const { tree, touched } of this.replayTree(doc)) {
+      for (const path of touched) {
+        const before = blobAt.get(path)
+        const after = tree[path]?.blobHash
+        if (before === after) continue
+        if (before) adjust(before, -1)
+        if (after) {
+          adjust(after, 1)
+          blobAt.set(path, after)
+        } else {
+          blobAt.delete(path)
+        }
+      }
+      states++
+    }
+    for (const hash of held.keys()) adjust(hash, 0)
+  }
+
+  /**
+   * Delete blobs that no retained tree references. With `dryRun` the
+   * candidates are reported but nothing is deleted.
+   */
+  async gc(options: { dryRun?: boolean; retain?: BlobRetention } = {}): Promise<GcResult> {
+    while (this.collecting) await this.collecting.catch(() => {})
+    const run = this.collect(options)
+    this.collecting = run
+    try {
+      return await run
+    } finally {
+      this.collecting = null
+    }
+  }
+
+  /**
+   * Store blobs and commit the entries that reference them. Runs after any
+   * gc in progress, and gc waits for it, so a new blob is never taken for
+   * garbage between being stored and being referenced.
+   */
+  private async writeBlobs<A>(write: () => Promise<A>): Promise<A> {
+    while (this.collecting) await this.collecting.catch(() => {})
+    const pending = write()
+    this.blobWrites.add(pending)
+    try {
+      return await pending
+    } finally {
+      this.blobWrites.delete(pending)
+    }
+  }
+
+  private async collect(options: { dryRun?: boolean; retain?: BlobRetention }): Promise<GcResult> {
+    await Promise.allSettled(this.blobWrites)
+    const dryRun = options.dryRun ?? false
+    const retain = options.retain ?? "history"
+    const refs = this.blobReferences(retain)
+
+    const removed = (await this.blobStore.list())
+      .filter((hash) => !refs.has(hash))
+      .sort()
+    if (!dryRun) {
+      for (const hash of removed) {
+        await this.blobStore.delete(hash)
+      }
+      await this.blobStore.sweep?.()
+    }
+    return { dryRun, retain, referenced: refs.size, removed }
+  }
+
+  // ===========================================================================
+  // Integrity Check
+  // ===========================================================================
+
+  /**
+   * Check the current tree against its documents and blobs. With `repair`,
+   * a missing root is recreated, orphans move to /lost+found and sizes are
+   * recomputed. Files whose content is gone or corrupt are only truncated to
+   * empty text files (and corrupt blobs deleted) with `truncateLost` as well,
+   * since a doc that failed to load may only be unavailable for now. Tree
+   * repairs land in a single root doc change, and an issue is marked
+   * repaired only if its entry was still there to fix.
+   */
+  async fsck(options: { repair?: boolean; truncateLost?: boolean } = {}): Promise<FsckResult> {
+    const repair = options.repair ?? false
+    const tree = this.getTree()
+    const issues: FsckIssue[] = []
+    const report = (kind: FsckIssue["kind"], path: string, detail: string) =>
+      issues.push({ kind, path, detail, repaired: false })
+
+    const root = tree["/"]
+    const rootMissing = !root || root.type !== "directory"
+    if (rootMissing) report("missing-root", "/", "root directory is missing")
+
+    const orphans: string[] = []
+    const lostContent: string[] = []
+    const corruptBlobs = new Set<string>()
+    const sizes = new Map<string, number>()
+
+    for (const [path, entry] of Object.entries(tree).sort(([a], [b]) => a.localeCompare(b))) {
+      if (path === "/") continue
+
+      const parent = entry.parent === null ? undefined : tree[entry.parent]
+      if (!parent || parent.type !== "directory") {
+        report("orphan", path, `parent ${entry.parent ?? "(none)"} is not a directory`)
+        // An orphan under another orphan moves along with it
+        if (!orphans.some((o) => path.startsWith(o + "/"))) orphans.push(path)
+      }
+
+      const { size, problem } = await this.inspectContent(entry)
+      if (problem) {
+        report(problem.kind, path, problem.detail)
+        lostContent.push(path)
+        if (problem.kind === "corrupt-blob" && entry.blobHash) corruptBlobs.add(entry.blobHash)
+      }
+
+      if (size !== undefined && size !== entry.metadata.size) {
+        report("size-mismatch", path, `metadata.size is ${entry.metadata.size}, content is ${size}`)
+        sizes.set(path, size)
+      }
+    }
+
+    if (!repair || issues.length === 0) {
+      return { repair, checked: Object.keys(tree).length, issues }
+    }
+
+    const found = { rootMissing, sizes, orphans, lostContent, corruptBlobs }
+    return {
+      repair,
+      checked: Object.keys(tree).length,
+      issues: await this.repairFsckIssues(issues, found, options.truncateLost ?? false),
+    }
+  }
+
+  /**
+   * Repair what fsck found and mark the issues that got fixed. Lost content
+   * is only replaced by an empty file, and corrupt blobs deleted, with
+   * `truncateLost`; moving an orphan does not fix its lost content.
+   */
+  private async repairFsckIssues(
+    issues: FsckIssue[],
+    found: {
+      rootMissing: boolean
+      sizes: Map<string, number>
+      orphans: string[]
+      lostContent: string[]
+      corruptBlobs: Set<string>
+    },
+    truncateLost: boolean
+  ): Promise<FsckIssue[]> {
+    const { rootMissing, sizes, orphans } = found
+    // Empty replacement docs are created outside the root doc change
+    const replacements = new Map(
+      (truncateLost ? found.lostContent : []).map((path) => {
+        const handle = this.createFileDoc("")
+        return [path, { fileDocId: handle.url, fileHeads: this.getDocHeads(handle) }] as const
+      })
+    )
+
+    const repaired = this.applyFsckRepairs({ rootMissing, sizes, replacements, orphans })
+
+    if (truncateLost) {
+      for (const hash of found.corruptBlobs) {
+        await this.blobStore.delete(hash)
+      }
+    }
+    return issues.map((issue) => ({
+      ...issue,
+      repaired:
+        repaired.has(issue.path) && (!LOST_CONTENT.has(issue.kind) || replacements.has(issue.path)),
+    }))
+  }
+
+  /**
+   * Content size of a file or symlink entry, or why its content is gone.
+   * Directories have neither.
+   */
+  private async inspectContent(entry: TreeEntry): Promise<{
+    size?: number
+    problem?: { kind: FsckIssue["kind"]; detail: string }
+  }> {
+    if (entry.fileDocId) {
+      try {
+        const handle = await this.getOrLoadFileHandle(entry.fileDocId)
+        return { size: new TextEncoder().encode(handle.doc()?.content ?? "").length }
+      } catch {
+        const detail = `file doc ${entry.fileDocId} does not load`
+        return { problem: { kind: "dangling-file-doc", detail } }
+      }
+    }
+    if (entry.blobHash) {
+      let data: Uint8Array | null
+      try {
+        data = await this.blobStore.get(entry.blobHash)
+      } catch (e) {
+        const detail = `blob ${entry.blobHash} is unreadable: ${String(e)}`
+        return { problem: { kind: "corrupt-blob", detail } }
+      }
+      if (!data) {
+        const detail = `blob ${entry.blobHash} is not in the blob store`
+        return { problem: { kind: "missing-blob", detail } }
+      }
+      if (this.createBlobHash(data) !== entry.blobHash) {
+        const detail = `blob ${entry.blobHash} content does not match its hash`
+        return { problem: { kind: "corrupt-blob", detail } }
+      }
+      return { size: data.length }
+    }
+    if (entry.type === "symlink") {
+      return { size: new TextEncoder().encode(entry.target ?? "").length }
+    }
+    return {}
+  }
+
+  /**
+   * Apply everything fsck found in one root doc change. Returns the paths
+   * that were repaired; entries removed since the check are skipped.
+   */
+  private applyFsckRepairs(repairs: {
+    rootMissing: boolean
+    sizes: Map<string, number>
+    replacements: Map<string, { fileDocId: string; fileHeads: string[] }>
+    orphans: string[]
+  }): Set<string> {
+    const { rootMissing, sizes, replacements, orphans } = repairs
+    const repaired = new Set<string>()
+    const now = Date.now()
+    this.handle.change((doc) => {
+      if (rootMissing) {
+        repaired.add("/")
+        doc.tree["/"] = {
+          id: doc.tree["/"]?.id ?? crypto.randomUUID(),
+          type: "directory",
+          parent: null,
+          name: "/",
+          metadata: { size: 0, mode: 0o755, mtime: now, ctime: now },
+        }
+      }
+
+      for (const [path, size] of sizes) {
+        const entry = doc.tree[path]
+        if (!entry) continue
+        entry.metadata.size = size
+        repaired.add(path)
+      }
+
+      for (const [path, replacement] of replacements) {
+        const entry = doc.tree[path]
+        if (!entry) continue
+        delete entry.blobHash
+        entry.fileDocId = replacement.fileDocId
+        entry.fileHeads = replacement.fileHeads
+        entry.metadata.size = 0
+        entry.metadata.mtime = now
+        repaired.add(path)
+      }
+
+      if (orphans.length === 0) return
+      const lostFound = doc.tree["/lost+found"]
+      if (!lostFound || lostFound.type !== "directory") {
+        doc.tree["/lost+found"] = {
+          id: crypto.randomUUID(),
+          type: "directory",
+          parent: "/",
+          name: "lost+found",
+          metadata: { size: 0, mode: 0o700, mtime: now, ctime: now },
+        }
+      }
+      for (const orphan of orphans) {
+        const moved = Object.keys(doc.tree).filter(
+          (path) => path === orphan || path.startsWith(orphan + "/")
+        )
+        if (moved.length === 0) continue
+        for (const path of moved) repaired.add(path)
+        const name = this.getBasename(orphan)
+        let dest = `/lost+found/${name}`
+        for (let n = 1; doc.tree[dest]; n++) dest = `/lost+found/${name}.${n}`
+        this.moveSubtree(doc, orphan, dest, now)
+      }
+    })
+    return repaired
+  }
+
+  // ===========================================================================
+  // IFileSystem Methods (for just-bash compatibility)
+  // ===========================================================================
+
+  async readFileBuffer(path: string): Promise<Uint8Array> {
+    return this.readFile(path)
+  }
+
+  async readdirWithFileTypes(
+    path: string
+  ): Promise<
     Array<{
       name: string
       isFile(): boolean
@@ -602,11 +1912,11 @@ export class AutomergeFsMultiDoc {
   }
 
   async rm(path: string, opts?: { recursive?: boolean }): Promise<void> {
-    const normalized = this.normalizePath(path)
+    const normalized = this.resolvePathLinks(path, undefined, false)
     const entry = this.getEntry(normalized)
 
     if (!entry) {
-      throw new Error(`ENOENT: no such file or directory: ${path}`)
+      throw new NotFound(path)
     }
 
     if (entry.type === "directory" && opts?.recursive) {
@@ -619,9 +1929,6 @@ export class AutomergeFsMultiDoc {
       }
     }
 
-    if (entry.type === "file" && entry.blobHash) {
-      await this.blobStore.delete(entry.blobHash)
-    }
     if (entry.type === "file" && entry.fileDocId) {
       this.fileHandles.delete(entry.fileDocId)
     }
@@ -634,19 +1941,36 @@ export class AutomergeFsMultiDoc {
     dest: string,
     opts?: { recursive?: boolean }
   ): Promise<void> {
-    const srcEntry = this.getEntry(src)
+    const srcNorm = this.resolvePathLinks(src, undefined, false)
+    const srcEntry = this.getEntry(srcNorm)
     if (!srcEntry) {
-      throw new Error(`ENOENT: no such file or directory: ${src}`)
+      throw new NotFound(src)
     }
 
-    if (srcEntry.type === "file") {
-      const content = await this.readFile(src)
-      await this.writeFile(dest, content)
+    if (srcEntry.type === "symlink") {
+      // cp -r copies the link itself; plain cp copies what it points to
+      if (opts?.recursive) {
+        await this.symlink(srcEntry.target ?? "", dest)
+      } else {
+        await this.cp(await this.realpath(srcNorm), dest, opts)
+      }
+    } else if (srcEntry.type === "file") {
+      const content = await this.readFile(srcNorm)
+      await this.putFile(
+        dest,
+        content,
+        srcEntry.id
+          ? {
+              id: srcEntry.id,
+              path: srcNorm,
+              ...(srcEntry.fileHeads ? { heads: [...srcEntry.fileHeads] } : {}),
+            }
+          : undefined
+      )
     } else if (srcEntry.type === "directory" && opts?.recursive) {
       await this.mkdir(dest, { recursive: true })
-      const children = await this.readdir(src)
-      const srcNorm = this.normalizePath(src)
-      const destNorm = this.normalizePath(dest)
+      const children = await this.readdir(srcNorm)
+      const destNorm = this.resolvePathLinks(dest, undefined, false)
       for (const child of children) {
         const childSrc =
           srcNorm === "/" ? `/${child.name}` : `${srcNorm}/${child.name}`
@@ -655,52 +1979,63 @@ export class AutomergeFsMultiDoc {
         await this.cp(childSrc, childDest, opts)
       }
     } else if (srcEntry.type === "directory") {
-      throw new Error(`EISDIR: is a directory: ${src}`)
+      throw new IsDirectory(src)
     }
   }
 
+  /**
+   * Move or rename a file or directory.
+   *
+   * Directory moves re-parent every descendant in a single root doc change.
+   * Entries keep their fileDocId/blobHash, so file history follows the move.
+   */
   async mv(src: string, dest: string): Promise<void> {
-    const srcEntry = this.getEntry(src)
+    const srcNorm = this.resolvePathLinks(src, undefined, false)
+    const destNorm = this.resolvePathLinks(dest, undefined, false)
+    const srcEntry = this.getEntry(srcNorm)
     if (!srcEntry) {
-      throw new Error(`ENOENT: no such file or directory: ${src}`)
+      throw new NotFound(src)
     }
+    if (srcNorm === destNorm) return
 
-    if (srcEntry.type === "file") {
-      // Move file: preserve fileDocId/blobHash, just update tree entry
-      const destNorm = this.normalizePath(dest)
-      const parentPath = this.getParentPath(destNorm)
-      const parent = this.getEntry(parentPath)
-      if (!parent || parent.type !== "directory") {
-        throw new Error(`ENOENT: no such file or directory: ${parentPath}`)
-      }
+    const parentPath = this.getParentPath(destNorm)
+    const parent = this.getEntry(parentPath)
+    if (!parent) {
+      throw new NotFound(parentPath)
+    }
+    if (parent.type !== "directory") {
+      throw new NotDirectory(parentPath)
+    }
 
-      const now = Date.now()
-      const newEntry: TreeEntry = {
-        type: srcEntry.type,
-        parent: parentPath,
-        name: this.getBasename(destNorm),
-        metadata: {
-          size: srcEntry.metadata.size,
-          mode: srcEntry.metadata.mode,
-          mtime: now,
-          ctime: srcEntry.metadata.ctime,
-        },
+    const destEntry = this.getEntry(destNorm)
+    if (srcEntry.type === "directory") {
+      if (srcNorm === "/") {
+        throw new FsError("EBUSY", "cannot move the root directory")
       }
-      if (srcEntry.fileDocId) newEntry.fileDocId = srcEntry.fileDocId
-      if (srcEntry.blobHash) newEntry.blobHash = srcEntry.blobHash
-
-      this.setEntry(destNorm, newEntry)
-      this.deleteEntry(src)
-    } else {
-      throw new Error("Moving directories is not currently supported")
+      if (destNorm.startsWith(srcNorm + "/")) {
+        throw new FsError("EINVAL", `cannot move a directory into itself: ${src} -> ${dest}`)
+      }
+      if (destEntry && destEntry.type !== "directory") {
+        throw new NotDirectory(dest)
+      }
+      if (destEntry && Object.values(this.getTree()).some((e) => e.parent === destNorm)) {
+        throw new NotEmpty(dest)
+      }
+    } else if (destEntry?.type === "directory") {
+      throw new IsDirectory(dest)
     }
+
+    const now = Date.now()
+    this.handle.change((doc) => {
+      this.moveSubtree(doc, srcNorm, destNorm, now)
+    })
   }
 
   async chmod(path: string, mode: number): Promise<void> {
-    const normalized = this.normalizePath(path)
+    const normalized = this.resolvePathLinks(path, undefined, false)
     const entry = this.getEntry(normalized)
     if (!entry) {
-      throw new Error(`ENOENT: no such file or directory: ${path}`)
+      throw new NotFound(path)
     }
 
     this.handle.change((doc) => {
@@ -719,23 +2054,64 @@ export class AutomergeFsMultiDoc {
     mtime: Date
     ctime: Date
   }> {
-    return this.stat(path) // No real symlinks
+    const entry = this.getEntry(this.resolvePathLinks(path, undefined, false))
+    if (!entry) {
+      throw new NotFound(path)
+    }
+    return this.toStat(entry)
   }
 
-  async symlink(): Promise<void> {
-    throw new Error("Symbolic links are not supported in AutomergeFs")
+  /**
+   * Create a symlink at `linkPath` pointing to `target`. The target is stored
+   * verbatim and need not exist.
+   */
+  async symlink(target: string, linkPath: string): Promise<void> {
+    const normalized = this.resolvePathLinks(linkPath, undefined, false)
+    if (this.getEntry(normalized)) {
+      throw new AlreadyExists(linkPath)
+    }
+    const parentPath = this.getParentPath(normalized)
+    const parent = this.getEntry(parentPath)
+    if (!parent) {
+      throw new NotFound(parentPath)
+    }
+    if (parent.type !== "directory") {
+      throw new NotDirectory(parentPath)
+    }
+
+    const now = Date.now()
+    this.setEntry(normalized, {
+      id: crypto.randomUUID(),
+      type: "symlink",
+      parent: parentPath,
+      name: this.getBasename(normalized),
+      metadata: {
+        size: new TextEncoder().encode(target).length,
+        mode: 0o777,
+        mtime: now,
+        ctime: now,
+      },
+      target,
+    })
   }
 
   async link(): Promise<void> {
-    throw new Error("Hard links are not supported in AutomergeFs")
+    throw new FsError("ENOTSUP", "hard links are not supported in AutomergeFs")
   }
 
-  async readlink(): Promise<string> {
-    throw new Error("Symbolic links are not supported in AutomergeFs")
+  async readlink(path: string): Promise<string> {
+    const entry = this.getEntry(this.resolvePathLinks(path, undefined, false))
+    if (!entry) {
+      throw new NotFound(path)
+    }
+    if (entry.type !== "symlink") {
+      throw new FsError("EINVAL", "not a symbolic link", path)
+    }
+    return entry.target ?? ""
   }
 
   async realpath(path: string): Promise<string> {
-    return this.normalizePath(path)
+    return this.resolvePathLinks(path)
   }
 
   resolvePath(base: string, ...paths: string[]): string {
@@ -757,10 +2133,10 @@ export class AutomergeFsMultiDoc {
   }
 
   async utimes(path: string, _atime: number, mtime: number): Promise<void> {
-    const normalized = this.normalizePath(path)
+    const normalized = this.resolvePathLinks(path, undefined, false)
     const entry = this.getEntry(normalized)
     if (!entry) {
-      throw new Error(`ENOENT: no such file or directory: ${path}`)
+      throw new NotFound(path)
     }
 
     this.handle.change((doc) => {
@@ -774,6 +2150,55 @@ export class AutomergeFsMultiDoc {
   // Helpers
   // ===========================================================================
 
+  /**
+   * Re-key `src` and everything under it to `dest` inside a change, fixing
+   * up parent pointers. `dest`'s parent must already exist.
+   */
+  private moveSubtree(doc: FsRootDoc, src: string, dest: string, now: number): void {
+    const moved = Object.entries(doc.tree)
+      .filter(([path]) => path === src || path.startsWith(src + "/"))
+      .map(([path, entry]) => [path, this.cloneEntry(entry)] as const)
+
+    for (const [path] of moved) {
+      delete doc.tree[path]
+    }
+
+    for (const [path, entry] of moved) {
+      const newPath = dest + path.slice(src.length)
+      if (path === src) {
+        entry.parent = this.getParentPath(dest)
+        entry.name = this.getBasename(dest)
+        entry.metadata.mtime = now
+      } else if (entry.parent) {
+        entry.parent = dest + entry.parent.slice(src.length)
+      }
+      doc.tree[newPath] = entry
+    }
+  }
+
+  /**
+   * Plain copy of a tree entry, detached from the document so it can be
+   * written back under a different key.
+   */
+  private cloneEntry(entry: TreeEntry): TreeEntry {
+    return JSON.parse(JSON.stringify(entry)) as TreeEntry
+  }
+
+  /**
+   * Identity fields for a rewritten file entry: the existing id is kept, and
+   * copy lineage is replaced only when the write comes from cp.
+   */
+  private identityOf(
+    existing: TreeEntry | null,
+    copiedFrom?: CopySource
+  ): Pick<TreeEntry, "id" | "copiedFrom"> {
+    const source = copiedFrom ?? existing?.copiedFrom
+    return {
+      id: existing?.id ?? crypto.randomUUID(),
+      ...(source ? { copiedFrom: JSON.parse(JSON.stringify(source)) as CopySource } : {}),
+    }
+  }
+
   private createBlobHash(data: Uint8Array): string {
     const hasher = new Bun.CryptoHasher("sha256")
     hasher.update(data)
@@ -787,44 +2212,69 @@ export class AutomergeFsMultiDoc {
 
 export interface AutomergeFsService {
   readonly readFile: (
-    path: string
-  ) => Effect.Effect<Uint8Array, FileReadError | FileNotFoundError>
+    path: string,
+    at?: string[]
+  ) => Effect.Effect<Uint8Array, FileReadError | ErrnoError>
 
   readonly writeFile: (
     path: string,
     content: string | Uint8Array
-  ) => Effect.Effect<void, FileWriteError>
+  ) => Effect.Effect<void, FileWriteError | ErrnoError>
 
   readonly appendFile: (
     path: string,
     content: string
-  ) => Effect.Effect<void, FileWriteError>
+  ) => Effect.Effect<void, FileWriteError | ErrnoError>
+
+  readonly editFile: (
+    path: string,
+    oldString: string,
+    newString: string,
+    replaceAll?: boolean
+  ) => Effect.Effect<number, FileEditError | ErrnoError>
+
+  readonly multiEditFile: (
+    path: string,
+    edits: ReadonlyArray<FileEdit>
+  ) => Effect.Effect<number, FileEditError | ErrnoError>
 
   readonly stat: (
-    path: string
-  ) => Effect.Effect<FileStat, FileStatError | FileNotFoundError>
+    path: string,
+    at?: string[]
+  ) => Effect.Effect<FileStat, FileStatError | ErrnoError>
 
   readonly readdir: (
-    path: string
-  ) => Effect.Effect<DirEntry[], DirectoryReadError>
+    path: string,
+    at?: string[]
+  ) => Effect.Effect<DirEntry[], DirectoryReadError | ErrnoError>
+
+  readonly glob: (
+    pattern: string,
+    path?: string
+  ) => Effect.Effect<string[], SearchError>
+
+  readonly grep: (
+    pattern: string,
+    options?: GrepOptions
+  ) => Effect.Effect<GrepResult, SearchError>
 
   readonly mkdir: (
     path: string,
     options?: { recursive?: boolean }
-  ) => Effect.Effect<void, DirectoryCreateError>
+  ) => Effect.Effect<void, DirectoryCreateError | ErrnoError>
 
   readonly unlink: (
     path: string
-  ) => Effect.Effect<void, FileDeleteError | FileNotFoundError>
+  ) => Effect.Effect<void, FileDeleteError | ErrnoError>
 
-  readonly exists: (path: string) => Effect.Effect<boolean>
+  readonly exists: (path: string, at?: string[]) => Effect.Effect<boolean>
 
   readonly rename: (
     oldPath: string,
     newPath: string
   ) => Effect.Effect<
     void,
-    FileReadError | FileWriteError | FileDeleteError | FileNotFoundError
+    FileReadError | FileWriteError | FileDeleteError | ErrnoError
   >
 
   readonly copy: (
@@ -832,24 +2282,68 @@ export interface AutomergeFsService {
     dest: string
   ) => Effect.Effect<
     void,
-    FileReadError | FileWriteError | FileNotFoundError
+    FileReadError | FileWriteError | ErrnoError
   >
 
   // Version control
   readonly getRootHeads: () => Effect.Effect<string[]>
   readonly getFileHeads: (path: string) => Effect.Effect<string[]>
   readonly getFileHistory: (path: string) => Effect.Effect<unknown[]>
-  readonly getFileAt: (path: string, heads: string[]) => Effect.Effect<string>
+  readonly getFileLineage: (
+    path: string
+  ) => Effect.Effect<FileLineage, FileReadError | ErrnoError>
+  readonly getFileAt: (
+    path: string,
+    heads: string[]
+  ) => Effect.Effect<string | Uint8Array>
   readonly diff: (
     path: string,
     fromHeads: string[],
     toHeads: string[]
-  ) => Effect.Effect<unknown[]>
+  ) => Effect.Effect<unknown[] | BinaryDiff>
   readonly getRootDoc: () => Effect.Effect<{ operationLog?: unknown[] } | null>
+  readonly restoreTo: (
+    heads: string[],
+    fileHeads?: Readonly<Record<string, ReadonlyArray<string>>>
+  ) => Effect.Effect<string[], RestoreError>
+
+  // Named snapshots
+  readonly createSnapshot: (name: string) => Effect.Effect<SnapshotInfo, SnapshotError>
+  readonly listSnapshots: () => Effect.Effect<SnapshotInfo[]>
+  readonly getSnapshot: (name: string) => Effect.Effect<SnapshotInfo, SnapshotNotFoundError>
+  readonly deleteSnapshot: (name: string) => Effect.Effect<void, SnapshotNotFoundError>
 
   // Metadata
   readonly getAllDocumentIds: () => Effect.Effect<string[]>
   readonly getAllBlobHashes: () => Effect.Effect<string[]>
+
+  // Garbage collection
+  readonly gc: (options?: {
+    dryRun?: boolean
+    retain?: BlobRetention
+  }) => Effect.Effect<GcResult, GarbageCollectionError>
+
+  // Integrity check
+  readonly fsck: (options?: {
+    repair?: boolean
+    truncateLost?: boolean
+  }) => Effect.Effect<FsckResult, FsckError>
+
+  // Persistence
+  readonly dump: (dataDir: string) => Effect.Effect<DumpResult, DumpError>
+  readonly exportBundle: (path: string) => Effect.Effect<BundleInfo, BundleError>
+  readonly importBundle: (
+    path: string,
+    options?: { force?: boolean }
+  ) => Effect.Effect<BundleInfo, BundleError>
+  readonly exportArchive: (
+    path: string,
+    options?: { format?: ArchiveFormat; root?: string }
+  ) => Effect.Effect<ArchiveResult, ArchiveError>
+  readonly importArchive: (
+    path: string,
+    options?: { dest?: string }
+  ) => Effect.Effect<ArchiveResult, ArchiveError>
 }
 
 export class AutomergeFs extends Context.Tag("AutomergeFs")<
@@ -867,36 +2361,46 @@ export class AutomergeFsInstance extends Context.Tag("AutomergeFsInstance")<
 // =============================================================================
 
 /**
- * AutomergeFsLive — reads DaemonConfig + StorageAdapter + BlobStoreTag,
+ * AutomergeFsLive — reads RootDocPointer + StorageAdapter + BlobStoreTag,
  * creates Repo, loads/creates AutomergeFsMultiDoc, provides both
- * AutomergeFs (wrapped service) and AutomergeFsInstance (raw class)
+ * AutomergeFs (wrapped service) and AutomergeFsInstance (raw class).
+ * Pending document saves are flushed when the layer is released, before
+ * the storage it depends on is closed.
  */
-export const AutomergeFsLive = Layer.effectContext(
+export const AutomergeFsLive = Layer.scopedContext(
   Effect.gen(function* () {
-    const config = yield* DaemonConfig
+    const pointer = yield* RootDocPointerTag
     const storage = yield* StorageAdapter
     const blobStore = yield* BlobStoreTag
 
     const repo = new Repo({ storage })
+    yield* Effect.addFinalizer(() => Effect.promise(() => repo.shutdown()))
 
-    const rootDocIdFile = join(config.dataDir, "root-doc-id")
+    const existing = yield* Effect.promise(() => pointer.get())
     let fs: AutomergeFsMultiDoc
 
-    if (existsSync(rootDocIdFile)) {
-      const rootDocUrl = readFileSync(rootDocIdFile, "utf-8").trim()
-      console.log(`Loading existing filesystem: ${rootDocUrl}`)
+    if (existing) {
+      console.log(`Loading existing filesystem: ${existing}`)
       fs = yield* Effect.promise(() =>
-        AutomergeFsMultiDoc.load({ repo, blobStore, rootDocUrl })
+        AutomergeFsMultiDoc.load({ repo, blobStore, rootDocUrl: existing })
       )
     } else {
       console.log("Creating new filesystem...")
       fs = yield* Effect.promise(() =>
         AutomergeFsMultiDoc.create({ repo, blobStore })
       )
-      writeFileSync(rootDocIdFile, fs.rootDocUrl, "utf-8")
+      yield* Effect.promise(() => pointer.set(fs.rootDocUrl))
     }
 
-    const fsService = wrapAutomergeFsInstance(fs)
+    const wrapped = wrapAutomergeFsInstance(fs)
+    const fsService: AutomergeFsService = {
+      ...wrapped,
+      // Point the next start at the imported root doc
+      importBundle: (path, options) =>
+        wrapped.importBundle(path, options).pipe(
+          Effect.tap((info) => Effect.promise(() => pointer.set(info.rootDocUrl)))
+        ),
+    }
 
     return Context.empty().pipe(
       Context.add(AutomergeFs, fsService),
@@ -905,43 +2409,95 @@ export const AutomergeFsLive = Layer.effectContext(
   })
 )
 
+/**
+ * AutomergeFsMemoryLive — like AutomergeFsLive but without a RootDocPointer:
+ * always starts an empty filesystem and never records its root doc.
+ * Pair with the in-memory storage layers; `dump` persists it on demand.
+ */
+export const AutomergeFsMemoryLive = Layer.scopedContext(
+  Effect.gen(function* () {
+    const storage = yield* StorageAdapter
+    const blobStore = yield* BlobStoreTag
+
+    const repo = new Repo({ storage })
+    yield* Effect.addFinalizer(() => Effect.promise(() => repo.shutdown()))
+
+    const fs = yield* Effect.promise(() =>
+      AutomergeFsMultiDoc.create({ repo, blobStore })
+    )
+
+    return Context.empty().pipe(
+      Context.add(AutomergeFs, wrapAutomergeFsInstance(fs)),
+      Context.add(AutomergeFsInstance, fs),
+    )
+  })
+)
+
 // =============================================================================
 // Service Factory
 // =============================================================================
 
+/**
+ * The tagged error for an errno error thrown by AutomergeFsMultiDoc, or
+ * undefined for anything else, which callers wrap with their own context.
+ * The thrown error's path wins: it names the component that failed, e.g.
+ * the missing parent of a file being written.
+ */
+function errnoError(e: unknown, path: string): ErrnoError | undefined {
+  if (!(e instanceof FsError)) return undefined
+  const at = { path: e.path ?? path }
+  if (e instanceof NotFound) return new FileNotFoundError(at)
+  if (e instanceof IsDirectory) return new IsDirectoryError(at)
+  if (e instanceof NotDirectory) return new NotDirectoryError(at)
+  if (e instanceof AlreadyExists) return new AlreadyExistsError(at)
+  if (e instanceof NotEmpty) return new DirectoryNotEmptyError(at)
+  if (e instanceof PermissionDenied) return new PermissionDeniedError(at)
+  return undefined
+}
+
 /**
  * Wraps an AutomergeFsMultiDoc instance into an AutomergeFsService.
  */
 export function wrapAutomergeFsInstance(fs: AutomergeFsMultiDoc): AutomergeFsService {
   return {
-    readFile: (path: string) =>
+    readFile: (path: string, at?: string[]) =>
       Effect.tryPromise({
-        try: () => fs.readFile(path),
-        catch: (e) => {
-          const err = e as Error
-          if (err.message?.includes("not found") || err.message?.includes("ENOENT")) {
-            return new FileNotFoundError({ path })
-          }
-          return new FileReadError({ path, cause: e })
-        },
+        try: () => fs.readFile(path, at),
+        catch: (e) => errnoError(e, path) ?? new FileReadError({ path, cause: e }),
       }),
 
     writeFile: (path: string, content: string | Uint8Array) =>
       Effect.tryPromise({
         try: () => fs.writeFile(path, content),
-        catch: (e) => new FileWriteError({ path, cause: e }),
+        catch: (e) => errnoError(e, path) ?? new FileWriteError({ path, cause: e }),
       }),
 
     appendFile: (path: string, content: string) =>
       Effect.tryPromise({
         try: () => fs.appendFile(path, content),
-        catch: (e) => new FileWriteError({ path, cause: e }),
+        catch: (e) => errnoError(e, path) ?? new FileWriteError({ path, cause: e }),
+      }),
+
+    editFile: (path: string, oldString: string, newString: string, replaceAll?: boolean) =>
+      Effect.tryPromise({
+        try: () => fs.editFile(path, oldString, newString, replaceAll),
+        catch: (e) =>
+          errnoError(e, path) ??
+          new FileEditError({ path, message: e instanceof Error ? e.message : String(e) }),
+      }),
+
+    multiEditFile: (path: string, edits: ReadonlyArray<FileEdit>) =>
+      Effect.tryPromise({
+        try: () => fs.multiEditFile(path, edits),
+        catch: (e) =>
+          errnoError(e, path) ??
+          new FileEditError({ path, message: e instanceof Error ? e.message : String(e) }),
       }),
 
-    stat: (path: string) =>
+    stat: (path: string, at?: string[]) =>
       Effect.tryPromise({
         try: async () => {
-          const s = await fs.stat(path)
+          const s = await fs.stat(path, at)
           return {
             size: s.size,
             isFile: s.isFile,
@@ -952,67 +2508,55 @@ export function wrapAutomergeFsInstance(fs: AutomergeFsMultiDoc): AutomergeFsSer
             ctime: s.ctime.toISOString(),
           }
         },
-        catch: (e) => {
-          const err = e as Error
-          if (err.message?.includes("not found") || err.message?.includes("ENOENT")) {
-            return new FileNotFoundError({ path })
-          }
-          return new FileStatError({ path, cause: e })
-        },
+        catch: (e) => errnoError(e, path) ?? new FileStatError({ path, cause: e }),
       }),
 
-    readdir: (path: string) =>
+    readdir: (path: string, at?: string[]) =>
       Effect.tryPromise({
-        try: () => fs.readdir(path) as Promise<Array<{ name: string; isFile: boolean; isDirectory: boolean; isSymbolicLink: boolean }>>,
-        catch: (e) => new DirectoryReadError({ path, cause: e }),
+        try: () => fs.readdir(path, at) as Promise<Array<{ name: string; isFile: boolean; isDirectory: boolean; isSymbolicLink: boolean }>>,
+        catch: (e) => errnoError(e, path) ?? new DirectoryReadError({ path, cause: e }),
+      }),
+
+    glob: (pattern: string, path?: string) =>
+      Effect.tryPromise({
+        try: () => fs.glob(pattern, path),
+        catch: (e) => new SearchError({ pattern, cause: e }),
+      }),
+
+    grep: (pattern: string, options?: GrepOptions) =>
+      Effect.tryPromise({
+        try: () => fs.grep(pattern, options),
+        catch: (e) => new SearchError({ pattern, cause: e }),
       }),
 
     mkdir: (path: string, options?: { recursive?: boolean }) =>
       Effect.tryPromise({
         try: () => fs.mkdir(path, options),
-        catch: (e) => new DirectoryCreateError({ path, cause: e }),
+        catch: (e) => errnoError(e, path) ?? new DirectoryCreateError({ path, cause: e }),
       }),
 
     unlink: (path: string) =>
       Effect.tryPromise({
         try: () => fs.unlink(path),
-        catch: (e) => {
-          const err = e as Error
-          if (err.message?.includes("not found") || err.message?.includes("ENOENT")) {
-            return new FileNotFoundError({ path })
-          }
-          return new FileDeleteError({ path, cause: e })
-        },
+        catch: (e) => errnoError(e, path) ?? new FileDeleteError({ path, cause: e }),
       }),
 
-    exists: (path: string) =>
+    exists: (path: string, at?: string[]) =>
       Effect.tryPromise({
-        try: () => fs.exists(path),
+        try: () => fs.exists(path, at),
         catch: () => false,
       }).pipe(Effect.catchAll(() => Effect.succeed(false))),
 
     rename: (oldPath: string, newPath: string) =>
       Effect.tryPromise({
         try: () => fs.mv(oldPath, newPath),
-        catch: (e) => {
-          const err = e as Error
-          if (err.message?.includes("not found") || err.message?.includes("ENOENT")) {
-            return new FileNotFoundError({ path: oldPath })
-          }
-          return new FileWriteError({ path: newPath, cause: e })
-        },
+        catch: (e) => errnoError(e, oldPath) ?? new FileWriteError({ path: newPath, cause: e }),
       }),
 
     copy: (src: string, dest: string) =>
       Effect.tryPromise({
         try: () => fs.cp(src, dest),
-        catch: (e) => {
-          const err = e as Error
-          if (err.message?.includes("not found") || err.message?.includes("ENOENT")) {
-            return new FileNotFoundError({ path: src })
-          }
-          return new FileWriteError({ path: dest, cause: e })
-        },
+        catch: (e) => errnoError(e, src) ?? new FileWriteError({ path: dest, cause: e }),
       }),
 
     getRootHeads: () =>
@@ -1030,17 +2574,23 @@ export function wrapAutomergeFsInstance(fs: AutomergeFsMultiDoc): AutomergeFsSer
         catch: () => [] as unknown[],
       }).pipe(Effect.catchAll(() => Effect.succeed([] as unknown[]))),
 
+    getFileLineage: (path: string) =>
+      Effect.tryPromise({
+        try: () => fs.getFileLineage(path),
+        catch: (e) => errnoError(e, path) ?? new FileReadError({ path, cause: e }),
+      }),
+
     getFileAt: (path: string, heads: string[]) =>
       Effect.tryPromise({
         try: () => fs.getFileAt(path, heads),
         catch: () => "",
-      }).pipe(Effect.catchAll(() => Effect.succeed(""))),
+      }).pipe(Effect.catchAll(() => Effect.succeed<string | Uint8Array>(""))),
 
     diff: (path: string, fromHeads: string[], toHeads: string[]) =>
       Effect.tryPromise({
-        try: () => fs.diff(path, fromHeads, toHeads) as Promise<unknown[]>,
+        try: () => fs.diff(path, fromHeads, toHeads) as Promise<unknown[] | BinaryDiff>,
         catch: () => [] as unknown[],
-      }).pipe(Effect.catchAll(() => Effect.succeed([] as unknown[]))),
+      }).pipe(Effect.catchAll(() => Effect.succeed<unknown[] | BinaryDiff>([]))),
 
     getRootDoc: () =>
       Effect.tryPromise({
@@ -1051,6 +2601,35 @@ export function wrapAutomergeFsInstance(fs: AutomergeFsMultiDoc): AutomergeFsSer
         catch: () => null,
       }).pipe(Effect.catchAll(() => Effect.succeed(null))),
 
+    restoreTo: (heads: string[], fileHeads?: Readonly<Record<string, ReadonlyArray<string>>>) =>
+      Effect.tryPromise({
+        try: () => fs.restoreTo(heads, fileHeads),
+        catch: (e) => new RestoreError({ heads, cause: e }),
+      }),
+
+    createSnapshot: (name: string) =>
+      Effect.tryPromise({
+        try: () => fs.createSnapshot(name),
+        catch: (e) => new SnapshotError({ name, cause: e }),
+      }),
+
+    listSnapshots: () =>
+      Effect.sync(() => fs.listSnapshots()),
+
+    getSnapshot: (name: string) =>
+      Effect.suspend(() => {
+        const snapshot = fs.getSnapshot(name)
+        return snapshot
+          ? Effect.succeed(snapshot)
+          : Effect.fail(new SnapshotNotFoundError({ name }))
+      }),
+
+    deleteSnapshot: (name: string) =>
+      Effect.try({
+        try: () => fs.deleteSnapshot(name),
+        catch: () => new SnapshotNotFoundError({ name }),
+      }),
+
     getAllDocumentIds: () =>
       Effect.tryPromise({
         try: () => fs.getAllDocumentIds(),
@@ -1062,5 +2641,47 @@ export function wrapAutomergeFsInstance(fs: AutomergeFsMultiDoc): AutomergeFsSer
         try: () => fs.getAllBlobHashes(),
         catch: () => [] as string[],
       }).pipe(Effect.catchAll(() => Effect.succeed([] as string[]))),
+
+    gc: (options?: { dryRun?: boolean; retain?: BlobRetention }) =>
+      Effect.tryPromise({
+        try: () => fs.gc(options),
+        catch: (e) => new GarbageCollectionError({ cause: e }),
+      }),
+
+    fsck: (options?: { repair?: boolean; truncateLost?: boolean }) =>
+      Effect.tryPromise({
+        try: () => fs.fsck(options),
+        catch: (e) => new FsckError({ cause: e }),
+      }),
+
+    dump: (dataDir: string) =>
+      Effect.tryPromise({
+        try: () => fs.dumpTo(dataDir),
+        catch: (e) => new DumpError({ dataDir, cause: e }),
+      }),
+
+    exportBundle: (path: string) =>
+      Effect.tryPromise({
+        try: () => fs.exportBundle(path),
+        catch: (e) => new BundleError({ path, cause: e }),
+      }),
+
+    importBundle: (path: string, options?: { force?: boolean }) =>
+      Effect.tryPromise({
+        try: () => fs.importBundle(path, options),
+        catch: (e) => new BundleError({ path, cause: e }),
+      }),
+
+    exportArchive: (path: string, options?: { format?: ArchiveFormat; root?: string }) =>
+      Effect.tryPromise({
+        try: () => fs.exportArchive(path, options),
+        catch: (e) => new ArchiveError({ path, cause: e }),
+      }),
+
+    importArchive: (path: string, options?: { dest?: string }) =>
+      Effect.tryPromise({
+        try: () => fs.importArchive(path, options),
+        catch: (e) => new ArchiveError({ path, cause: e }),
+      }),
   }
 }
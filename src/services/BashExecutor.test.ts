@@ -1,6 +1,11 @@
 import { test, expect, describe } from "bun:test";
-import { Effect, Layer } from "effect";
-import { BashExecutor, SimpleBashExecutorLive } from "./BashExecutor";
+import { Effect, Exit, Layer } from "effect";
+import { DaemonConfig } from "../daemon/DaemonConfig";
+import { BashTimeoutError } from "../errors";
+import { AutomergeFs, AutomergeFsMemoryLive } from "./AutomergeFs";
+import { BashExecutor, BashExecutorLive, SimpleBashExecutorLive } from "./BashExecutor";
+import { InMemoryBlobStoreLive } from "./BlobStore";
+import { InMemoryStorageAdapterLive } from "./StorageAdapter";
 
 describe("SimpleBashExecutor", () => {
   const runtime = Layer.toRuntime(SimpleBashExecutorLive).pipe(
@@ -116,4 +121,115 @@ describe("SimpleBashExecutor", () => {
     expect(result.exitCode).toBe(0);
     expect(result.stdout.trim()).toBe("test $VAR and \"quotes\"");
   });
+
+  test("passes output on as it is produced", async () => {
+    const chunks: unknown[] = [];
+    const program = BashExecutor.pipe(
+      Effect.flatMap((executor) =>
+        executor.exec("echo one; echo oops >&2; sleep 0.1; echo two", {
+          onOutput: (chunk) => Effect.sync(() => chunks.push(chunk)),
+        })
+      )
+    );
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(runtime)));
+
+    expect(result.stdout).toBe("one\ntwo\n");
+    expect(chunks).toContainEqual({ stream: "stderr", data: "oops\n" });
+    expect(chunks.filter((chunk) => (chunk as { stream: string }).stream === "stdout")).toEqual([
+      { stream: "stdout", data: "one\n" },
+      { stream: "stdout", data: "two\n" },
+    ]);
+  });
+
+  test("kills commands that outlive their timeout", async () => {
+    const start = Date.now();
+    const program = BashExecutor.pipe(
+      Effect.flatMap((executor) => executor.exec("sleep 5", { timeoutMs: 100 }))
+    );
+
+    const exit = await Effect.runPromiseExit(program.pipe(Effect.provide(runtime)));
+
+    expect(exit).toEqual(Exit.fail(new BashTimeoutError({ command: "sleep 5", timeout: 100 })));
+    expect(Date.now() - start).toBeLessThan(2000);
+  });
+});
+
+describe("BashExecutorLive", () => {
+  const layer = BashExecutorLive.pipe(
+    Layer.provideMerge(AutomergeFsMemoryLive),
+    Layer.provide(Layer.merge(InMemoryStorageAdapterLive, InMemoryBlobStoreLive))
+  );
+
+  test("stops a timed-out script from touching files", async () => {
+    const program = Effect.gen(function* () {
+      const executor = yield* BashExecutor;
+      const fs = yield* AutomergeFs;
+      const exit = yield* Effect.exit(
+        executor.exec("while true; do echo tick >> /ticks; sleep 0.05; done", { timeoutMs: 120 })
+      );
+      const ticks = yield* fs.readFile("/ticks");
+      // Give the abandoned script time to run on, were it still running
+      yield* Effect.sleep(200);
+      const later = yield* fs.readFile("/ticks");
+      return { exit, ticks, later };
+    });
+
+    const { exit, ticks, later } = await Effect.runPromise(
+      program.pipe(Effect.provide(layer), Effect.scoped)
+    );
+
+    expect(Exit.isFailure(exit) && exit.cause._tag === "Fail" && exit.cause.error).toBeInstanceOf(
+      BashTimeoutError
+    );
+    expect(ticks.length).toBeGreaterThan(0);
+    expect(later).toEqual(ticks);
+  });
+
+  test("takes its default timeout from DaemonConfig", async () => {
+    const config = Layer.succeed(DaemonConfig, { socketPath: "", dataDir: "", bashTimeoutMs: 100 });
+    const program = BashExecutor.pipe(Effect.flatMap((executor) => executor.exec("sleep 5")));
+
+    const exit = await Effect.runPromiseExit(
+      program.pipe(Effect.provide(layer.pipe(Layer.provide(config))), Effect.scoped)
+    );
+
+    expect(exit).toEqual(Exit.fail(new BashTimeoutError({ command: "sleep 5", timeout: 100 })));
+  });
+
+  test("passes a script's output on once, before the result", async () => {
+    const events: unknown[] = [];
+    const program = BashExecutor.pipe(
+      Effect.flatMap((executor) =>
+        executor.exec("echo out; bash -c 'echo nested'; echo err >&2", {
+          onOutput: (chunk) => Effect.sync(() => void events.push(chunk)),
+        })
+      ),
+      Effect.tap((result) => Effect.sync(() => void events.push(result.exitCode)))
+    );
+
+    await Effect.runPromise(program.pipe(Effect.provide(layer), Effect.scoped));
+
+    expect(events).toEqual([
+      { stream: "stdout", data: "out\nnested\n" },
+      { stream: "stderr", data: "err\n" },
+      0,
+    ]);
+  });
+
+  test("times out a loop that never sleeps", async () => {
+    const start = Date.now();
+    const program = BashExecutor.pipe(
+      Effect.flatMap((executor) =>
+        executor.exec("while true; do echo x > /f; done", { timeoutMs: 200 })
+      )
+    );
+
+    const exit = await Effect.runPromiseExit(program.pipe(Effect.provide(layer), Effect.scoped));
+
+    expect(Exit.isFailure(exit) && exit.cause._tag === "Fail" && exit.cause.error).toBeInstanceOf(
+      BashTimeoutError
+    );
+    expect(Date.now() - start).toBeLessThan(2000);
+  });
 });
@@ -5,21 +5,33 @@
  * and proper resource management.
  */
 
-import { Context, Effect, Layer } from "effect"
-import { Bash, type IFileSystem } from "just-bash"
-import { BashExecutionError } from "../errors"
-import type { BashResult } from "../rpc/schema"
+import { Context, Duration, Effect, Layer, Option, Stream } from "effect"
+import { Bash, type BashLogger, type IFileSystem } from "just-bash"
+import { DaemonConfig } from "../daemon/DaemonConfig"
+import { BashExecutionError, BashTimeoutError } from "../errors"
+import type { BashChunk, BashResult } from "../rpc/schema"
 import { AutomergeFsInstance, type AutomergeFsMultiDoc } from "./AutomergeFs"
 
 // =============================================================================
 // Service Interface
 // =============================================================================
 
+/** How long a command may run when neither the caller nor DaemonConfig says */
+export const DEFAULT_TIMEOUT_MS = 120_000
+
+export interface BashExecOptions {
+  readonly cwd?: string
+  /** Called with output as it is produced, before exec succeeds */
+  readonly onOutput?: (chunk: BashChunk) => Effect.Effect<void>
+  /** Stop the command and fail with BashTimeoutError after this long */
+  readonly timeoutMs?: number
+}
+
 export interface BashExecutorService {
   readonly exec: (
     command: string,
-    options?: { cwd?: string }
-  ) => Effect.Effect<BashResult, BashExecutionError>
+    options?: BashExecOptions
+  ) => Effect.Effect<BashResult, BashExecutionError | BashTimeoutError>
 }
 
 export class BashExecutor extends Context.Tag("BashExecutor")<
@@ -40,14 +52,33 @@ interface BashInstance {
 }
 
 /**
- * Creates a BashExecutor service from an existing Bash instance.
- * Used by BashExecutorLive layer in Layer.ts.
+ * Creates a BashExecutor service that runs each command on the Bash from
+ * `makeBash`. Interrupting an exec aborts the signal it was given; just-bash
+ * cannot be stopped mid-script, so a Bash that should stop early has to
+ * check the signal itself (see BashExecutorLive). Commands that do not pass
+ * `timeoutMs` are stopped after `defaultTimeoutMs`.
+ *
+ * With `onOutput`, the Bash is given a logger that passes the output on.
+ * just-bash logs a script's output once the script ends, so it arrives as
+ * one chunk per stream, still ahead of the result.
  */
-export const makeBashExecutorServiceFromInstance = (bash: BashInstance): BashExecutorService => ({
+export const makeBashExecutorService = (
+  makeBash: (signal: AbortSignal, logger?: BashLogger) => BashInstance,
+  defaultTimeoutMs = DEFAULT_TIMEOUT_MS
+): BashExecutorService => ({
   exec: (command, options) =>
     Effect.tryPromise({
-      try: async () => {
-        const result = await bash.exec(command, options)
+      try: async (signal) => {
+        const onOutput = options?.onOutput
+        // Chunks are sent one after another, and all of them before the result
+        let sent = Promise.resolve()
+        const logger =
+          onOutput &&
+          outputLogger((chunk) => {
+            sent = sent.then(() => Effect.runPromise(onOutput(chunk)))
+          })
+        const result = await makeBash(signal, logger).exec(command, { cwd: options?.cwd })
+        await sent
         return {
           stdout: result.stdout,
           stderr: result.stderr,
@@ -62,9 +93,47 @@ export const makeBashExecutorServiceFromInstance = (bash: BashInstance): BashExe
           stderr: err.stderr ?? String(e),
         })
       },
-    }),
+    }).pipe(withTimeout(command, options?.timeoutMs ?? defaultTimeoutMs)),
 })
 
+/**
+ * Creates a BashExecutor service from an existing Bash instance.
+ * The instance keeps running commands that time out.
+ */
+export const makeBashExecutorServiceFromInstance = (bash: BashInstance): BashExecutorService =>
+  makeBashExecutorService(() => bash)
+
+/**
+ * A just-bash logger that passes on the output of the script being run.
+ * `bash -c` and the like run a nested script whose output is logged twice,
+ * once on its own and again as part of the outer script's, so only the
+ * outermost script's is passed on.
+ */
+const outputLogger = (emit: (chunk: BashChunk) => void): BashLogger => {
+  let depth = 0
+  const output = (stream: BashChunk["stream"], data?: Record<string, unknown>) => {
+    if (depth === 1 && typeof data?.output === "string") emit({ stream, data: data.output })
+  }
+  return {
+    info: (message, data) => {
+      if (message === "exec") depth++
+      else if (message === "exit") depth--
+      else if (message === "stderr") output("stderr", data)
+    },
+    debug: (message, data) => {
+      if (message === "stdout") output("stdout", data)
+    },
+  }
+}
+
+const withTimeout =
+  (command: string, timeoutMs: number) =>
+  <A, E, R>(self: Effect.Effect<A, E, R>) =>
+    Effect.timeoutFail(self, {
+      duration: Duration.millis(timeoutMs),
+      onTimeout: () => new BashTimeoutError({ command, timeout: timeoutMs }),
+    })
+
 // =============================================================================
 // Live Layer
 // =============================================================================
@@ -113,9 +182,9 @@ function adaptToFileSystem(fs: AutomergeFsMultiDoc): IFileSystem {
     resolvePath: (base: string, path: string) => fs.resolvePath(base, path),
     getAllPaths: () => fs.getAllPaths(),
     chmod: (path: string, mode: number) => fs.chmod(path, mode),
-    symlink: (_target: string, _linkPath: string) => fs.symlink(),
+    symlink: (target: string, linkPath: string) => fs.symlink(target, linkPath),
     link: (_existingPath: string, _newPath: string) => fs.link(),
-    readlink: (_path: string) => fs.readlink(),
+    readlink: (path: string) => fs.readlink(path),
     lstat: async (path: string) => {
       const s = await fs.lstat(path)
       return {
@@ -133,15 +202,80 @@ function adaptToFileSystem(fs: AutomergeFsMultiDoc): IFileSystem {
   }
 }
 
+// IFileSystem methods that return a value rather than a promise
+const syncMethods = new Set(["resolvePath", "getAllPaths"])
+
+// How long a script may run on microtasks alone before timers get a turn
+const YIELD_INTERVAL_MS = 20
+
+/**
+ * Fails every filesystem call once `signal` aborts, so an interrupted
+ * script stops changing files. An error from the filesystem ends the
+ * script, so this is also how a timed-out script is stopped.
+ *
+ * A loop whose file operations resolve on microtasks never lets a timer
+ * run, so the timeout would never fire; the async calls let the event
+ * loop turn every YIELD_INTERVAL_MS first.
+ */
+function abortable(fs: IFileSystem, signal: AbortSignal): IFileSystem {
+  let lastYield = Date.now()
+  const yieldToTimers = async () => {
+    if (Date.now() - lastYield < YIELD_INTERVAL_MS) return
+    await new Promise((resolve) => setImmediate(resolve))
+    lastYield = Date.now()
+  }
+
+  const guarded: Record<string, unknown> = {}
+  for (const [name, method] of Object.entries(fs)) {
+    const call = method as (...args: unknown[]) => unknown
+    guarded[name] = syncMethods.has(name)
+      ? (...args: unknown[]) => {
+          signal.throwIfAborted()
+          return call(...args)
+        }
+      : async (...args: unknown[]) => {
+          await yieldToTimers()
+          signal.throwIfAborted()
+          return call(...args)
+        }
+  }
+  return guarded as unknown as IFileSystem
+}
+
+/** A `sleep` for just-bash that ends with an error once `signal` aborts */
+const abortableSleep = (signal: AbortSignal) => (ms: number) =>
+  new Promise<void>((resolve, reject) => {
+    signal.throwIfAborted()
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal.reason)
+    }
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    signal.addEventListener("abort", onAbort, { once: true })
+  })
+
 /**
- * BashExecutorLive — reads AutomergeFsInstance, creates Bash + wraps
+ * BashExecutorLive — reads AutomergeFsInstance, creates a Bash per command
+ *
+ * Each just-bash exec starts from a clean shell anyway, so a Bash per
+ * command costs nothing in behaviour and lets an interrupted script stop
+ * sleeping and touching files. Loops that never touch a file are bounded
+ * by just-bash's execution limits. The default timeout comes from
+ * DaemonConfig when one is provided.
  */
 export const BashExecutorLive = Layer.effect(
   BashExecutor,
   Effect.gen(function* () {
-    const fs = yield* AutomergeFsInstance
-    const bash = new Bash({ fs: adaptToFileSystem(fs) })
-    return makeBashExecutorServiceFromInstance(bash)
+    const fs = adaptToFileSystem(yield* AutomergeFsInstance)
+    const config = yield* Effect.serviceOption(DaemonConfig)
+    return makeBashExecutorService(
+      (signal, logger) =>
+        new Bash({ fs: abortable(fs, signal), sleep: abortableSleep(signal), logger }),
+      Option.getOrUndefined(config)?.bashTimeoutMs
+    )
   })
 )
 
@@ -157,33 +291,48 @@ export const SimpleBashExecutorLive = Layer.succeed(
   BashExecutor,
   {
     exec: (command, options) =>
-      Effect.tryPromise({
-        try: async () => {
-          const proc = Bun.spawn(["sh", "-c", command], {
+      Effect.gen(function* () {
+        const proc = yield* Effect.try(() =>
+          Bun.spawn(["sh", "-c", command], {
             cwd: options?.cwd,
             stdout: "pipe",
             stderr: "pipe",
           })
+        )
+
+        // Read both pipes as they fill, passing chunks on as they arrive
+        const collect = (stream: BashChunk["stream"], body: ReadableStream<Uint8Array>) =>
+          Stream.fromReadableStream(() => body, (e) => e).pipe(
+            Stream.decodeText(),
+            Stream.tap((data) => options?.onOutput?.({ stream, data }) ?? Effect.void),
+            Stream.runFold("", (output, data) => output + data)
+          )
 
-          const [stdout, stderr] = await Promise.all([
-            new Response(proc.stdout).text(),
-            new Response(proc.stderr).text(),
-          ])
+        // A command that times out or is cancelled is killed, not left running
+        return yield* Effect.gen(function* () {
+          const [stdout, stderr] = yield* Effect.all(
+            [collect("stdout", proc.stdout), collect("stderr", proc.stderr)],
+            { concurrency: "unbounded" }
+          )
 
-          const exitCode = await proc.exited
+          const exitCode = yield* Effect.promise(() => proc.exited)
 
           return {
             stdout,
             stderr,
             exitCode,
           }
-        },
-        catch: (e) =>
-          new BashExecutionError({
-            command,
-            exitCode: 1,
-            stderr: String(e),
-          }),
-      }),
+        }).pipe(Effect.onInterrupt(() => Effect.sync(() => proc.kill())))
+      }).pipe(
+        Effect.mapError(
+          (e) =>
+            new BashExecutionError({
+              command,
+              exitCode: 1,
+              stderr: String(e),
+            })
+        ),
+        withTimeout(command, options?.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+      ),
   }
 )
@@ -0,0 +1,55 @@
+import { test, expect, describe } from "bun:test";
+import { splitChunks, MIN_CHUNK_SIZE, MAX_CHUNK_SIZE } from "./BlobChunking";
+
+function randomBytes(length: number, seed: number): Uint8Array {
+  const data = new Uint8Array(length);
+  let state = seed;
+  for (let i = 0; i < length; i++) {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+    data[i] = state >>> 24;
+  }
+  return data;
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+describe("splitChunks", () => {
+  test("empty input yields no chunks", () => {
+    expect(splitChunks(new Uint8Array())).toEqual([]);
+  });
+
+  test("small input is a single chunk", () => {
+    const data = randomBytes(MIN_CHUNK_SIZE - 1, 1);
+    expect(splitChunks(data)).toEqual([data]);
+  });
+
+  test("chunks reassemble to the input and respect size bounds", () => {
+    const data = randomBytes(2 * 1024 * 1024, 2);
+    const chunks = splitChunks(data);
+    expect(concat(chunks)).toEqual(data);
+    for (const chunk of chunks.slice(0, -1)) {
+      expect(chunk.length).toBeGreaterThanOrEqual(MIN_CHUNK_SIZE);
+      expect(chunk.length).toBeLessThanOrEqual(MAX_CHUNK_SIZE);
+    }
+  });
+
+  test("an inserted byte only changes nearby chunks", () => {
+    const data = randomBytes(2 * 1024 * 1024, 3);
+    const edited = concat([data.subarray(0, 1000), new Uint8Array([42]), data.subarray(1000)]);
+
+    const hex = (c: Uint8Array) => Buffer.from(c).toString("hex");
+    const before = new Set(splitChunks(data).map(hex));
+    const after = splitChunks(edited).map(hex);
+    const changed = after.filter((c) => !before.has(c));
+    expect(changed.length).toBeLessThanOrEqual(2);
+    expect(after.length - changed.length).toBeGreaterThan(10);
+  });
+});
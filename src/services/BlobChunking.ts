@@ -0,0 +1,72 @@
+/**
+ * Content-defined chunking for blobs
+ *
+ * A FastCDC-style chunker: a gear rolling hash picks cut points from the
+ * content itself, so inserting or changing bytes only moves the boundaries
+ * near the edit and the rest of a new version splits into the same chunks
+ * as the old one. Normalized chunking (a stricter mask before the target
+ * size, a looser one after) keeps chunk sizes close to the average.
+ */
+
+export const MIN_CHUNK_SIZE = 16 * 1024
+export const AVG_CHUNK_SIZE = 64 * 1024
+export const MAX_CHUNK_SIZE = 256 * 1024
+
+// Masks over the high bits, which depend on the last 32 bytes.
+// 18 bits below the average size, 14 above (average is 2^16).
+const MASK_SMALL = 0x3ffff << 14
+const MASK_LARGE = 0x3fff << 18
+
+// Gear table from a fixed-seed PRNG: cut points, and so stored chunk
+// hashes, must not change between runs.
+const GEAR = (() => {
+  const table = new Uint32Array(256)
+  let state = 0x9e3779b9
+  for (let i = 0; i < 256; i++) {
+    // mulberry32
+    state = (state + 0x6d2b79f5) | 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    table[i] = (t ^ (t >>> 14)) >>> 0
+  }
+  return table
+})()
+
+/**
+ * Length of the first chunk of `data`, starting at `offset`.
+ */
+function nextCutPoint(data: Uint8Array, offset: number): number {
+  const remaining = data.length - offset
+  if (remaining <= MIN_CHUNK_SIZE) return remaining
+
+  const end = Math.min(remaining, MAX_CHUNK_SIZE)
+  const normal = Math.min(end, AVG_CHUNK_SIZE)
+  let hash = 0
+  let i = MIN_CHUNK_SIZE
+
+  for (; i < normal; i++) {
+    hash = ((hash << 1) + GEAR[data[offset + i]!]!) >>> 0
+    if ((hash & MASK_SMALL) === 0) return i + 1
+  }
+  for (; i < end; i++) {
+    hash = ((hash << 1) + GEAR[data[offset + i]!]!) >>> 0
+    if ((hash & MASK_LARGE) === 0) return i + 1
+  }
+  return end
+}
+
+/**
+ * Split `data` into content-defined chunks. The chunks are views into
+ * `data`, in order; an empty input yields no chunks.
+ */
+export function splitChunks(data: Uint8Array): Uint8Array[] {
+  const chunks: Uint8Array[] = []
+  let offset = 0
+  while (offset < data.length) {
+    const length = nextCutPoint(data, offset)
+    chunks.push(data.subarray(offset, offset + length))
+    offset += length
+  }
+  return chunks
+}
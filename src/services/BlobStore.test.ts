@@ -1,5 +1,14 @@
 import { test, expect, describe, beforeEach, afterEach } from "bun:test";
-import { FileSystemBlobStore } from "./BlobStore";
+import {
+  FileSystemBlobStore,
+  SqliteBlobStore,
+  InMemoryBlobStore,
+  KeyValueBlobStore,
+  ChunkedBlobStore,
+} from "./BlobStore";
+import { InMemoryKeyValueStore } from "./KeyValueStore";
+import { openSqliteDatabase } from "./SqliteDatabase";
+import type { Database } from "bun:sqlite";
 import { rmSync, mkdirSync, existsSync } from "node:fs";
 import { join } from "node:path";
 
@@ -130,3 +139,197 @@ describe("FileSystemBlobStore", () => {
     expect(hashes).toEqual([]);
   });
 });
+
+describe("SqliteBlobStore", () => {
+  let db: Database;
+  let store: SqliteBlobStore;
+
+  beforeEach(() => {
+    db = openSqliteDatabase(":memory:");
+    store = new SqliteBlobStore(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test("set and get blob data", async () => {
+    const data = new Uint8Array([1, 2, 3, 4, 5]);
+    await store.set("abc123", data);
+    expect(await store.get("abc123")).toEqual(data);
+  });
+
+  test("get returns null and has returns false for missing blob", async () => {
+    expect(await store.get("missing")).toBeNull();
+    expect(await store.has("missing")).toBe(false);
+  });
+
+  test("delete removes blob", async () => {
+    await store.set("abc", new Uint8Array([1]));
+    expect(await store.has("abc")).toBe(true);
+    await store.delete("abc");
+    expect(await store.has("abc")).toBe(false);
+  });
+
+  test("overwrites existing blob and handles empty data", async () => {
+    await store.set("h", new Uint8Array([1, 2, 3]));
+    await store.set("h", new Uint8Array([]));
+    const retrieved = await store.get("h");
+    expect(retrieved?.length).toBe(0);
+  });
+
+  test("list returns sorted hashes", async () => {
+    await store.set("bbb", new Uint8Array([1]));
+    await store.set("aaa", new Uint8Array([2]));
+    expect(await store.list()).toEqual(["aaa", "bbb"]);
+  });
+});
+
+describe("InMemoryBlobStore", () => {
+  let store: InMemoryBlobStore;
+
+  beforeEach(() => {
+    store = new InMemoryBlobStore();
+  });
+
+  test("set, get, has and delete", async () => {
+    const data = new Uint8Array([1, 2, 3]);
+    await store.set("abc", data);
+    expect(await store.get("abc")).toEqual(data);
+    expect(await store.has("abc")).toBe(true);
+    await store.delete("abc");
+    expect(await store.get("abc")).toBeNull();
+    expect(await store.has("abc")).toBe(false);
+  });
+
+  test("stores a copy of the data", async () => {
+    const data = new Uint8Array([1, 2, 3]);
+    await store.set("abc", data);
+    data[0] = 9;
+    expect(await store.get("abc")).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  test("list returns sorted hashes", async () => {
+    await store.set("bbb", new Uint8Array([1]));
+    await store.set("aaa", new Uint8Array([2]));
+    expect(await store.list()).toEqual(["aaa", "bbb"]);
+  });
+});
+
+describe("KeyValueBlobStore", () => {
+  let kv: InMemoryKeyValueStore;
+  let store: KeyValueBlobStore;
+
+  beforeEach(() => {
+    kv = new InMemoryKeyValueStore();
+    store = new KeyValueBlobStore(kv);
+  });
+
+  test("set, get, has and delete", async () => {
+    const data = new Uint8Array([1, 2, 3]);
+    await store.set("abc", data);
+    expect(await kv.get("blobs/abc")).toEqual(data);
+    expect(await store.get("abc")).toEqual(data);
+    expect(await store.has("abc")).toBe(true);
+    await store.delete("abc");
+    expect(await store.get("abc")).toBeNull();
+    expect(await store.has("abc")).toBe(false);
+  });
+
+  test("list only returns blob keys", async () => {
+    await store.set("bbb", new Uint8Array([1]));
+    await store.set("aaa", new Uint8Array([2]));
+    await kv.put("chunks/doc1/snapshot/h1", new Uint8Array([3]));
+    expect(await store.list()).toEqual(["aaa", "bbb"]);
+  });
+});
+
+describe("ChunkedBlobStore", () => {
+  let manifests: InMemoryBlobStore;
+  let chunks: InMemoryBlobStore;
+  let store: ChunkedBlobStore;
+
+  // Incompressible, so chunk counts reflect content not gzip
+  function randomBytes(length: number, seed: number): Uint8Array {
+    const data = new Uint8Array(length);
+    let state = seed;
+    for (let i = 0; i < length; i++) {
+      state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+      data[i] = state >>> 24;
+    }
+    return data;
+  }
+
+  beforeEach(() => {
+    manifests = new InMemoryBlobStore();
+    chunks = new InMemoryBlobStore();
+    store = new ChunkedBlobStore(manifests, chunks);
+  });
+
+  test("round-trips blobs of any size", async () => {
+    for (const data of [new Uint8Array(), new Uint8Array([1, 2, 3]), randomBytes(1024 * 1024, 1)]) {
+      await store.set(`h${data.length}`, data);
+      expect(await store.get(`h${data.length}`)).toEqual(data);
+    }
+    expect(await store.list()).toEqual(["h0", "h1048576", "h3"]);
+  });
+
+  test("compresses chunks that shrink", async () => {
+    const data = new Uint8Array(100_000).fill(7);
+    await store.set("zeros", data);
+    const stored = await Promise.all((await chunks.list()).map((h) => chunks.get(h)));
+    const total = stored.reduce((n, c) => n + (c?.length ?? 0), 0);
+    expect(total).toBeLessThan(data.length / 10);
+    expect(await store.get("zeros")).toEqual(data);
+  });
+
+  test("similar versions share chunks", async () => {
+    const v1 = randomBytes(2 * 1024 * 1024, 2);
+    const v2 = v1.slice();
+    v2[1_000_000] = v2[1_000_000]! ^ 0xff;
+
+    await store.set("v1", v1);
+    const afterFirst = (await chunks.list()).length;
+    await store.set("v2", v2);
+    const added = (await chunks.list()).length - afterFirst;
+
+    expect(added).toBeLessThanOrEqual(2);
+    expect(await store.get("v2")).toEqual(v2);
+  });
+
+  test("sweep keeps chunks other blobs still use", async () => {
+    const v1 = randomBytes(1024 * 1024, 3);
+    const v2 = v1.slice();
+    v2[500_000] = v2[500_000]! ^ 0xff;
+    await store.set("v1", v1);
+    await store.set("v2", v2);
+
+    await store.delete("v1");
+    await store.sweep();
+    expect(await store.has("v1")).toBe(false);
+    expect(await store.get("v2")).toEqual(v2);
+
+    await store.delete("v2");
+    expect(await chunks.list()).not.toEqual([]);
+    await store.sweep();
+    expect(await chunks.list()).toEqual([]);
+  });
+
+  test("a set during a sweep keeps the chunks it reuses", async () => {
+    const data = randomBytes(256 * 1024, 4);
+    await store.set("old", data);
+    await store.delete("old");
+
+    await Promise.all([store.sweep(), store.set("new", data)]);
+
+    expect(await store.get("new")).toEqual(data);
+  });
+
+  test("reads blobs stored whole before chunking", async () => {
+    const legacy = new Uint8Array([0x00, 0xff, 0x10]);
+    await manifests.set("old", legacy);
+    expect(await store.get("old")).toEqual(legacy);
+    await store.delete("old");
+    expect(await store.has("old")).toBe(false);
+  });
+});
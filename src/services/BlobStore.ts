@@ -5,10 +5,16 @@
  */
 
 import { Context, Effect, Layer } from "effect"
+import type { Database } from "bun:sqlite"
 import { readdir, unlink, mkdir } from "node:fs/promises"
 import { mkdirSync } from "node:fs"
 import { join } from "node:path"
+import { gzipSync, gunzipSync } from "node:zlib"
 import { DaemonConfig } from "../daemon/DaemonConfig"
+import { SqliteDatabase } from "./SqliteDatabase"
+import { KeyValueStoreTag, type KeyValueStore } from "./KeyValueStore"
+import { splitChunks } from "./BlobChunking"
+import { encryptBlobStore, optionalEncryptionKey } from "./Encryption"
 
 export interface BlobStore {
   get(hash: string): Promise<Uint8Array | null>
@@ -16,6 +22,8 @@ export interface BlobStore {
   has(hash: string): Promise<boolean>
   delete(hash: string): Promise<void>
   list(): Promise<string[]>
+  /** Remove storage that deleted blobs left behind; run by gc */
+  sweep?(): Promise<void>
 }
 
 /**
@@ -90,17 +98,339 @@ export class FileSystemBlobStore implements BlobStore {
   }
 }
 
+/**
+ * SQLite blob store
+ *
+ * Stores blobs as rows in the shared SqliteDatabase, next to the Automerge
+ * chunks, so blob writes and root doc saves share one transaction log.
+ * ChunkedBlobStore keeps its chunks in the blob_chunks table.
+ */
+export class SqliteBlobStore implements BlobStore {
+  constructor(
+    private db: Database,
+    private table: "blobs" | "blob_chunks" = "blobs"
+  ) {}
+
+  async get(hash: string): Promise<Uint8Array | null> {
+    const row = this.db
+      .query<{ data: Uint8Array }, { hash: string }>(
+        `SELECT data FROM ${this.table} WHERE hash = $hash`
+      )
+      .get({ hash })
+    return row?.data ?? null
+  }
+
+  async set(hash: string, data: Uint8Array): Promise<void> {
+    this.db
+      .query(`INSERT OR REPLACE INTO ${this.table} (hash, data) VALUES ($hash, $data)`)
+      .run({ hash, data })
+  }
+
+  async has(hash: string): Promise<boolean> {
+    const row = this.db
+      .query<{ found: number }, { hash: string }>(
+        `SELECT 1 AS found FROM ${this.table} WHERE hash = $hash`
+      )
+      .get({ hash })
+    return row !== null
+  }
+
+  async delete(hash: string): Promise<void> {
+    this.db.query(`DELETE FROM ${this.table} WHERE hash = $hash`).run({ hash })
+  }
+
+  async list(): Promise<string[]> {
+    return this.db
+      .query<{ hash: string }, []>(`SELECT hash FROM ${this.table} ORDER BY hash`)
+      .all()
+      .map((row) => row.hash)
+  }
+}
+
+/**
+ * In-memory blob store
+ *
+ * For ephemeral sessions and tests; contents are lost with the process.
+ */
+export class InMemoryBlobStore implements BlobStore {
+  private blobs = new Map<string, Uint8Array>()
+
+  async get(hash: string): Promise<Uint8Array | null> {
+    return this.blobs.get(hash) ?? null
+  }
+
+  async set(hash: string, data: Uint8Array): Promise<void> {
+    this.blobs.set(hash, data.slice())
+  }
+
+  async has(hash: string): Promise<boolean> {
+    return this.blobs.has(hash)
+  }
+
+  async delete(hash: string): Promise<void> {
+    this.blobs.delete(hash)
+  }
+
+  async list(): Promise<string[]> {
+    return [...this.blobs.keys()].sort()
+  }
+}
+
+/**
+ * Key-value blob store
+ *
+ * Each blob is one value under "<prefix><hash>", "blobs/" by default.
+ */
+export class KeyValueBlobStore implements BlobStore {
+  constructor(
+    private kv: KeyValueStore,
+    private prefix = "blobs/"
+  ) {}
+
+  async get(hash: string): Promise<Uint8Array | null> {
+    return (await this.kv.get(this.prefix + hash)) ?? null
+  }
+
+  async set(hash: string, data: Uint8Array): Promise<void> {
+    await this.kv.put(this.prefix + hash, data)
+  }
+
+  async has(hash: string): Promise<boolean> {
+    return (await this.kv.get(this.prefix + hash)) !== undefined
+  }
+
+  async delete(hash: string): Promise<void> {
+    await this.kv.delete(this.prefix + hash)
+  }
+
+  async list(): Promise<string[]> {
+    const entries = await this.kv.list(this.prefix)
+    return entries.map(({ key }) => key.slice(this.prefix.length))
+  }
+}
+
+// Manifests start with this line; anything else in the manifest store is a
+// blob written whole before chunking and is returned as-is.
+const MANIFEST_MAGIC = new TextEncoder().encode("amfs-blob-manifest/1\n")
+
+// First byte of each stored chunk
+const CHUNK_RAW = 0
+const CHUNK_GZIP = 1
+
+interface BlobManifest {
+  size: number
+  chunks: string[]
+}
+
+/**
+ * Chunked blob store
+ *
+ * Splits each blob into content-defined chunks (see BlobChunking), stores
+ * every chunk once under its own sha256, gzip-compressed when that makes it
+ * smaller, and records the blob as a manifest listing its chunks. Versions
+ * of a large binary that differ by a few bytes then share all but the
+ * chunks around the edit.
+ *
+ * Manifests and chunks go to two separate stores, so a blob whose content
+ * is a single chunk (same hash) cannot overwrite its own chunk.
+ *
+ * Deleting a blob only removes its manifest; `sweep` then removes every
+ * chunk no manifest lists. A sweep waits for running sets and holds off new
+ * ones, so a set cannot reuse a chunk the sweep is about to remove.
+ */
+export class ChunkedBlobStore implements BlobStore {
+  private sets = new Set<Promise<void>>()
+  private sweeping: Promise<void> | undefined
+
+  constructor(
+    private manifests: BlobStore,
+    private chunks: BlobStore
+  ) {}
+
+  async get(hash: string): Promise<Uint8Array | null> {
+    const stored = await this.manifests.get(hash)
+    if (!stored) return null
+    const manifest = this.parseManifest(stored)
+    if (!manifest) return stored
+
+    const data = new Uint8Array(manifest.size)
+    let offset = 0
+    for (const chunkHash of manifest.chunks) {
+      const chunk = await this.chunks.get(chunkHash)
+      if (!chunk) throw new Error(`Blob ${hash} is missing chunk ${chunkHash}`)
+      const bytes = chunk[0] === CHUNK_GZIP ? gunzipSync(chunk.subarray(1)) : chunk.subarray(1)
+      data.set(bytes, offset)
+      offset += bytes.length
+    }
+    return data
+  }
+
+  async set(hash: string, data: Uint8Array): Promise<void> {
+    while (this.sweeping) await this.sweeping.catch(() => undefined)
+    const write = this.write(hash, data)
+    this.sets.add(write)
+    try {
+      await write
+    } finally {
+      this.sets.delete(write)
+    }
+  }
+
+  private async write(hash: string, data: Uint8Array): Promise<void> {
+    const chunkHashes: string[] = []
+    for (const chunk of splitChunks(data)) {
+      const chunkHash = this.hashChunk(chunk)
+      chunkHashes.push(chunkHash)
+      if (await this.chunks.has(chunkHash)) continue
+      const compressed = gzipSync(chunk)
+      await this.chunks.set(
+        chunkHash,
+        compressed.length < chunk.length
+          ? this.tagChunk(CHUNK_GZIP, compressed)
+          : this.tagChunk(CHUNK_RAW, chunk)
+      )
+    }
+    // Chunks before the manifest: a manifest never points at a missing chunk
+    const manifest: BlobManifest = { size: data.length, chunks: chunkHashes }
+    const body = new TextEncoder().encode(JSON.stringify(manifest))
+    const stored = new Uint8Array(MANIFEST_MAGIC.length + body.length)
+    stored.set(MANIFEST_MAGIC)
+    stored.set(body, MANIFEST_MAGIC.length)
+    await this.manifests.set(hash, stored)
+  }
+
+  async has(hash: string): Promise<boolean> {
+    return await this.manifests.has(hash)
+  }
+
+  /**
+   * Remove the manifest. Its chunks stay until the next sweep.
+   */
+  async delete(hash: string): Promise<void> {
+    await this.manifests.delete(hash)
+  }
+
+  /**
+   * Mark every chunk a manifest lists and remove the rest, reading each
+   * manifest once.
+   */
+  async sweep(): Promise<void> {
+    while (this.sweeping) await this.sweeping.catch(() => undefined)
+    this.sweeping = this.removeUnusedChunks()
+    try {
+      await this.sweeping
+    } finally {
+      this.sweeping = undefined
+    }
+  }
+
+  private async removeUnusedChunks(): Promise<void> {
+    await Promise.allSettled(this.sets)
+
+    const used = new Set<string>()
+    for (const hash of await this.manifests.list()) {
+      const stored = await this.manifests.get(hash)
+      const manifest = stored && this.parseManifest(stored)
+      for (const chunkHash of manifest ? manifest.chunks : []) {
+        used.add(chunkHash)
+      }
+    }
+    for (const chunkHash of await this.chunks.list()) {
+      if (!used.has(chunkHash)) await this.chunks.delete(chunkHash)
+    }
+  }
+
+  async list(): Promise<string[]> {
+    return await this.manifests.list()
+  }
+
+  private parseManifest(stored: Uint8Array): BlobManifest | null {
+    if (stored.length < MANIFEST_MAGIC.length) return null
+    for (let i = 0; i < MANIFEST_MAGIC.length; i++) {
+      if (stored[i] !== MANIFEST_MAGIC[i]) return null
+    }
+    const body = new TextDecoder().decode(stored.subarray(MANIFEST_MAGIC.length))
+    return JSON.parse(body) as BlobManifest
+  }
+
+  private tagChunk(tag: number, bytes: Uint8Array): Uint8Array {
+    const tagged = new Uint8Array(bytes.length + 1)
+    tagged[0] = tag
+    tagged.set(bytes, 1)
+    return tagged
+  }
+
+  private hashChunk(chunk: Uint8Array): string {
+    const hasher = new Bun.CryptoHasher("sha256")
+    hasher.update(chunk)
+    return hasher.digest("hex")
+  }
+}
+
+/**
+ * The blob store BlobStoreLive uses for `dataDir`: manifests in blobs/,
+ * chunks in blob-chunks/. With a key, both are encrypted after chunking
+ * and compression.
+ */
+export function makeFileSystemBlobStore(dataDir: string, key?: CryptoKey): ChunkedBlobStore {
+  const manifestDir = join(dataDir, "blobs")
+  const chunkDir = join(dataDir, "blob-chunks")
+  mkdirSync(manifestDir, { recursive: true })
+  mkdirSync(chunkDir, { recursive: true })
+  return new ChunkedBlobStore(
+    encryptBlobStore(new FileSystemBlobStore(manifestDir), key),
+    encryptBlobStore(new FileSystemBlobStore(chunkDir), key)
+  )
+}
+
 export class BlobStoreTag extends Context.Tag("BlobStore")<BlobStoreTag, BlobStore>() {}
 
 /**
- * BlobStoreLive — reads DaemonConfig, creates FileSystemBlobStore
+ * BlobStoreLive — reads DaemonConfig, creates a ChunkedBlobStore over
+ * FileSystemBlobStores, encrypted when an EncryptionKey is provided
  */
 export const BlobStoreLive = Layer.effect(
   BlobStoreTag,
   Effect.gen(function* () {
     const config = yield* DaemonConfig
-    const dir = join(config.dataDir, "blobs")
-    mkdirSync(dir, { recursive: true })
-    return new FileSystemBlobStore(dir)
+    const key = yield* optionalEncryptionKey
+    return makeFileSystemBlobStore(config.dataDir, key)
+  })
+)
+
+/**
+ * SqliteBlobStoreLive — stores chunked blobs in the shared SqliteDatabase,
+ * encrypted when an EncryptionKey is provided
+ */
+export const SqliteBlobStoreLive = Layer.effect(
+  BlobStoreTag,
+  Effect.gen(function* () {
+    const db = yield* SqliteDatabase
+    const key = yield* optionalEncryptionKey
+    return new ChunkedBlobStore(
+      encryptBlobStore(new SqliteBlobStore(db), key),
+      encryptBlobStore(new SqliteBlobStore(db, "blob_chunks"), key)
+    )
+  })
+)
+
+/**
+ * InMemoryBlobStoreLive — blob store with no backing directory
+ */
+export const InMemoryBlobStoreLive = Layer.sync(BlobStoreTag, () => new InMemoryBlobStore())
+
+/**
+ * KeyValueBlobStoreLive — stores chunked blobs in the KeyValueStore,
+ * chunks under "blob-chunks/", encrypted when an EncryptionKey is provided
+ */
+export const KeyValueBlobStoreLive = Layer.effect(
+  BlobStoreTag,
+  Effect.gen(function* () {
+    const kv = yield* KeyValueStoreTag
+    const key = yield* optionalEncryptionKey
+    return new ChunkedBlobStore(
+      encryptBlobStore(new KeyValueBlobStore(kv), key),
+      encryptBlobStore(new KeyValueBlobStore(kv, "blob-chunks/"), key)
+    )
   })
 )
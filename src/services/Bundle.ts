@@ -0,0 +1,105 @@
+/**
+ * Filesystem bundles
+ *
+ * A single-file archive of a whole filesystem, for moving a workspace
+ * between machines. Layout:
+ *
+ *   amfs-bundle/1\n
+ *   <manifest JSON>\n
+ *   <document binaries, then blobs, back to back in manifest order>
+ *
+ * Documents are full saved Automerge binaries, so their history comes
+ * along; the snapshot registry lives in the root doc. Every entry carries
+ * its size and sha256 (a blob's hash already is its sha256), checked on
+ * decode before anything is imported.
+ */
+
+const MAGIC = "amfs-bundle/1\n"
+
+export interface BundleManifest {
+  readonly createdAt: number
+  readonly rootDocUrl: string
+  readonly snapshots: ReadonlyArray<string> // names, for display
+  readonly documents: ReadonlyArray<{ url: string; size: number; sha256: string }>
+  readonly blobs: ReadonlyArray<{ hash: string; size: number }>
+}
+
+export interface Bundle {
+  readonly manifest: BundleManifest
+  readonly documents: ReadonlyMap<string, Uint8Array> // url → saved doc
+  readonly blobs: ReadonlyMap<string, Uint8Array> // hash → content
+}
+
+function sha256(data: Uint8Array): string {
+  const hasher = new Bun.CryptoHasher("sha256")
+  hasher.update(data)
+  return hasher.digest("hex")
+}
+
+export function encodeBundle(contents: {
+  rootDocUrl: string
+  snapshots: ReadonlyArray<string>
+  documents: ReadonlyMap<string, Uint8Array>
+  blobs: ReadonlyMap<string, Uint8Array>
+}): Uint8Array {
+  const manifest: BundleManifest = {
+    createdAt: Date.now(),
+    rootDocUrl: contents.rootDocUrl,
+    snapshots: contents.snapshots,
+    documents: [...contents.documents].map(([url, data]) => ({
+      url,
+      size: data.length,
+      sha256: sha256(data),
+    })),
+    blobs: [...contents.blobs].map(([hash, data]) => ({ hash, size: data.length })),
+  }
+
+  const header = new TextEncoder().encode(MAGIC + JSON.stringify(manifest) + "\n")
+  const parts = [header, ...contents.documents.values(), ...contents.blobs.values()]
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    out.set(part, offset)
+    offset += part.length
+  }
+  return out
+}
+
+/**
+ * Parse and verify a bundle. Throws if it is truncated or any checksum fails.
+ */
+export function decodeBundle(data: Uint8Array): Bundle {
+  const magic = new TextEncoder().encode(MAGIC)
+  if (!magic.every((byte, i) => data[i] === byte)) {
+    throw new Error("Not an amfs bundle")
+  }
+  const headerEnd = data.indexOf(0x0a, magic.length)
+  if (headerEnd === -1) throw new Error("Bundle manifest is truncated")
+  const manifest = JSON.parse(
+    new TextDecoder().decode(data.subarray(magic.length, headerEnd))
+  ) as BundleManifest
+
+  let offset = headerEnd + 1
+  const take = (size: number, what: string) => {
+    if (offset + size > data.length) throw new Error(`Bundle is truncated at ${what}`)
+    const part = data.subarray(offset, offset + size)
+    offset += size
+    return part
+  }
+
+  const documents = new Map<string, Uint8Array>()
+  for (const doc of manifest.documents) {
+    const part = take(doc.size, doc.url)
+    if (sha256(part) !== doc.sha256) throw new Error(`Checksum mismatch for document ${doc.url}`)
+    documents.set(doc.url, part)
+  }
+  const blobs = new Map<string, Uint8Array>()
+  for (const blob of manifest.blobs) {
+    const part = take(blob.size, blob.hash)
+    if (sha256(part) !== blob.hash) throw new Error(`Checksum mismatch for blob ${blob.hash}`)
+    blobs.set(blob.hash, part)
+  }
+  if (offset !== data.length) throw new Error("Bundle has trailing data")
+
+  return { manifest, documents, blobs }
+}
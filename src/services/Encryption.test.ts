@@ -0,0 +1,135 @@
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { Effect, Layer } from "effect";
+import { rmSync, existsSync, writeFileSync, readFileSync, readdirSync, statSync } from "node:fs";
+import { join } from "node:path";
+import { InMemoryBlobStore } from "./BlobStore";
+import { InMemoryStorageAdapter } from "./StorageAdapter";
+import { EncryptedBlobStore, EncryptedStorageAdapter, importEncryptionKey } from "./Encryption";
+import { AutomergeFs } from "./AutomergeFs";
+import { DaemonConfig, DaemonLive } from "../daemon/Layer";
+
+const KEY = Buffer.alloc(32, 7).toString("base64");
+const OTHER_KEY = Buffer.alloc(32, 8).toString("base64");
+
+describe("importEncryptionKey", () => {
+  test("rejects keys that are not 32 bytes", async () => {
+    await expect(importEncryptionKey(Buffer.alloc(16).toString("base64"))).rejects.toThrow(
+      "32 bytes",
+    );
+  });
+});
+
+describe("EncryptedBlobStore", () => {
+  let inner: InMemoryBlobStore;
+  let store: EncryptedBlobStore;
+
+  beforeEach(async () => {
+    inner = new InMemoryBlobStore();
+    store = new EncryptedBlobStore(inner, await importEncryptionKey(KEY));
+  });
+
+  test("round-trips data and stores only ciphertext", async () => {
+    const data = new TextEncoder().encode("API_KEY=secret");
+    await store.set("abc", data);
+    expect(await store.get("abc")).toEqual(data);
+    expect(new TextDecoder().decode((await inner.get("abc"))!)).not.toContain("secret");
+    expect(await store.list()).toEqual(["abc"]);
+  });
+
+  test("fails to decrypt with the wrong key", async () => {
+    await store.set("abc", new Uint8Array([1, 2, 3]));
+    const other = new EncryptedBlobStore(inner, await importEncryptionKey(OTHER_KEY));
+    await expect(other.get("abc")).rejects.toThrow();
+  });
+
+  test("fails to decrypt a value moved to another hash", async () => {
+    await store.set("abc", new Uint8Array([1, 2, 3]));
+    await inner.set("def", (await inner.get("abc"))!);
+    await expect(store.get("def")).rejects.toThrow();
+  });
+});
+
+describe("EncryptedStorageAdapter", () => {
+  test("round-trips chunks through load and loadRange", async () => {
+    const inner = new InMemoryStorageAdapter();
+    const adapter = new EncryptedStorageAdapter(inner, await importEncryptionKey(KEY));
+    const data = new Uint8Array([1, 2, 3]);
+
+    await adapter.save(["doc1", "snapshot", "h1"], data);
+    expect(await inner.load(["doc1", "snapshot", "h1"])).not.toEqual(data);
+    expect(await adapter.load(["doc1", "snapshot", "h1"])).toEqual(data);
+    expect(await adapter.loadRange(["doc1"])).toEqual([
+      { key: ["doc1", "snapshot", "h1"], data },
+    ]);
+  });
+});
+
+describe("encrypted DaemonLive", () => {
+  const dir = "/tmp/encryption-test-" + process.pid;
+
+  beforeEach(() => {
+    if (existsSync(dir)) rmSync(dir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    delete process.env.AMFS_TEST_KEY;
+  });
+
+  function filesUnder(path: string): string[] {
+    return readdirSync(path).flatMap((name) => {
+      const full = join(path, name);
+      return statSync(full).isDirectory() ? filesUnder(full) : [full];
+    });
+  }
+
+  for (const storage of ["fs", "sqlite"] as const) {
+    test(`${storage} backend leaves no plaintext in the data directory`, async () => {
+      process.env.AMFS_TEST_KEY = KEY;
+      const config = Layer.succeed(DaemonConfig, {
+        socketPath: "",
+        dataDir: dir,
+        storage,
+        encryption: { keyEnv: "AMFS_TEST_KEY" },
+      });
+      const run = <A>(effect: Effect.Effect<A, unknown, AutomergeFs>) =>
+        Effect.runPromise(
+          effect.pipe(Effect.provide(DaemonLive), Effect.provide(config), Effect.scoped),
+        );
+
+      await run(
+        Effect.gen(function* () {
+          const fs = yield* AutomergeFs;
+          yield* fs.writeFile("/secrets.env", "API_KEY=hunter2hunter2");
+          yield* fs.writeFile("/key.bin", new TextEncoder().encode("BINARY_SECRET_VALUE"));
+        }),
+      );
+
+      for (const file of filesUnder(dir)) {
+        const contents = readFileSync(file).toString("latin1");
+        expect(contents).not.toContain("hunter2hunter2");
+        expect(contents).not.toContain("BINARY_SECRET_VALUE");
+        expect(contents).not.toContain("secrets.env");
+      }
+
+      const text = await run(
+        Effect.flatMap(AutomergeFs, (fs) => fs.readFile("/secrets.env")),
+      );
+      expect(new TextDecoder().decode(text)).toBe("API_KEY=hunter2hunter2");
+    });
+  }
+
+  test("a missing key fails to start", async () => {
+    writeFileSync(join("/tmp", `empty-key-${process.pid}`), "");
+    const config = Layer.succeed(DaemonConfig, {
+      socketPath: "",
+      dataDir: dir,
+      encryption: { keyFile: join("/tmp", `empty-key-${process.pid}`) },
+    });
+    const exit = await Effect.runPromiseExit(
+      AutomergeFs.pipe(Effect.provide(DaemonLive), Effect.provide(config), Effect.scoped),
+    );
+    expect(exit._tag).toBe("Failure");
+    rmSync(join("/tmp", `empty-key-${process.pid}`));
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Encryption at rest
+ *
+ * AES-256-GCM wrappers for a StorageAdapter and a BlobStore. Each value is
+ * stored as a random 12-byte IV followed by the ciphertext, with the storage
+ * key (or blob hash) as additional data, so a value copied to another key
+ * fails to decrypt instead of silently showing up under the wrong name.
+ *
+ * Only values are encrypted: Automerge document ids, chunk hashes and blob
+ * hashes remain visible as file names or keys. Blobs and their chunks are
+ * named by the plain sha256 of their content, so anyone who can list the
+ * storage can tell whether it holds a file whose content they already know.
+ */
+
+import { Context, Effect, Layer, Option } from "effect"
+import type { Chunk, StorageAdapterInterface, StorageKey } from "@automerge/automerge-repo"
+import { readFile } from "node:fs/promises"
+import { DaemonConfig, type EncryptionKeySource } from "../daemon/DaemonConfig"
+import { InitializationError } from "../errors"
+import type { BlobStore } from "./BlobStore"
+
+const IV_LENGTH = 12
+
+/**
+ * Import a base64-encoded 32-byte key, e.g. from `openssl rand -base64 32`.
+ */
+export async function importEncryptionKey(base64: string): Promise<CryptoKey> {
+  const raw = Buffer.from(base64.trim(), "base64")
+  if (raw.length !== 32) {
+    throw new Error(`Encryption key must be 32 bytes of base64, got ${raw.length} bytes`)
+  }
+  return await crypto.subtle.importKey("raw", raw, "AES-GCM", false, ["encrypt", "decrypt"])
+}
+
+/**
+ * Read the key from the environment variable or file named in DaemonConfig.
+ */
+export async function loadEncryptionKey(source: EncryptionKeySource): Promise<CryptoKey> {
+  if ("keyEnv" in source) {
+    const value = process.env[source.keyEnv]
+    if (!value) throw new Error(`Environment variable ${source.keyEnv} is not set`)
+    return await importEncryptionKey(value)
+  }
+  return await importEncryptionKey(await readFile(source.keyFile, "utf-8"))
+}
+
+async function seal(key: CryptoKey, data: Uint8Array, name: string): Promise<Uint8Array> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: new TextEncoder().encode(name) },
+    key,
+    data as Uint8Array<ArrayBuffer>
+  )
+  const sealed = new Uint8Array(IV_LENGTH + ciphertext.byteLength)
+  sealed.set(iv)
+  sealed.set(new Uint8Array(ciphertext), IV_LENGTH)
+  return sealed
+}
+
+async function open(key: CryptoKey, sealed: Uint8Array, name: string): Promise<Uint8Array> {
+  const plaintext = await crypto.subtle.decrypt(
+    {
+      name: "AES-GCM",
+      iv: sealed.subarray(0, IV_LENGTH) as Uint8Array<ArrayBuffer>,
+      additionalData: new TextEncoder().encode(name),
+    },
+    key,
+    sealed.subarray(IV_LENGTH) as Uint8Array<ArrayBuffer>
+  )
+  return new Uint8Array(plaintext)
+}
+
+/**
+ * Encrypting storage adapter
+ *
+ * Keys pass through unchanged; chunk data is sealed with the "/"-joined key.
+ */
+export class EncryptedStorageAdapter implements StorageAdapterInterface {
+  constructor(
+    private inner: StorageAdapterInterface,
+    private key: CryptoKey
+  ) {}
+
+  async load(key: StorageKey): Promise<Uint8Array | undefined> {
+    const sealed = await this.inner.load(key)
+    return sealed && (await open(this.key, sealed, key.join("/")))
+  }
+
+  async save(key: StorageKey, data: Uint8Array): Promise<void> {
+    await this.inner.save(key, await seal(this.key, data, key.join("/")))
+  }
+
+  async remove(key: StorageKey): Promise<void> {
+    await this.inner.remove(key)
+  }
+
+  async loadRange(keyPrefix: StorageKey): Promise<Chunk[]> {
+    const chunks = await this.inner.loadRange(keyPrefix)
+    return await Promise.all(
+      chunks.map(async (chunk) => ({
+        key: chunk.key,
+        data: chunk.data && (await open(this.key, chunk.data, chunk.key.join("/"))),
+      }))
+    )
+  }
+
+  async removeRange(keyPrefix: StorageKey): Promise<void> {
+    await this.inner.removeRange(keyPrefix)
+  }
+}
+
+/**
+ * Encrypting blob store
+ *
+ * Hashes pass through unchanged (they are content hashes, see above); blob
+ * data is sealed with its hash.
+ */
+export class EncryptedBlobStore implements BlobStore {
+  constructor(
+    private inner: BlobStore,
+    private key: CryptoKey
+  ) {}
+
+  async get(hash: string): Promise<Uint8Array | null> {
+    const sealed = await this.inner.get(hash)
+    return sealed && (await open(this.key, sealed, hash))
+  }
+
+  async set(hash: string, data: Uint8Array): Promise<void> {
+    await this.inner.set(hash, await seal(this.key, data, hash))
+  }
+
+  async has(hash: string): Promise<boolean> {
+    return await this.inner.has(hash)
+  }
+
+  async delete(hash: string): Promise<void> {
+    await this.inner.delete(hash)
+  }
+
+  async list(): Promise<string[]> {
+    return await this.inner.list()
+  }
+}
+
+export class EncryptionKey extends Context.Tag("EncryptionKey")<EncryptionKey, CryptoKey>() {}
+
+/**
+ * EncryptionKeyLive — reads DaemonConfig and loads the configured key.
+ * Only provide it when DaemonConfig has `encryption` set.
+ */
+export const EncryptionKeyLive = Layer.effect(
+  EncryptionKey,
+  Effect.gen(function* () {
+    const config = yield* DaemonConfig
+    const source = config.encryption
+    return yield* Effect.tryPromise({
+      try: () =>
+        source
+          ? loadEncryptionKey(source)
+          : Promise.reject(new Error("DaemonConfig has no encryption key")),
+      catch: (e) => new InitializationError({ component: "EncryptionKey", cause: e }),
+    })
+  })
+)
+
+/**
+ * The EncryptionKey if one is provided, for layers that encrypt only when
+ * encryption is configured
+ */
+export const optionalEncryptionKey = Effect.map(
+  Effect.serviceOption(EncryptionKey),
+  Option.getOrUndefined
+)
+
+export function encryptBlobStore(store: BlobStore, key: CryptoKey | undefined): BlobStore {
+  return key ? new EncryptedBlobStore(store, key) : store
+}
+
+export function encryptStorageAdapter(
+  adapter: StorageAdapterInterface,
+  key: CryptoKey | undefined
+): StorageAdapterInterface {
+  return key ? new EncryptedStorageAdapter(adapter, key) : adapter
+}
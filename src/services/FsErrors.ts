@@ -0,0 +1,90 @@
+/**
+ * Errno errors thrown by AutomergeFsMultiDoc
+ *
+ * Plain Error subclasses carrying the `code`, `errno` and `path` that
+ * Node's fs errors have, so just-bash and other Node-style callers can
+ * branch on `err.code`. The Effect service maps them onto the tagged
+ * errors in ../errors.
+ */
+
+export type ErrnoCode =
+  | "EPERM"
+  | "ENOENT"
+  | "EACCES"
+  | "EBUSY"
+  | "EEXIST"
+  | "ENOTDIR"
+  | "EISDIR"
+  | "EINVAL"
+  | "ENOTEMPTY"
+  | "ELOOP"
+  | "ENOTSUP"
+
+// Linux numbering; Node reports them negated
+const ERRNO: Record<ErrnoCode, number> = {
+  EPERM: 1,
+  ENOENT: 2,
+  EACCES: 13,
+  EBUSY: 16,
+  EEXIST: 17,
+  ENOTDIR: 20,
+  EISDIR: 21,
+  EINVAL: 22,
+  ENOTEMPTY: 39,
+  ELOOP: 40,
+  ENOTSUP: 95,
+}
+
+/**
+ * A filesystem error with an errno code. The message reads
+ * "<code>: <description>[: <path>]".
+ */
+export class FsError extends Error {
+  readonly code: ErrnoCode
+  readonly errno: number
+  readonly path: string | undefined
+
+  constructor(code: ErrnoCode, description: string, path?: string) {
+    super(path === undefined ? `${code}: ${description}` : `${code}: ${description}: ${path}`)
+    this.name = new.target.name
+    this.code = code
+    this.errno = -ERRNO[code]
+    this.path = path
+  }
+}
+
+export class NotFound extends FsError {
+  constructor(path: string, description = "no such file or directory") {
+    super("ENOENT", description, path)
+  }
+}
+
+export class IsDirectory extends FsError {
+  constructor(path: string, description = "illegal operation on a directory") {
+    super("EISDIR", description, path)
+  }
+}
+
+export class NotDirectory extends FsError {
+  constructor(path: string, description = "not a directory") {
+    super("ENOTDIR", description, path)
+  }
+}
+
+export class AlreadyExists extends FsError {
+  constructor(path: string, description = "file already exists") {
+    super("EEXIST", description, path)
+  }
+}
+
+export class NotEmpty extends FsError {
+  constructor(path: string, description = "directory not empty") {
+    super("ENOTEMPTY", description, path)
+  }
+}
+
+export class PermissionDenied extends FsError {
+  constructor(path: string, description = "permission denied") {
+    super("EACCES", description, path)
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Key-value storage abstraction
+ *
+ * The smallest surface the filesystem needs from a host store: get, put,
+ * delete and a sorted prefix listing. Automerge chunks, blobs and the root
+ * doc pointer can all sit on one KeyValueStore (see KeyValueStorageAdapter,
+ * KeyValueBlobStore and KeyValueRootDocPointer), so any transactional KV
+ * such as Durable Object storage can host a whole filesystem.
+ */
+
+import { Context, Layer } from "effect"
+
+export interface KeyValueEntry {
+  readonly key: string
+  readonly value: Uint8Array
+}
+
+export interface KeyValueStore {
+  get(key: string): Promise<Uint8Array | undefined>
+  put(key: string, value: Uint8Array): Promise<void>
+  delete(key: string): Promise<void>
+  // Entries whose key starts with `prefix`, in key order
+  list(prefix: string): Promise<KeyValueEntry[]>
+}
+
+/**
+ * In-process key-value store
+ *
+ * Reference implementation for tests and ephemeral sessions. Values are
+ * copied on the way in so callers cannot mutate stored data.
+ */
+export class InMemoryKeyValueStore implements KeyValueStore {
+  private entries = new Map<string, Uint8Array>()
+
+  async get(key: string): Promise<Uint8Array | undefined> {
+    return this.entries.get(key)
+  }
+
+  async put(key: string, value: Uint8Array): Promise<void> {
+    this.entries.set(key, value.slice())
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  async list(prefix: string): Promise<KeyValueEntry[]> {
+    return [...this.entries]
+      .filter(([key]) => key.startsWith(prefix))
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, value]) => ({ key, value }))
+  }
+}
+
+export class KeyValueStoreTag extends Context.Tag("KeyValueStore")<
+  KeyValueStoreTag,
+  KeyValueStore
+>() {}
+
+/**
+ * InMemoryKeyValueStoreLive — a fresh InMemoryKeyValueStore
+ */
+export const InMemoryKeyValueStoreLive = Layer.sync(
+  KeyValueStoreTag,
+  () => new InMemoryKeyValueStore()
+)
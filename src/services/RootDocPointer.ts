@@ -0,0 +1,74 @@
+/**
+ * Root doc pointer
+ *
+ * Remembers the URL of the filesystem's root document between runs, so
+ * AutomergeFsLive can load the existing tree instead of creating a new one.
+ */
+
+import { Context, Effect, Layer } from "effect"
+import { readFile, writeFile, mkdir } from "node:fs/promises"
+import { join } from "node:path"
+import { DaemonConfig } from "../daemon/DaemonConfig"
+import { KeyValueStoreTag, type KeyValueStore } from "./KeyValueStore"
+
+export interface RootDocPointer {
+  get(): Promise<string | undefined>
+  set(rootDocUrl: string): Promise<void>
+}
+
+/**
+ * File-backed pointer: the URL as text in `<dataDir>/root-doc-id`
+ */
+export class FileRootDocPointer implements RootDocPointer {
+  constructor(private dataDir: string) {}
+
+  async get(): Promise<string | undefined> {
+    try {
+      return (await readFile(join(this.dataDir, "root-doc-id"), "utf-8")).trim()
+    } catch {
+      return undefined
+    }
+  }
+
+  async set(rootDocUrl: string): Promise<void> {
+    await mkdir(this.dataDir, { recursive: true })
+    await writeFile(join(this.dataDir, "root-doc-id"), rootDocUrl, "utf-8")
+  }
+}
+
+/**
+ * Key-value pointer: the URL as UTF-8 under the "root-doc-id" key
+ */
+export class KeyValueRootDocPointer implements RootDocPointer {
+  constructor(private kv: KeyValueStore) {}
+
+  async get(): Promise<string | undefined> {
+    const value = await this.kv.get("root-doc-id")
+    return value && new TextDecoder().decode(value)
+  }
+
+  async set(rootDocUrl: string): Promise<void> {
+    await this.kv.put("root-doc-id", new TextEncoder().encode(rootDocUrl))
+  }
+}
+
+export class RootDocPointerTag extends Context.Tag("RootDocPointer")<
+  RootDocPointerTag,
+  RootDocPointer
+>() {}
+
+/**
+ * RootDocPointerLive — reads DaemonConfig, creates FileRootDocPointer
+ */
+export const RootDocPointerLive = Layer.effect(
+  RootDocPointerTag,
+  Effect.map(DaemonConfig, (config) => new FileRootDocPointer(config.dataDir))
+)
+
+/**
+ * KeyValueRootDocPointerLive — keeps the pointer in the KeyValueStore
+ */
+export const KeyValueRootDocPointerLive = Layer.effect(
+  RootDocPointerTag,
+  Effect.map(KeyValueStoreTag, (kv) => new KeyValueRootDocPointer(kv))
+)
@@ -0,0 +1,47 @@
+/**
+ * Shared SQLite database for the sqlite storage backend
+ *
+ * Automerge chunks and blobs live in one database file, so both stores share
+ * a single write-ahead log. Commits land in the order they were made: a root
+ * doc change can never be durable while the blob it points to is not.
+ */
+
+import { Context, Effect, Layer } from "effect"
+import { Database } from "bun:sqlite"
+import { mkdirSync } from "node:fs"
+import { join } from "node:path"
+import { DaemonConfig } from "../daemon/DaemonConfig"
+
+export class SqliteDatabase extends Context.Tag("SqliteDatabase")<
+  SqliteDatabase,
+  Database
+>() {}
+
+/**
+ * Open (or create) the database and its tables. Pass ":memory:" for tests.
+ */
+export function openSqliteDatabase(path: string): Database {
+  const db = new Database(path, { create: true, strict: true })
+  db.run("PRAGMA journal_mode = WAL")
+  db.run("PRAGMA synchronous = NORMAL")
+  db.run("CREATE TABLE IF NOT EXISTS chunks (key TEXT PRIMARY KEY, data BLOB NOT NULL)")
+  db.run("CREATE TABLE IF NOT EXISTS blobs (hash TEXT PRIMARY KEY, data BLOB NOT NULL)")
+  db.run("CREATE TABLE IF NOT EXISTS blob_chunks (hash TEXT PRIMARY KEY, data BLOB NOT NULL)")
+  return db
+}
+
+/**
+ * SqliteDatabaseLive — reads DaemonConfig, opens `<dataDir>/amfs.sqlite`
+ * and closes it when the layer is released
+ */
+export const SqliteDatabaseLive = Layer.scoped(
+  SqliteDatabase,
+  Effect.acquireRelease(
+    Effect.gen(function* () {
+      const config = yield* DaemonConfig
+      mkdirSync(config.dataDir, { recursive: true })
+      return openSqliteDatabase(join(config.dataDir, "amfs.sqlite"))
+    }),
+    (db) => Effect.sync(() => db.close())
+  )
+)
@@ -0,0 +1,240 @@
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { Effect, Layer } from "effect";
+import { Repo } from "@automerge/automerge-repo";
+import { NodeFSStorageAdapter } from "@automerge/automerge-repo-storage-nodefs";
+import type { Database } from "bun:sqlite";
+import { rmSync, mkdirSync, existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import {
+  SqliteStorageAdapter,
+  InMemoryStorageAdapter,
+  KeyValueStorageAdapter,
+} from "./StorageAdapter";
+import { InMemoryKeyValueStore, KeyValueStoreTag } from "./KeyValueStore";
+import { SqliteBlobStore, makeFileSystemBlobStore } from "./BlobStore";
+import { openSqliteDatabase } from "./SqliteDatabase";
+import { AutomergeFs, AutomergeFsMultiDoc } from "./AutomergeFs";
+import { DaemonMemoryLive, DaemonKeyValueLive } from "../daemon/Layer";
+
+describe("SqliteStorageAdapter", () => {
+  let db: Database;
+  let adapter: SqliteStorageAdapter;
+
+  beforeEach(() => {
+    db = openSqliteDatabase(":memory:");
+    adapter = new SqliteStorageAdapter(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test("save and load a key", async () => {
+    const data = new Uint8Array([1, 2, 3]);
+    await adapter.save(["doc1", "snapshot", "h1"], data);
+    expect(await adapter.load(["doc1", "snapshot", "h1"])).toEqual(data);
+    expect(await adapter.load(["doc1", "snapshot", "h2"])).toBeUndefined();
+  });
+
+  test("remove deletes a single key", async () => {
+    await adapter.save(["doc1", "a"], new Uint8Array([1]));
+    await adapter.remove(["doc1", "a"]);
+    expect(await adapter.load(["doc1", "a"])).toBeUndefined();
+  });
+
+  test("loadRange matches whole key parts only", async () => {
+    await adapter.save(["doc1", "incremental", "h1"], new Uint8Array([1]));
+    await adapter.save(["doc1", "snapshot", "h2"], new Uint8Array([2]));
+    await adapter.save(["doc10", "snapshot", "h3"], new Uint8Array([3]));
+
+    const doc1 = await adapter.loadRange(["doc1"]);
+    expect(doc1.map((c) => c.key)).toEqual([
+      ["doc1", "incremental", "h1"],
+      ["doc1", "snapshot", "h2"],
+    ]);
+
+    const incremental = await adapter.loadRange(["doc1", "incremental"]);
+    expect(incremental).toEqual([
+      { key: ["doc1", "incremental", "h1"], data: new Uint8Array([1]) },
+    ]);
+
+    expect(await adapter.loadRange([])).toHaveLength(3);
+  });
+
+  test("removeRange leaves sibling prefixes alone", async () => {
+    await adapter.save(["doc1", "snapshot", "h1"], new Uint8Array([1]));
+    await adapter.save(["doc10", "snapshot", "h2"], new Uint8Array([2]));
+
+    await adapter.removeRange(["doc1"]);
+    expect(await adapter.loadRange(["doc1"])).toEqual([]);
+    expect(await adapter.loadRange(["doc10"])).toHaveLength(1);
+  });
+
+  test("filesystem survives reopening the database file", async () => {
+    const dir = "/tmp/sqlite-storage-test-" + process.pid;
+    if (existsSync(dir)) rmSync(dir, { recursive: true, force: true });
+    mkdirSync(dir, { recursive: true });
+    const path = join(dir, "amfs.sqlite");
+
+    try {
+      const db1 = openSqliteDatabase(path);
+      const repo1 = new Repo({ storage: new SqliteStorageAdapter(db1) });
+      const fs1 = await AutomergeFsMultiDoc.create({
+        repo: repo1,
+        blobStore: new SqliteBlobStore(db1),
+      });
+      await fs1.writeFile("/hello.txt", "hello world");
+      await fs1.writeFile("/image.bin", new Uint8Array([0x00, 0xff, 0x10]));
+      const rootDocUrl = fs1.rootDocUrl;
+      await repo1.flush();
+      repo1.networkSubsystem.disconnect();
+      db1.close();
+
+      const db2 = openSqliteDatabase(path);
+      const repo2 = new Repo({ storage: new SqliteStorageAdapter(db2) });
+      const fs2 = await AutomergeFsMultiDoc.load({
+        repo: repo2,
+        blobStore: new SqliteBlobStore(db2),
+        rootDocUrl,
+      });
+      expect(new TextDecoder().decode(await fs2.readFile("/hello.txt"))).toBe("hello world");
+      expect(await fs2.readFile("/image.bin")).toEqual(new Uint8Array([0x00, 0xff, 0x10]));
+      repo2.networkSubsystem.disconnect();
+      db2.close();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("InMemoryStorageAdapter", () => {
+  let adapter: InMemoryStorageAdapter;
+
+  beforeEach(() => {
+    adapter = new InMemoryStorageAdapter();
+  });
+
+  test("save, load and remove a key", async () => {
+    const data = new Uint8Array([1, 2, 3]);
+    await adapter.save(["doc1", "snapshot", "h1"], data);
+    expect(await adapter.load(["doc1", "snapshot", "h1"])).toEqual(data);
+    await adapter.remove(["doc1", "snapshot", "h1"]);
+    expect(await adapter.load(["doc1", "snapshot", "h1"])).toBeUndefined();
+  });
+
+  test("loadRange and removeRange match whole key parts only", async () => {
+    await adapter.save(["doc1", "incremental", "h1"], new Uint8Array([1]));
+    await adapter.save(["doc1", "snapshot", "h2"], new Uint8Array([2]));
+    await adapter.save(["doc10", "snapshot", "h3"], new Uint8Array([3]));
+
+    expect((await adapter.loadRange(["doc1"])).map((c) => c.key)).toEqual([
+      ["doc1", "incremental", "h1"],
+      ["doc1", "snapshot", "h2"],
+    ]);
+    expect(await adapter.loadRange([])).toHaveLength(3);
+
+    await adapter.removeRange(["doc1"]);
+    expect(await adapter.loadRange(["doc1"])).toEqual([]);
+    expect(await adapter.loadRange(["doc10"])).toHaveLength(1);
+  });
+});
+
+describe("DaemonMemoryLive", () => {
+  test("runs a filesystem with no data directory and dumps it on demand", async () => {
+    const dir = "/tmp/memory-dump-test-" + process.pid;
+    if (existsSync(dir)) rmSync(dir, { recursive: true, force: true });
+
+    try {
+      const result = await Effect.runPromise(
+        Effect.gen(function* () {
+          const fs = yield* AutomergeFs;
+          yield* fs.writeFile("/hello.txt", "hello world");
+          yield* fs.writeFile("/image.bin", new Uint8Array([0x00, 0xff, 0x10]));
+          yield* fs.writeFile("/gone.txt", "deleted later");
+          yield* fs.unlink("/gone.txt");
+          return yield* fs.dump(dir);
+        }).pipe(Effect.provide(DaemonMemoryLive), Effect.scoped),
+      );
+
+      // root + hello.txt + gone.txt, which history still refers to
+      expect(result.documents).toBe(3);
+      expect(result.blobs).toBe(1);
+      expect(readFileSync(join(dir, "root-doc-id"), "utf-8")).toBe(result.rootDocUrl);
+
+      const repo = new Repo({ storage: new NodeFSStorageAdapter(join(dir, "automerge")) });
+      const fs = await AutomergeFsMultiDoc.load({
+        repo,
+        blobStore: makeFileSystemBlobStore(dir),
+        rootDocUrl: result.rootDocUrl,
+      });
+      expect(new TextDecoder().decode(await fs.readFile("/hello.txt"))).toBe("hello world");
+      expect(await fs.readFile("/image.bin")).toEqual(new Uint8Array([0x00, 0xff, 0x10]));
+      repo.networkSubsystem.disconnect();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("KeyValueStorageAdapter", () => {
+  let kv: InMemoryKeyValueStore;
+  let adapter: KeyValueStorageAdapter;
+
+  beforeEach(() => {
+    kv = new InMemoryKeyValueStore();
+    adapter = new KeyValueStorageAdapter(kv);
+  });
+
+  test("stores chunks under the chunks/ prefix", async () => {
+    const data = new Uint8Array([1, 2, 3]);
+    await adapter.save(["doc1", "snapshot", "h1"], data);
+    expect(await kv.get("chunks/doc1/snapshot/h1")).toEqual(data);
+    expect(await adapter.load(["doc1", "snapshot", "h1"])).toEqual(data);
+    await adapter.remove(["doc1", "snapshot", "h1"]);
+    expect(await adapter.load(["doc1", "snapshot", "h1"])).toBeUndefined();
+  });
+
+  test("loadRange and removeRange match whole key parts only", async () => {
+    await adapter.save(["doc1", "incremental", "h1"], new Uint8Array([1]));
+    await adapter.save(["doc1", "snapshot", "h2"], new Uint8Array([2]));
+    await adapter.save(["doc10", "snapshot", "h3"], new Uint8Array([3]));
+    await kv.put("blobs/abc", new Uint8Array([4]));
+
+    expect((await adapter.loadRange(["doc1"])).map((c) => c.key)).toEqual([
+      ["doc1", "incremental", "h1"],
+      ["doc1", "snapshot", "h2"],
+    ]);
+    expect(await adapter.loadRange([])).toHaveLength(3);
+
+    await adapter.removeRange(["doc1"]);
+    expect(await adapter.loadRange(["doc1"])).toEqual([]);
+    expect(await adapter.loadRange(["doc10"])).toHaveLength(1);
+  });
+});
+
+describe("DaemonKeyValueLive", () => {
+  test("reloads the same filesystem from the key-value store", async () => {
+    const kvLayer = Layer.succeed(KeyValueStoreTag, new InMemoryKeyValueStore());
+    const run = <A>(effect: Effect.Effect<A, unknown, AutomergeFs>) =>
+      Effect.runPromise(
+        effect.pipe(Effect.provide(DaemonKeyValueLive), Effect.provide(kvLayer), Effect.scoped),
+      );
+
+    await run(
+      Effect.gen(function* () {
+        const fs = yield* AutomergeFs;
+        yield* fs.writeFile("/hello.txt", "hello world");
+        yield* fs.writeFile("/image.bin", new Uint8Array([0x00, 0xff, 0x10]));
+      }),
+    );
+
+    const [text, binary] = await run(
+      Effect.gen(function* () {
+        const fs = yield* AutomergeFs;
+        return [yield* fs.readFile("/hello.txt"), yield* fs.readFile("/image.bin")] as const;
+      }),
+    );
+    expect(new TextDecoder().decode(text)).toBe("hello world");
+    expect(binary).toEqual(new Uint8Array([0x00, 0xff, 0x10]));
+  });
+});
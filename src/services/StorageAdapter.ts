@@ -1,9 +1,13 @@
 import { Context, Effect, Layer } from "effect"
-import type { StorageAdapterInterface } from "@automerge/automerge-repo"
+import type { Chunk, StorageAdapterInterface, StorageKey } from "@automerge/automerge-repo"
 import { NodeFSStorageAdapter } from "@automerge/automerge-repo-storage-nodefs"
+import type { Database } from "bun:sqlite"
 import { join } from "node:path"
 import { mkdirSync } from "node:fs"
 import { DaemonConfig } from "../daemon/DaemonConfig"
+import { SqliteDatabase } from "./SqliteDatabase"
+import { KeyValueStoreTag, type KeyValueStore } from "./KeyValueStore"
+import { encryptStorageAdapter, optionalEncryptionKey } from "./Encryption"
 
 export class StorageAdapter extends Context.Tag("StorageAdapter")<
   StorageAdapter,
@@ -11,14 +15,201 @@ export class StorageAdapter extends Context.Tag("StorageAdapter")<
 >() {}
 
 /**
- * StorageAdapterLive — reads DaemonConfig, creates NodeFSStorageAdapter
+ * StorageAdapterLive — reads DaemonConfig, creates NodeFSStorageAdapter,
+ * encrypted when an EncryptionKey is provided
  */
 export const StorageAdapterLive = Layer.effect(
   StorageAdapter,
   Effect.gen(function* () {
     const config = yield* DaemonConfig
+    const key = yield* optionalEncryptionKey
     const dir = join(config.dataDir, "automerge")
     mkdirSync(dir, { recursive: true })
-    return new NodeFSStorageAdapter(dir)
+    return encryptStorageAdapter(new NodeFSStorageAdapter(dir), key)
+  })
+)
+
+/**
+ * SQLite storage adapter
+ *
+ * Keys are stored joined with "/" (automerge-repo key parts are document ids,
+ * chunk types and hashes, none of which contain a slash). A prefix range is
+ * the exact key plus everything between "prefix/" and "prefix0", the next
+ * character after "/".
+ */
+export class SqliteStorageAdapter implements StorageAdapterInterface {
+  constructor(private db: Database) {}
+
+  private encodeKey(key: StorageKey): string {
+    return key.join("/")
+  }
+
+  async load(key: StorageKey): Promise<Uint8Array | undefined> {
+    const row = this.db
+      .query<{ data: Uint8Array }, { key: string }>("SELECT data FROM chunks WHERE key = $key")
+      .get({ key: this.encodeKey(key) })
+    return row?.data
+  }
+
+  async save(key: StorageKey, data: Uint8Array): Promise<void> {
+    this.db
+      .query("INSERT OR REPLACE INTO chunks (key, data) VALUES ($key, $data)")
+      .run({ key: this.encodeKey(key), data })
+  }
+
+  async remove(key: StorageKey): Promise<void> {
+    this.db.query("DELETE FROM chunks WHERE key = $key").run({ key: this.encodeKey(key) })
+  }
+
+  async loadRange(keyPrefix: StorageKey): Promise<Chunk[]> {
+    const rows =
+      keyPrefix.length === 0
+        ? this.db.query<{ key: string; data: Uint8Array }, []>("SELECT key, data FROM chunks").all()
+        : this.db
+            .query<{ key: string; data: Uint8Array }, { key: string; lo: string; hi: string }>(
+              "SELECT key, data FROM chunks WHERE key = $key OR (key >= $lo AND key < $hi)"
+            )
+            .all(this.rangeParams(keyPrefix))
+    return rows.map((row) => ({ key: row.key.split("/"), data: row.data }))
+  }
+
+  async removeRange(keyPrefix: StorageKey): Promise<void> {
+    if (keyPrefix.length === 0) {
+      this.db.run("DELETE FROM chunks")
+      return
+    }
+    this.db
+      .query("DELETE FROM chunks WHERE key = $key OR (key >= $lo AND key < $hi)")
+      .run(this.rangeParams(keyPrefix))
+  }
+
+  private rangeParams(keyPrefix: StorageKey): { key: string; lo: string; hi: string } {
+    const key = this.encodeKey(keyPrefix)
+    return { key, lo: `${key}/`, hi: `${key}0` }
+  }
+}
+
+/**
+ * SqliteStorageAdapterLive — stores Automerge chunks in the shared SqliteDatabase,
+ * encrypted when an EncryptionKey is provided
+ */
+export const SqliteStorageAdapterLive = Layer.effect(
+  StorageAdapter,
+  Effect.gen(function* () {
+    const db = yield* SqliteDatabase
+    const key = yield* optionalEncryptionKey
+    return encryptStorageAdapter(new SqliteStorageAdapter(db), key)
+  })
+)
+
+/**
+ * In-memory storage adapter
+ *
+ * Chunks are kept in a Map keyed by the joined storage key, using the same
+ * whole-part prefix matching as SqliteStorageAdapter.
+ */
+export class InMemoryStorageAdapter implements StorageAdapterInterface {
+  private chunks = new Map<string, Uint8Array>()
+
+  async load(key: StorageKey): Promise<Uint8Array | undefined> {
+    return this.chunks.get(key.join("/"))
+  }
+
+  async save(key: StorageKey, data: Uint8Array): Promise<void> {
+    this.chunks.set(key.join("/"), data.slice())
+  }
+
+  async remove(key: StorageKey): Promise<void> {
+    this.chunks.delete(key.join("/"))
+  }
+
+  async loadRange(keyPrefix: StorageKey): Promise<Chunk[]> {
+    return this.keysUnder(keyPrefix).map((key) => ({
+      key: key.split("/"),
+      data: this.chunks.get(key),
+    }))
+  }
+
+  async removeRange(keyPrefix: StorageKey): Promise<void> {
+    for (const key of this.keysUnder(keyPrefix)) {
+      this.chunks.delete(key)
+    }
+  }
+
+  private keysUnder(keyPrefix: StorageKey): string[] {
+    const prefix = keyPrefix.join("/")
+    return [...this.chunks.keys()]
+      .filter((key) => keyPrefix.length === 0 || key === prefix || key.startsWith(`${prefix}/`))
+      .sort()
+  }
+}
+
+/**
+ * InMemoryStorageAdapterLive — storage adapter with no backing directory
+ */
+export const InMemoryStorageAdapterLive = Layer.sync(
+  StorageAdapter,
+  () => new InMemoryStorageAdapter()
+)
+
+/**
+ * Key-value storage adapter
+ *
+ * Chunks live under "chunks/" followed by the "/"-joined storage key, as in
+ * SqliteStorageAdapter. A non-empty prefix lists "chunks/<prefix>/" so only
+ * whole key parts match, plus the exact key itself.
+ */
+export class KeyValueStorageAdapter implements StorageAdapterInterface {
+  constructor(private kv: KeyValueStore) {}
+
+  private encodeKey(key: StorageKey): string {
+    return `chunks/${key.join("/")}`
+  }
+
+  async load(key: StorageKey): Promise<Uint8Array | undefined> {
+    return this.kv.get(this.encodeKey(key))
+  }
+
+  async save(key: StorageKey, data: Uint8Array): Promise<void> {
+    await this.kv.put(this.encodeKey(key), data)
+  }
+
+  async remove(key: StorageKey): Promise<void> {
+    await this.kv.delete(this.encodeKey(key))
+  }
+
+  async loadRange(keyPrefix: StorageKey): Promise<Chunk[]> {
+    const entries = await this.entriesUnder(keyPrefix)
+    return entries.map(({ key, value }) => ({
+      key: key.slice("chunks/".length).split("/"),
+      data: value,
+    }))
+  }
+
+  async removeRange(keyPrefix: StorageKey): Promise<void> {
+    for (const { key } of await this.entriesUnder(keyPrefix)) {
+      await this.kv.delete(key)
+    }
+  }
+
+  private async entriesUnder(keyPrefix: StorageKey) {
+    if (keyPrefix.length === 0) return this.kv.list("chunks/")
+    const key = this.encodeKey(keyPrefix)
+    const exact = await this.kv.get(key)
+    const nested = await this.kv.list(`${key}/`)
+    return exact ? [{ key, value: exact }, ...nested] : nested
+  }
+}
+
+/**
+ * KeyValueStorageAdapterLive — stores Automerge chunks in the KeyValueStore,
+ * encrypted when an EncryptionKey is provided
+ */
+export const KeyValueStorageAdapterLive = Layer.effect(
+  StorageAdapter,
+  Effect.gen(function* () {
+    const kv = yield* KeyValueStoreTag
+    const key = yield* optionalEncryptionKey
+    return encryptStorageAdapter(new KeyValueStorageAdapter(kv), key)
   })
 )